@@ -1,175 +1,755 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { storageService } from './services';
-import type { Activity, ActivityType, Movie, Book, Event } from './types';
-import { Header, Modal, MovieCard, BookCard, EventCard, MovieForm, BookForm, EventForm } from './components';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { activityRepository, collectionRepository, tmdbService, mergeIntoLibrary, moveToTrash, onDatabaseOutdated, refreshMovieMetadata, replaceLibrary, restoreFromTrash, revisionRepository, saveManyWithRevisions, saveWithRevision, trashRepository, StorageError } from './services';
+import type { Activity, ActivityStatus, ActivityType, AppView, Book, Collection, ConflictResolution, GridMove, LibraryChange, Locale, MergePlan, Movie, MovieDetails, LibraryQuery, PaletteCommand, Revision, ToastMessage, TrashedActivity, UndoHistory } from './types';
+import { Header, Modal, NAV_VIEWS, viewLabel, CommandPalette, DuplicatePanel, ShortcutList, SettingsContext, SettingsPanel, SharePanel, ActivityDetail, ActivityForm, BackupPanel, CalendarView, CollectionForm, CollectionList, CollectionPage, CsvImportWizard, DayPanel, IsbnCleanupPanel, ErrorBanner, LoadingSpinner, QueryBar, StatsDashboard, TimelineView, Toast, TrashView, UpcomingEvents, viewFor } from './components';
+import { ACTIVITY_TYPES, isActivityType } from './activityTypes';
+import { LOCALES, LOCALE_NAMES, LOCALE_TAGS, translatorFor, type MessageKey } from './i18n';
+import { isBacklogItem } from './status';
+import { calendarEntries, isMonthString, localToday } from './calendar';
+import { createCollection, redirectCollectionItems } from './collections';
+import { duplicateGroupKey, findDuplicateGroups } from './duplicates';
+import { upcomingEvents } from './events';
+import { tagCounts } from './tags';
+import { effectiveTmdbSettings, loadSettings, saveSettings } from './settings';
+import { applyMerge, mergeReplacements } from './backup';
+import { createRevision } from './revisions';
+import { downloadStaticSite } from './staticSite';
+import { EMPTY_HISTORY, batchAdditions, describeChange, forgetActivities, recordChange, redoStep, undoStep } from './undoHistory';
+import { auditIsbns, isbnIssueCount, normalizeIsbn } from './isbn';
+import { gridMoveForKey, isInDialog, isTypingTarget, moveInGrid } from './keyboard';
+import { queryFromSearchParams, queryToSearchParams, isQueryActive, filterActivities, sortActivities } from './libraryQuery';
+
+const viewFromSearchParams = (params: URLSearchParams): AppView => {
+    const view = params.get('view');
+    return view === 'collections' || view === 'calendar' || view === 'timeline' || view === 'stats' || view === 'trash' || isActivityType(view) ? view : 'movie';
+};
+
+const currentMonth = () => localToday().substring(0, 7);
+
+const monthFromSearchParams = (params: URLSearchParams): string => {
+    const month = params.get('month');
+    return isMonthString(month) ? month : currentMonth();
+};
+
+const yearFromSearchParams = (params: URLSearchParams): number => {
+    const year = Number(params.get('year'));
+    return Number.isInteger(year) && year > 0 ? year : new Date().getFullYear();
+};
+
+type Shelf = 'log' | 'backlog';
+
+const shelfFromSearchParams = (params: URLSearchParams): Shelf => params.get('shelf') === 'backlog' ? 'backlog' : 'log';
+
+type MergeChange = Extract<LibraryChange, { kind: 'merge' }>;
+type BatchChange = Extract<LibraryChange, { kind: 'batch' }>;
 
 const App: React.FC = () => {
-    const [movies, setMovies] = useState<Movie[]>([]);
-    const [books, setBooks] = useState<Book[]>([]);
-    const [events, setEvents] = useState<Event[]>([]);
-    const [currentView, setCurrentView] = useState<ActivityType>('movie');
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [collections, setCollections] = useState<Collection[]>([]);
+    const [trash, setTrash] = useState<TrashedActivity[]>([]);
+    const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+    const [toast, setToast] = useState<ToastMessage | null>(null);
+    const [revisions, setRevisions] = useState<Revision[]>([]);
+    const [currentView, setCurrentView] = useState<AppView>(() => viewFromSearchParams(new URLSearchParams(window.location.search)));
+    const [shelf, setShelf] = useState<Shelf>(() => shelfFromSearchParams(new URLSearchParams(window.location.search)));
+    const [query, setQuery] = useState<LibraryQuery>(() => queryFromSearchParams(new URLSearchParams(window.location.search)));
+    const [calendarMonth, setCalendarMonth] = useState(() => monthFromSearchParams(new URLSearchParams(window.location.search)));
+    const [timelineYear, setTimelineYear] = useState(() => yearFromSearchParams(new URLSearchParams(window.location.search)));
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+    const [openCollectionId, setOpenCollectionId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('collection'));
+    const [detailId, setDetailId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('item'));
+    const [collectionToEdit, setCollectionToEdit] = useState<Collection | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingItem, setEditingItem] = useState<Activity | null>(null);
+    const [isPromoting, setIsPromoting] = useState(false);
+    const [isBackupOpen, setIsBackupOpen] = useState(false);
+    const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+    const [isIsbnCleanupOpen, setIsIsbnCleanupOpen] = useState(false);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+    const [skippedDuplicates, setSkippedDuplicates] = useState<string[]>([]); // group keys, for this session only
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isShareOpen, setIsShareOpen] = useState(false);
+    const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+    const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+    const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+    const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+    const searchInputRef = useRef<HTMLInputElement>(null);
+    const cardGridRef = useRef<HTMLDivElement>(null);
+    const [settings, setSettings] = useState(() => loadSettings());
+    const [isLoading, setIsLoading] = useState(true);
+    const [storageError, setStorageError] = useState<MessageKey | null>(null);
+    const i18n = translatorFor(settings.locale);
+    const { t } = i18n;
+
+    useEffect(() => {
+        const params = queryToSearchParams(query, new URLSearchParams(window.location.search));
+        if (currentView === 'movie') params.delete('view'); else params.set('view', currentView);
+        if (shelf === 'log') params.delete('shelf'); else params.set('shelf', shelf);
+        if (currentView === 'calendar' && calendarMonth !== currentMonth()) params.set('month', calendarMonth); else params.delete('month');
+        if (detailId) params.set('item', detailId); else params.delete('item');
+        if (currentView === 'collections' && openCollectionId) params.set('collection', openCollectionId); else params.delete('collection');
+        if (currentView === 'timeline' && timelineYear !== new Date().getFullYear()) params.set('year', String(timelineYear)); else params.delete('year');
+        const search = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    }, [query, currentView, shelf, calendarMonth, timelineYear, openCollectionId, detailId]);
+
+    useEffect(() => {
+        if (detailId) window.scrollTo(0, 0);
+    }, [detailId]);
+
+    useEffect(() => saveSettings(settings), [settings]);
+
+    useEffect(() => {
+        document.documentElement.lang = LOCALE_TAGS[settings.locale];
+    }, [settings.locale]);
+
+    const changeLocale = (locale: Locale) => setSettings(prev => ({ ...prev, locale }));
+
+    const reportStorageError = (error: unknown) => {
+        console.error(error);
+        setStorageError(error instanceof StorageError ? `storageError.${error.reason}` : 'storageError.unexpected');
+    };
+
+    useEffect(() => onDatabaseOutdated(() => setStorageError('storageError.outdated')), []);
+
+    const tmdbSettings = effectiveTmdbSettings(settings);
+
+    // Declared before the loading effect below so the metadata refresh already uses these.
+    useEffect(() => {
+        tmdbService.configure(tmdbSettings);
+    }, [tmdbSettings.apiKey, tmdbSettings.language, tmdbSettings.region]);
+
+    const handleMovieDetails = async (movieId: string, details: MovieDetails) => {
+        // Re-read the record so a background refresh never overwrites an edit made meanwhile.
+        const current = await activityRepository.get(movieId);
+        if (current?.type !== 'movie') return;
+        const updated: Movie = { ...current, details };
+        await activityRepository.put(updated);
+        setActivities(prev => prev.map(item => item.id === movieId ? updated : item));
+    };
 
     useEffect(() => {
-        setMovies(storageService.getMovies());
-        setBooks(storageService.getBooks());
-        setEvents(storageService.getEvents());
+        const metadataRefresh = new AbortController();
+        collectionRepository.getAll().then(setCollections).catch(reportStorageError);
+        trashRepository.getAll().then(setTrash).catch(reportStorageError);
+        activityRepository.getAll()
+            .then(loaded => {
+                setActivities(loaded);
+                const movies = loaded.filter((item): item is Movie => item.type === 'movie');
+                refreshMovieMetadata(movies, handleMovieDetails, { signal: metadataRefresh.signal }).catch(reportStorageError);
+            })
+            .catch(reportStorageError)
+            .finally(() => setIsLoading(false));
+        return () => metadataRefresh.abort();
     }, []);
 
-    const handleOpenModal = (itemToEdit?: Activity) => {
+    const persist = async (operation: Promise<void>): Promise<boolean> => {
+        try {
+            await operation;
+            setStorageError(null);
+            return true;
+        } catch (error) {
+            reportStorageError(error);
+            return false;
+        }
+    };
+
+    const handleOpenModal = (itemToEdit?: Activity, promote = false) => {
         setEditingItem(itemToEdit || null);
+        setIsPromoting(promote);
         setIsModalOpen(true);
     };
 
     const handleCloseModal = () => {
         setIsModalOpen(false);
         setEditingItem(null);
+        setIsPromoting(false);
     };
 
-    const handleSaveMovie = (movie: Movie) => {
-        const newMovies = editingItem
-            ? movies.map(m => m.id === movie.id ? movie : m)
-            : [...movies, movie];
-        setMovies(newMovies);
-        storageService.saveMovies(newMovies);
-        handleCloseModal();
+    const showToast = (message: string, action?: ToastMessage['action']) => setToast({ id: Date.now(), message, action });
+
+    // --- Library changes ---
+    // Each helper persists one step and mirrors it in state; `applyChange` replays them for undo/redo.
+
+    /** Saves `activity`. Form saves and reverts also store a revision, passing `previous` (null for a new entry). */
+    const putActivity = async (activity: Activity, previous?: Activity | null): Promise<boolean> => {
+        const operation = previous === undefined ? activityRepository.put(activity)
+            : saveWithRevision(createRevision(activity), previous ? createRevision(previous, null) : undefined);
+        if (!await persist(operation)) return false;
+        setActivities(prev => prev.some(item => item.id === activity.id) ? prev.map(item => item.id === activity.id ? activity : item) : [...prev, activity]);
+        return true;
     };
-    
-    const handleSaveBook = (book: Book) => {
-        const newBooks = editingItem
-            ? books.map(b => b.id === book.id ? book : b)
-            : [...books, book];
-        setBooks(newBooks);
-        storageService.saveBooks(newBooks);
-        handleCloseModal();
+
+    /** `putActivity` for many activities; `previous` lines up with `updated` and makes every save store a revision. */
+    const putActivities = async (updated: Activity[], previous?: Activity[]): Promise<boolean> => {
+        if (updated.length === 0) return true;
+        const operation = previous === undefined ? activityRepository.putMany(updated)
+            : saveManyWithRevisions(updated.map((activity, i) => ({ revision: createRevision(activity), baseline: createRevision(previous[i], null) })));
+        if (!await persist(operation)) return false;
+        setActivities(prev => [
+            ...prev.map(item => updated.find(u => u.id === item.id) ?? item),
+            ...updated.filter(u => !prev.some(item => item.id === u.id)),
+        ]);
+        return true;
     };
 
-    const handleSaveEvent = (event: Event) => {
-        const newEvents = editingItem
-            ? events.map(e => e.id === event.id ? event : e)
-            : [...events, event];
-        setEvents(newEvents);
-        storageService.saveEvents(newEvents);
-        handleCloseModal();
+    const removeActivities = async (removed: Activity[]): Promise<boolean> => {
+        if (removed.length === 0) return true;
+        const ids = removed.map(item => item.id);
+        if (!await persist(activityRepository.deleteMany(ids))) return false;
+        setActivities(prev => prev.filter(item => !ids.includes(item.id)));
+        setDetailId(prev => prev && ids.includes(prev) ? null : prev);
+        return true;
     };
 
-    const handleDelete = (id: string, type: ActivityType) => {
-        if (window.confirm('Are you sure you want to delete this item?')) {
-            switch (type) {
-                case 'movie':
-                    const updatedMovies = movies.filter(m => m.id !== id);
-                    setMovies(updatedMovies);
-                    storageService.saveMovies(updatedMovies);
-                    break;
-                case 'book':
-                    const updatedBooks = books.filter(b => b.id !== id);
-                    setBooks(updatedBooks);
-                    storageService.saveBooks(updatedBooks);
-                    break;
-                case 'event':
-                    const updatedEvents = events.filter(e => e.id !== id);
-                    setEvents(updatedEvents);
-                    storageService.saveEvents(updatedEvents);
-                    break;
-            }
+    const removeActivity = async (activity: Activity): Promise<boolean> => {
+        if (!await persist(activityRepository.delete(activity.id))) return false;
+        setActivities(prev => prev.filter(item => item.id !== activity.id));
+        setDetailId(prev => prev === activity.id ? null : prev);
+        return true;
+    };
+
+    const trashActivity = async (activity: Activity): Promise<boolean> => {
+        const entry: TrashedActivity = { activity, deletedAt: new Date().toISOString() };
+        if (!await persist(moveToTrash(entry))) return false;
+        setActivities(prev => prev.filter(item => item.id !== activity.id));
+        setTrash(prev => [...prev.filter(e => e.activity.id !== activity.id), entry]);
+        setDetailId(prev => prev === activity.id ? null : prev);
+        return true;
+    };
+
+    const restoreActivity = async (activity: Activity): Promise<boolean> => {
+        if (!await persist(restoreFromTrash(activity))) return false;
+        setTrash(prev => prev.filter(e => e.activity.id !== activity.id));
+        setActivities(prev => [...prev.filter(item => item.id !== activity.id), activity]);
+        return true;
+    };
+
+    const putCollections = async (updated: Collection[]): Promise<boolean> => {
+        if (updated.length === 0) return true;
+        if (!await persist(collectionRepository.putMany(updated))) return false;
+        setCollections(prev => prev.map(c => updated.find(u => u.id === c.id) ?? c));
+        return true;
+    };
+
+    // `previous` as in putActivity: passed for the first merge so it gets a revision, not for redo.
+    const mergeActivities = async (change: MergeChange, previous?: Activity): Promise<boolean> => {
+        if (!await putActivity(change.after, previous)) return false;
+        for (const item of change.merged) {
+            if (!await trashActivity(item)) return false;
+        }
+        return putCollections(redirectCollectionItems(collections, change.merged.map(item => item.id), change.after.id));
+    };
+
+    const unmergeActivities = async (change: MergeChange): Promise<boolean> => {
+        if (!await putActivity(change.before)) return false;
+        for (const item of change.merged) {
+            if (!await restoreActivity(item)) return false;
         }
+        return putCollections(change.collectionsBefore);
+    };
+
+    const unbatchActivities = async (change: BatchChange): Promise<boolean> => {
+        if (!await removeActivities(batchAdditions(change))) return false;
+        return putActivities(change.before);
+    };
+
+    const applyChange = (change: LibraryChange, direction: 'undo' | 'redo'): Promise<boolean> => {
+        const undoing = direction === 'undo';
+        switch (change.kind) {
+            case 'create': return undoing ? removeActivity(change.activity) : putActivity(change.activity);
+            case 'edit': return putActivity(undoing ? change.before : change.after);
+            case 'delete': return undoing ? restoreActivity(change.activity) : trashActivity(change.activity);
+            case 'merge': return undoing ? unmergeActivities(change) : mergeActivities(change);
+            case 'batch': return undoing ? unbatchActivities(change) : putActivities(change.after);
+        }
+    };
+
+    const record = (change: LibraryChange) => {
+        setHistory(prev => recordChange(prev, change));
+        showToast(describeChange(change, i18n), 'undo');
+    };
+
+    const handleUndo = async () => {
+        const step = undoStep(history);
+        if (!step || !await applyChange(step.change, 'undo')) return;
+        setHistory(step.history);
+        showToast(t('toast.undone', { change: describeChange(step.change, i18n) }), 'redo');
+    };
+
+    const handleRedo = async () => {
+        const step = redoStep(history);
+        if (!step || !await applyChange(step.change, 'redo')) return;
+        setHistory(step.history);
+        showToast(t('toast.redone', { change: describeChange(step.change, i18n) }), 'undo');
+    };
+
+    const handleSave = async (activity: Activity) => {
+        const previous = activities.find(item => item.id === activity.id);
+        if (!await putActivity(activity, previous ?? null)) return;
+        record(previous ? { kind: 'edit', before: previous, after: activity } : { kind: 'create', activity });
+        handleCloseModal();
+    };
+
+    const handleReplaceImport = async (imported: Activity[], importedCollections: Collection[]) => {
+        if (!await persist(replaceLibrary(imported, importedCollections))) return;
+        setActivities(imported);
+        setCollections(importedCollections);
+        // Earlier steps refer to the library that was just replaced.
+        setHistory(EMPTY_HISTORY);
+        setIsBackupOpen(false);
+    };
+
+    // A merge keeps every existing record, so their revisions and undo steps stay valid.
+    const handleMergeImport = async (plan: MergePlan, resolutions: Record<string, ConflictResolution>, mergedCollections: Collection[]) => {
+        const revisions = mergeReplacements(plan, resolutions)
+            .map(({ before, after }) => ({ revision: createRevision(after), baseline: createRevision(before, null) }));
+        if (!await persist(mergeIntoLibrary(plan.additions, revisions, mergedCollections))) return;
+        setActivities(prev => applyMerge(prev, plan, resolutions));
+        setCollections(mergedCollections);
+        setIsBackupOpen(false);
+    };
+
+    const handleCsvImport = async (imported: Activity[]) => {
+        if (!await putActivities(imported)) return;
+        record({ kind: 'batch', action: 'import', before: [], after: imported });
+        setIsCsvImportOpen(false);
+    };
+
+    const handleNormalizeIsbns = async (books: Book[]) => {
+        const normalized = books.map(book => ({ ...book, isbn: normalizeIsbn(book.isbn) ?? book.isbn }));
+        if (!await putActivities(normalized, books)) return;
+        record({ kind: 'batch', action: 'normalizeIsbns', before: books, after: normalized });
+    };
+
+    const handleDelete = async (id: string) => {
+        const item = activities.find(activity => activity.id === id);
+        if (!item || !await trashActivity(item)) return;
+        record({ kind: 'delete', activity: item });
+    };
+
+    const handleMerge = async (items: Activity[], merged: Activity) => {
+        const before = items.find(item => item.id === merged.id);
+        if (!before) return;
+        const others = items.filter(item => item !== before);
+        const change: MergeChange = {
+            kind: 'merge',
+            before,
+            after: merged,
+            merged: others,
+            collectionsBefore: collections.filter(c => c.itemIds.some(id => others.some(item => item.id === id))),
+        };
+        if (!await mergeActivities(change, before)) return;
+        record(change);
+    };
+
+    const handleRevert = async (revision: Revision) => {
+        const current = activities.find(item => item.id === revision.activityId);
+        if (!current || !await putActivity(revision.activity, current)) return;
+        record({ kind: 'edit', before: current, after: revision.activity });
+    };
+
+    const handleRestore = async (entry: TrashedActivity) => {
+        if (!await restoreActivity(entry.activity)) return;
+        showToast(t('toast.restored', { title: entry.activity.title }));
+    };
+
+    const handlePurge = async (entry: TrashedActivity) => {
+        if (!window.confirm(t('trash.confirmPurge', { title: entry.activity.title }))) return;
+        if (!await persist(trashRepository.delete(entry.activity.id).then(() => revisionRepository.deleteForActivities([entry.activity.id])))) return;
+        setTrash(prev => prev.filter(e => e.activity.id !== entry.activity.id));
+        setHistory(prev => forgetActivities(prev, [entry.activity.id]));
+    };
+
+    const handleEmptyTrash = async () => {
+        if (!window.confirm(t('trash.confirmEmpty', { count: trash.length }))) return;
+        if (!await persist(trashRepository.clear().then(() => revisionRepository.deleteForActivities(trash.map(e => e.activity.id))))) return;
+        setHistory(prev => forgetActivities(prev, trash.map(e => e.activity.id)));
+        setTrash([]);
     };
     
+    const handleSaveCollection = async (collection: Collection) => {
+        if (!await persist(collectionRepository.put(collection))) return;
+        setCollections(prev => prev.some(c => c.id === collection.id) ? prev.map(c => c.id === collection.id ? collection : c) : [...prev, collection]);
+        setCollectionToEdit(null);
+        setOpenCollectionId(collection.id);
+    };
+
+    const handleDeleteCollection = async (collection: Collection) => {
+        if (!window.confirm(t('collections.confirmDelete', { name: collection.name }))) return;
+        if (!await persist(collectionRepository.delete(collection.id))) return;
+        setCollections(prev => prev.filter(c => c.id !== collection.id));
+        setOpenCollectionId(null);
+    };
+
     const getModalContent = () => {
         const itemToEdit = editingItem;
-        const view = itemToEdit?.type || currentView;
-        
-        switch(view) {
-            case 'movie':
-                return {
-                    title: itemToEdit ? 'Edit Movie Log' : 'Log New Movie',
-                    form: <MovieForm onSave={handleSaveMovie} onClose={handleCloseModal} itemToEdit={itemToEdit as Movie} />
-                };
-            case 'book':
-                return {
-                    title: itemToEdit ? 'Edit Book Log' : 'Log New Book',
-                    form: <BookForm onSave={handleSaveBook} onClose={handleCloseModal} itemToEdit={itemToEdit as Book} />
-                };
-            case 'event':
-                return {
-                    title: itemToEdit ? 'Edit Event Log' : 'Log New Event',
-                    form: <EventForm onSave={handleSaveEvent} onClose={handleCloseModal} itemToEdit={itemToEdit as Event} />
-                };
-            default:
-                return { title: '', form: null };
+        const type = itemToEdit?.type ?? (isActivityType(currentView) ? currentView : null);
+        if (!type) {
+            return { title: '', form: null };
         }
+        const { singular, statusLabels } = i18n.type(type);
+        const defaultStatus: ActivityStatus = shelf === 'backlog' ? 'planned' : 'completed';
+        const title = itemToEdit && isPromoting ? t('form.markAs', { status: statusLabels.completed })
+            : itemToEdit ? t('form.editLog', { type: singular })
+            : t('form.logNew', { type: singular });
+        return {
+            title,
+            form: <ActivityForm type={type} knownTags={knownTags} library={activities} onSave={handleSave} onClose={handleCloseModal} itemToEdit={itemToEdit} promote={isPromoting} defaultStatus={defaultStatus} />,
+        };
     };
 
+    const knownTags = useMemo(() => tagCounts(activities).map(({ tag }) => tag), [activities]);
+    const detailItem = activities.find(item => item.id === detailId) ?? null;
+    const openCollection = collections.find(c => c.id === openCollectionId) ?? null;
+
+    // Reloaded whenever the open entry changes, which includes every save of it.
+    useEffect(() => {
+        if (!detailItem) {
+            setRevisions([]);
+            return;
+        }
+        revisionRepository.getByActivity(detailItem.id).then(setRevisions).catch(reportStorageError);
+    }, [detailItem]);
+
+    const nextUndo = history.past.at(-1);
+    const nextRedo = history.future.at(-1);
+
     const {title: modalTitle, form: modalForm } = getModalContent();
 
-    const sortedItems = useMemo(() => {
-        const sortFn = (a: Activity, b: Activity) => new Date(b.date).getTime() - new Date(a.date).getTime();
-        switch(currentView) {
-            case 'movie': return [...movies].sort(sortFn);
-            case 'book': return [...books].sort(sortFn);
-            case 'event': return [...events].sort(sortFn);
-            default: return [];
+    const isbnAudit = useMemo(() => auditIsbns(activities.filter((item): item is Book => item.type === 'book')), [activities]);
+    const isbnIssues = isbnIssueCount(isbnAudit);
+
+    // Comparing every pair is quadratic, so the whole library is only checked while the panel is open.
+    const duplicateGroups = useMemo(() => findDuplicateGroups(isDuplicatesOpen ? activities : activities.filter(item => item.type === currentView))
+        .filter(group => !skippedDuplicates.includes(duplicateGroupKey(group))), [isDuplicatesOpen, activities, currentView, skippedDuplicates]);
+
+    const isSearching = isQueryActive(query);
+    const typeText = isActivityType(currentView) ? i18n.type(currentView) : null;
+
+    const visibleItems = useMemo(() => {
+        const pool = isSearching ? activities
+            : !isActivityType(currentView) ? []
+            : activities.filter(item => item.type === currentView && isBacklogItem(item) === (shelf === 'backlog'));
+        return sortActivities(filterActivities(pool, query), query.sortField, query.sortDirection);
+    }, [isSearching, query, currentView, shelf, activities]);
+
+    const upcoming = useMemo(() => upcomingEvents(activities, localToday()), [activities]);
+
+    const entries = useMemo(() => calendarEntries(activities), [activities]);
+    const selectedDayEntries = useMemo(() => selectedDay ? entries.filter(entry => entry.day === selectedDay) : [], [entries, selectedDay]);
+
+    const navigate = (view: AppView) => {
+        setCurrentView(view);
+        setOpenCollectionId(null);
+        setDetailId(null);
+        setSelectedCardId(null);
+    };
+
+    const startNewEntry = (type: ActivityType, shelfForEntry: Shelf) => {
+        navigate(type);
+        setShelf(shelfForEntry);
+        handleOpenModal();
+    };
+
+    // Only the list views have a search box; focusing waits for it to render (see the effect below).
+    const focusSearch = () => {
+        if (!isActivityType(currentView) || detailItem) navigate(isActivityType(currentView) ? currentView : 'movie');
+        setSearchFocusRequest(prev => prev + 1);
+    };
+
+    useEffect(() => {
+        if (searchFocusRequest > 0) searchInputRef.current?.focus();
+    }, [searchFocusRequest]);
+
+    const isListView = isActivityType(currentView) && !detailItem && !isLoading;
+    const selectedItem = isListView ? visibleItems.find(item => item.id === selectedCardId) ?? null : null;
+
+    const moveSelection = (move: GridMove) => {
+        const grid = cardGridRef.current;
+        const columns = grid ? getComputedStyle(grid).gridTemplateColumns.split(' ').length : 1;
+        const index = moveInGrid(visibleItems.findIndex(item => item.id === selectedCardId), visibleItems.length, columns, move);
+        setSelectedCardId(visibleItems[index]?.id ?? null);
+    };
+
+    useEffect(() => {
+        const index = visibleItems.findIndex(item => item.id === selectedCardId);
+        if (index >= 0) cardGridRef.current?.children[index]?.scrollIntoView({ block: 'nearest' });
+    }, [selectedCardId]);
+
+    // Reassigned every render so shortcuts always act on the latest state (undo and merges write
+    // collections as well as activities); the listener itself is only registered once.
+    const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+    handleKeyDownRef.current = (e: KeyboardEvent) => {
+        // Dialogs handle their own keys (see Modal).
+        if (isInDialog(e.target)) return;
+        const key = e.key.toLowerCase();
+        if ((e.ctrlKey || e.metaKey) && key === 'k') {
+            e.preventDefault();
+            setIsPaletteOpen(true);
+            return;
         }
-    }, [currentView, movies, books, events]);
+        // Text fields keep their own undo and their own keys.
+        if (isTypingTarget(e.target)) return;
+        if (e.ctrlKey || e.metaKey) {
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+            return;
+        }
+        if (e.altKey) return;
+
+        // Enter on a focused button or link presses it as usual.
+        const onControl = e.target instanceof Element && e.target.closest('button, a[href], summary') !== null;
+        const current = detailItem ?? selectedItem;
+        const move = isListView ? gridMoveForKey(e.key, selectedItem !== null) : null;
+        if (e.key === '?') setIsShortcutHelpOpen(true);
+        else if (e.key === '/') focusSearch();
+        else if (e.key === 'n' && isListView) handleOpenModal();
+        else if (move) moveSelection(move);
+        else if ((e.key === 'Enter' || e.key === 'o') && selectedItem && !onControl) setDetailId(selectedItem.id);
+        else if (e.key === 'e' && current) handleOpenModal(current);
+        else if ((e.key === 'Delete' || e.key === '#') && current) handleDelete(current.id);
+        else if (e.key === 'Escape' && detailItem) setDetailId(null);
+        else if (e.key === 'Escape' && selectedItem) setSelectedCardId(null);
+        else return;
+        e.preventDefault();
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
 
+    const paletteCommands = (): PaletteCommand[] => {
+        const current = detailItem ?? selectedItem;
+        return [
+            ...ACTIVITY_TYPES.flatMap(type => {
+                const singular = i18n.type(type).singular.toLowerCase();
+                return [
+                    { id: `log-${type}`, label: t('command.logNew', { type: singular }), group: t('command.groupLog'), keywords: ['add', 'create'], shortcut: currentView === type ? 'n' : undefined, run: () => startNewEntry(type, 'log') },
+                    { id: `plan-${type}`, label: t('command.addToBacklog', { type: singular }), group: t('command.groupLog'), keywords: ['plan', 'wishlist', 'later'], run: () => startNewEntry(type, 'backlog') },
+                ];
+            }),
+            ...(current ? [
+                { id: 'edit-current', label: t('command.editCurrent', { title: current.title }), group: t('command.groupEntry'), shortcut: 'e', run: () => handleOpenModal(current) },
+                { id: 'delete-current', label: t('command.trashCurrent', { title: current.title }), group: t('command.groupEntry'), keywords: ['delete', 'remove'], shortcut: 'Del', run: () => handleDelete(current.id) },
+            ] : []),
+            ...NAV_VIEWS.map(view => ({ id: `go-${view}`, label: t('command.goTo', { view: viewLabel(view, i18n) }), group: t('command.groupGoTo'), keywords: ['open', 'show', 'view'], run: () => navigate(view) })),
+            { id: 'search', label: t('shortcut.search'), group: t('command.groupLibrary'), keywords: ['find', 'filter'], shortcut: '/', run: focusSearch },
+            ...(nextUndo ? [{ id: 'undo', label: t('command.undo', { change: describeChange(nextUndo, i18n) }), group: t('command.groupLibrary'), shortcut: 'Ctrl+Z', run: handleUndo }] : []),
+            ...(nextRedo ? [{ id: 'redo', label: t('command.redo', { change: describeChange(nextRedo, i18n) }), group: t('command.groupLibrary'), shortcut: 'Ctrl+Shift+Z', run: handleRedo }] : []),
+            { id: 'import-csv', label: t('command.importCsv'), group: t('command.groupLibrary'), keywords: ['csv'], run: () => setIsCsvImportOpen(true) },
+            { id: 'backup', label: t('command.backup'), group: t('command.groupLibrary'), keywords: ['export', 'import', 'json'], run: () => setIsBackupOpen(true) },
+            { id: 'duplicates', label: t('command.duplicates'), group: t('command.groupLibrary'), keywords: ['merge', 'dedupe', 'cleanup'], run: () => setIsDuplicatesOpen(true) },
+            { id: 'share', label: t('command.share'), group: t('command.groupLibrary'), keywords: ['export', 'site', 'feed'], run: () => setIsShareOpen(true) },
+            { id: 'settings', label: t('header.settings'), group: t('command.groupApp'), keywords: ['preferences', 'rating', 'tmdb'], run: () => setIsSettingsOpen(true) },
+            { id: 'shortcuts', label: t('command.shortcuts'), group: t('command.groupApp'), keywords: ['help', 'keys'], shortcut: '?', run: () => setIsShortcutHelpOpen(true) },
+            ...LOCALES.filter(locale => locale !== settings.locale).map(locale => ({ id: `locale-${locale}`, label: t('command.switchLanguage', { language: LOCALE_NAMES[locale] }), group: t('command.groupApp'), keywords: ['language', 'locale', 'translate'], run: () => changeLocale(locale) })),
+        ];
+    };
+
+    const renderCard = (item: Activity) => {
+        const { Card } = viewFor(item.type);
+        return <Card key={item.id} item={item} selected={item.id === selectedCardId} onEdit={() => handleOpenModal(item)} onDelete={handleDelete} onPromote={() => handleOpenModal(item, true)} onOpen={() => setDetailId(item.id)} />;
+    };
 
     const renderContent = () => {
-        if (sortedItems.length === 0) {
-            return (
+        if (isLoading) {
+            return <LoadingSpinner />;
+        }
+
+        if (visibleItems.length === 0) {
+            return isSearching ? (
                 <div className="text-center py-20">
-                    <h2 className="text-2xl text-gray-400">No {currentView}s logged yet.</h2>
-                    <p className="text-gray-500 mt-2">Click the button above to add your first one!</p>
+                    <h2 className="text-2xl text-gray-400">{t('library.noMatches')}</h2>
+                    <p className="text-gray-500 mt-2">{t('library.noMatchesHint')}</p>
+                </div>
+            ) : (
+                <div className="text-center py-20">
+                    <h2 className="text-2xl text-gray-400">{t(shelf === 'backlog' ? 'library.emptyBacklog' : 'library.emptyLog', { types: typeText?.label.toLowerCase() ?? '' })}</h2>
+                    <p className="text-gray-500 mt-2">{t('library.emptyHint')}</p>
                 </div>
             );
         }
 
-        const gridClasses = "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6";
-
-        switch (currentView) {
-            case 'movie':
-                return (
-                    <div className={gridClasses}>
-                        {(sortedItems as Movie[]).map(item => <MovieCard key={item.id} item={item} onEdit={() => handleOpenModal(item)} onDelete={(id) => handleDelete(id, 'movie')} />)}
-                    </div>
-                );
-            case 'book':
-                return (
-                    <div className={gridClasses}>
-                        {(sortedItems as Book[]).map(item => <BookCard key={item.id} item={item} onEdit={() => handleOpenModal(item)} onDelete={(id) => handleDelete(id, 'book')} />)}
-                    </div>
-                );
-            case 'event':
-                return (
-                    <div className={gridClasses}>
-                        {(sortedItems as Event[]).map(item => <EventCard key={item.id} item={item} onEdit={() => handleOpenModal(item)} onDelete={(id) => handleDelete(id, 'event')} />)}
-                    </div>
-                );
-            default:
-                return null;
-        }
+        return (
+            <div ref={cardGridRef} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 [&>*]:scroll-my-24">
+                {visibleItems.map(renderCard)}
+            </div>
+        );
     };
 
     return (
-        <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
-            <Header currentView={currentView} onNavigate={setCurrentView} />
-            <main className="container mx-auto p-6">
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-3xl font-bold capitalize">{currentView}s</h2>
-                    <button 
-                        onClick={() => handleOpenModal()} 
-                        className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-transform transform hover:scale-105"
-                    >
-                        + Add New {currentView}
-                    </button>
-                </div>
-                {renderContent()}
-            </main>
-            <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={modalTitle}>
-                {modalForm}
-            </Modal>
-        </div>
+        <SettingsContext.Provider value={settings}>
+            <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
+                <Header currentView={currentView} onNavigate={navigate} undoLabel={nextUndo ? describeChange(nextUndo, i18n) : null} redoLabel={nextRedo ? describeChange(nextRedo, i18n) : null} onUndo={handleUndo} onRedo={handleRedo} onOpenBackup={() => setIsBackupOpen(true)} onOpenImport={() => setIsCsvImportOpen(true)} onOpenShare={() => setIsShareOpen(true)} onOpenSettings={() => setIsSettingsOpen(true)} onOpenPalette={() => setIsPaletteOpen(true)} onChangeLocale={changeLocale} />
+                <main className="container mx-auto p-6">
+                    {storageError && <ErrorBanner
+                        message={t(storageError)}
+                        action={storageError === 'storageError.outdated' ? { label: t('storageError.reload'), onClick: () => window.location.reload() } : undefined}
+                        onDismiss={() => setStorageError(null)}
+                    />}
+                    {detailItem ? (
+                        <ActivityDetail item={detailItem} revisions={revisions} onBack={() => setDetailId(null)} onEdit={item => handleOpenModal(item)} onDelete={handleDelete} onPromote={item => handleOpenModal(item, true)} onRevert={handleRevert} />
+                    ) : currentView === 'stats' ? (
+                        <>
+                            <h2 className="text-3xl font-bold mb-6">{t('nav.stats')}</h2>
+                            {isLoading ? <LoadingSpinner /> : <StatsDashboard activities={activities} />}
+                        </>
+                    ) : currentView === 'collections' ? (
+                        isLoading ? <LoadingSpinner /> : openCollection ? (
+                            <CollectionPage
+                                collection={openCollection}
+                                activities={activities}
+                                onChange={collection => { handleSaveCollection(collection); }}
+                                onOpenItem={item => setDetailId(item.id)}
+                                onEdit={() => setCollectionToEdit(openCollection)}
+                                onDelete={() => handleDeleteCollection(openCollection)}
+                                onBack={() => setOpenCollectionId(null)}
+                            />
+                        ) : (
+                            <>
+                                <div className="flex justify-between items-center mb-6">
+                                    <h2 className="text-3xl font-bold">{t('nav.collections')}</h2>
+                                    <button
+                                        onClick={() => setCollectionToEdit(createCollection(''))}
+                                        className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-transform transform hover:scale-105"
+                                    >
+                                        + {t('collections.new')}
+                                    </button>
+                                </div>
+                                <CollectionList collections={collections} activities={activities} onOpen={setOpenCollectionId} />
+                            </>
+                        )
+                    ) : currentView === 'calendar' ? (
+                        <>
+                            <h2 className="text-3xl font-bold mb-6">{t('nav.calendar')}</h2>
+                            {isLoading ? <LoadingSpinner /> : <CalendarView entries={entries} month={calendarMonth} onMonthChange={setCalendarMonth} onSelectDay={setSelectedDay} />}
+                        </>
+                    ) : currentView === 'timeline' ? (
+                        <>
+                            <h2 className="text-3xl font-bold mb-6">{t('nav.timeline')}</h2>
+                            {isLoading ? <LoadingSpinner /> : <TimelineView entries={entries} year={timelineYear} onYearChange={setTimelineYear} onOpen={item => setDetailId(item.id)} />}
+                        </>
+                    ) : currentView === 'trash' ? (
+                        <>
+                            <h2 className="text-3xl font-bold mb-6">{t('nav.trash')}</h2>
+                            {isLoading ? <LoadingSpinner /> : <TrashView entries={trash} onRestore={handleRestore} onPurge={handlePurge} onEmpty={handleEmptyTrash} />}
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex justify-between items-center mb-6">
+                                <div className="flex items-center space-x-4">
+                                    <h2 className="text-3xl font-bold">{isSearching ? t('library.searchResults', { count: visibleItems.length }) : typeText?.label}</h2>
+                                    {!isSearching && (
+                                        <div className="flex bg-gray-800 rounded-lg p-1 text-sm">
+                                            {(['log', 'backlog'] as Shelf[]).map(option => (
+                                                <button
+                                                    key={option}
+                                                    onClick={() => setShelf(option)}
+                                                    className={`px-3 py-1 rounded-md transition-colors ${shelf === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                                                >
+                                                    {t(`shelf.${option}`)}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                <button 
+                                    onClick={() => handleOpenModal()} 
+                                    className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-transform transform hover:scale-105"
+                                >
+                                    + {t('library.addNew', { type: typeText!.singular })}
+                                </button>
+                            </div>
+                            <QueryBar query={query} onChange={setQuery} knownTags={knownTags} searchRef={searchInputRef} />
+                            {currentView === 'event' && !isSearching && upcoming.length > 0 && (
+                                <UpcomingEvents events={upcoming} onEdit={item => handleOpenModal(item)} />
+                            )}
+                            {currentView === 'book' && !isSearching && isbnIssues > 0 && (
+                                <div className="flex justify-between items-center bg-yellow-900 bg-opacity-40 border border-yellow-700 text-yellow-100 rounded-lg px-4 py-3 mb-6 text-sm">
+                                    <p>{t('library.isbnIssues', { count: isbnIssues })}</p>
+                                    <button onClick={() => setIsIsbnCleanupOpen(true)} className="text-yellow-200 hover:text-white font-semibold">{t('library.review')}</button>
+                                </div>
+                            )}
+                            {!isSearching && !isLoading && duplicateGroups.length > 0 && (
+                                <div className="flex justify-between items-center bg-yellow-900 bg-opacity-40 border border-yellow-700 text-yellow-100 rounded-lg px-4 py-3 mb-6 text-sm">
+                                    <p>{t('library.duplicates', { count: duplicateGroups.length, types: typeText?.label.toLowerCase() ?? '' })}</p>
+                                    <button onClick={() => setIsDuplicatesOpen(true)} className="text-yellow-200 hover:text-white font-semibold">{t('library.review')}</button>
+                                </div>
+                            )}
+                            {renderContent()}
+                        </>
+                    )}
+                </main>
+                <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={modalTitle}>
+                    {modalForm}
+                </Modal>
+                <Modal isOpen={selectedDay !== null} onClose={() => setSelectedDay(null)} title={selectedDay ? i18n.formatDate(selectedDay, { dateStyle: 'full' }) : ''}>
+                    {selectedDay && (
+                        <DayPanel
+                            key={selectedDay}
+                            day={selectedDay}
+                            entries={selectedDayEntries}
+                            onEdit={item => { setSelectedDay(null); handleOpenModal(item); }}
+                            onAdd={handleSave}
+                            onClose={() => setSelectedDay(null)}
+                            knownTags={knownTags}
+                            library={activities}
+                        />
+                    )}
+                </Modal>
+                <Modal isOpen={collectionToEdit !== null} onClose={() => setCollectionToEdit(null)} title={collectionToEdit && collections.some(c => c.id === collectionToEdit.id) ? t('collections.edit') : t('collections.new')}>
+                    {collectionToEdit && <CollectionForm key={collectionToEdit.id} collection={collectionToEdit} onSave={handleSaveCollection} onClose={() => setCollectionToEdit(null)} />}
+                </Modal>
+                <Modal isOpen={isBackupOpen} onClose={() => setIsBackupOpen(false)} title={t('command.backup')}>
+                    <BackupPanel activities={activities} collections={collections} onReplace={handleReplaceImport} onMerge={handleMergeImport} onClose={() => setIsBackupOpen(false)} />
+                </Modal>
+                <Modal isOpen={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} title={t('duplicates.title')} wide>
+                    <DuplicatePanel
+                        groups={duplicateGroups}
+                        onMerge={handleMerge}
+                        onSkip={group => setSkippedDuplicates(prev => [...prev, duplicateGroupKey(group)])}
+                        onClose={() => setIsDuplicatesOpen(false)}
+                    />
+                </Modal>
+                <Modal isOpen={isIsbnCleanupOpen} onClose={() => setIsIsbnCleanupOpen(false)} title={t('isbn.title')}>
+                    <IsbnCleanupPanel audit={isbnAudit} onNormalize={handleNormalizeIsbns} onEdit={book => { setIsIsbnCleanupOpen(false); handleOpenModal(book); }} onClose={() => setIsIsbnCleanupOpen(false)} />
+                </Modal>
+                <Modal isOpen={isCsvImportOpen} onClose={() => setIsCsvImportOpen(false)} title={t('command.importCsv')}>
+                    <CsvImportWizard onImport={handleCsvImport} onClose={() => setIsCsvImportOpen(false)} />
+                </Modal>
+                <Modal isOpen={isShareOpen} onClose={() => setIsShareOpen(false)} title={t('share.title')}>
+                    <SharePanel activities={activities} profile={settings.profile} onProfileChange={profile => setSettings(prev => ({ ...prev, profile }))} onExport={() => downloadStaticSite(activities, settings)} onClose={() => setIsShareOpen(false)} />
+                </Modal>
+                <Modal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} title={t('header.settings')}>
+                    <SettingsPanel settings={settings} onChange={setSettings} onClose={() => setIsSettingsOpen(false)} />
+                </Modal>
+                <Modal isOpen={isShortcutHelpOpen} onClose={() => setIsShortcutHelpOpen(false)} title={t('command.shortcuts')}>
+                    <ShortcutList />
+                </Modal>
+                <CommandPalette
+                    isOpen={isPaletteOpen}
+                    commands={isPaletteOpen ? paletteCommands() : []}
+                    onSearch={text => { setQuery(prev => ({ ...prev, text })); focusSearch(); }}
+                    onClose={() => setIsPaletteOpen(false)}
+                />
+                {toast && (
+                    <Toast
+                        toast={toast}
+                        onAction={() => { setToast(null); if (toast.action === 'undo') handleUndo(); else handleRedo(); }}
+                        onDismiss={() => setToast(null)}
+                    />
+                )}
+            </div>
+        </SettingsContext.Provider>
     );
 };
 
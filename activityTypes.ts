@@ -0,0 +1,273 @@
+import { OPEN_LIBRARY_COVER_BASE_URL, TMDB_IMAGE_BASE_URL, TMDB_THUMBNAIL_BASE_URL } from './constants';
+import { isEventCategory, isLocalDateTime } from './events';
+import { isbnError, cleanIsbn, normalizeIsbn } from './isbn';
+import { openLibraryService, tmdbService } from './services';
+import { isDateString, isNumber, isRating, isRecord, isString } from './validation';
+import type { MessageKey, Translator } from './i18n';
+import type { Activity, ActivityOf, ActivityStatus, ActivityType, BaseActivity, LookupProvider, MergeMatchField, SeriesSeason } from './types';
+
+// --- Definitions ---
+
+type TypeFields<T extends Activity> = Omit<T, keyof BaseActivity | 'type'>;
+
+export interface ActivityField<T extends Activity> {
+    name: keyof TypeFields<T> & string;
+    check: (value: unknown) => boolean;
+    expected: string; // completes "… must be <expected>." in validation messages
+    /** Fields with an input are edited as free text in the form; the rest are filled in by the lookup provider. */
+    input?: {
+        label: string;
+        required?: boolean;
+        validate?: (value: string) => MessageKey | null; // error message shown under the input
+        normalize?: (value: string) => string; // applied on save
+    };
+    label?: string; // for fields edited by the form extras, which have no input of their own
+}
+
+/**
+ * Everything the app needs to know about one activity type, apart from its card and form extras
+ * (see `activityViews` in components.tsx). Records are stored in the shared `activities` store and
+ * found through its `type` index, so the registry key doubles as the storage key. Labels are the
+ * English text; the UI reads them, translated, through `Translator.type` (see i18n.ts).
+ */
+export interface ActivityTypeDefinition<K extends ActivityType> {
+    label: string; // plural, for navigation and headings
+    singular: string;
+    color: string; // Tailwind background class used in charts
+    statusLabels: Record<ActivityStatus, string>;
+    dateLabels: Record<ActivityStatus, string>;
+    sessionVerb: string; // e.g. "Watched" in "Watched 3 times"
+    repeatLabel: string; // button that starts another session
+    ratingLabel?: string;
+    /** Type-specific fields with their defaults for a new entry. */
+    createFields: () => TypeFields<ActivityOf<K>>;
+    fields: ActivityField<ActivityOf<K>>[];
+    /** Short summary line, e.g. the release year or author. */
+    describe: (item: ActivityOf<K>, i18n: Translator) => string;
+    /** Small poster or cover for calendar cells and the timeline. */
+    thumbnail?: (item: ActivityOf<K>) => string | null;
+    /** Full-size poster or cover for the detail page. */
+    cover?: (item: ActivityOf<K>) => string | null;
+    /** Text matched by library search besides the title and reviews. */
+    searchText?: (item: ActivityOf<K>) => string[];
+    releaseYear?: (item: ActivityOf<K>) => number | null;
+    /** External identity used to match records when merging backups. */
+    identity?: (item: ActivityOf<K>) => { field: MergeMatchField; value: string | number } | null;
+    /** What tells two works with the same title apart, e.g. the year or author; compared loosely by the duplicate finder. */
+    matchDetail?: (item: ActivityOf<K>) => string;
+    lookup?: LookupProvider<ActivityOf<K>>;
+}
+
+const isNullableString = (value: unknown) => value === null || isString(value);
+
+const isOptionalString = (value: unknown) => value === undefined || isString(value);
+
+const isOptionalDateTime = (value: unknown) => value === undefined || value === '' || (isString(value) && isLocalDateTime(value));
+
+const isSeason = (value: unknown): boolean =>
+    isRecord(value) && isNumber(value.seasonNumber) && isNumber(value.episodeCount) && isRating(value.rating)
+    && Array.isArray(value.watchedEpisodes) && value.watchedEpisodes.every(isNumber);
+
+const posterUrl = (posterPath: string | null, baseUrl = TMDB_IMAGE_BASE_URL) => posterPath ? `${baseUrl}${posterPath}` : null;
+
+const yearOf = (value: string) => value ? Number(value) : null;
+
+const yearError = (value: string): MessageKey | null => !value.trim() || /^\d{4}$/.test(value.trim()) ? null : 'validation.year';
+
+export const bookCoverUrl = (coverId: number, size: 'S' | 'M' | 'L' = 'M') => `${OPEN_LIBRARY_COVER_BASE_URL}/${coverId}-${size}.jpg`;
+
+/** The searched ISBN when the result lists it, otherwise the result's first valid one. */
+const pickIsbn = (isbns: string[] = [], query: string): string => {
+    const valid = isbns.map(normalizeIsbn).filter((isbn): isbn is string => isbn !== null);
+    const searched = normalizeIsbn(query);
+    return valid.find(isbn => isbn === searched) ?? valid[0] ?? '';
+};
+
+/** Keeps watched episodes and ratings from `current` while taking season structure from TMDB. */
+const mergeSeasons = (current: SeriesSeason[], fetched: SeriesSeason[]): SeriesSeason[] =>
+    fetched.map(season => {
+        const existing = current.find(s => s.seasonNumber === season.seasonNumber);
+        return existing
+            ? { ...season, rating: existing.rating, watchedEpisodes: existing.watchedEpisodes.filter(ep => ep <= season.episodeCount) }
+            : season;
+    });
+
+const movieType: ActivityTypeDefinition<'movie'> = {
+    label: 'Movies',
+    singular: 'Movie',
+    color: 'bg-blue-500',
+    statusLabels: { planned: 'Want to Watch', inProgress: 'Watching', completed: 'Watched', abandoned: 'Abandoned' },
+    dateLabels: { planned: 'Date Added', inProgress: 'Date Started', completed: 'Date Watched', abandoned: 'Date Stopped' },
+    sessionVerb: 'Watched',
+    repeatLabel: 'Log a rewatch',
+    createFields: () => ({ releaseYear: '', posterPath: null, tmdbId: 0 }),
+    fields: [
+        // Filled in by the TMDB lookup; editable for manual entry when offline or not on TMDB.
+        { name: 'releaseYear', check: isString, expected: 'a string', input: { label: 'Release Year', validate: yearError, normalize: value => value.trim() } },
+        { name: 'posterPath', check: isNullableString, expected: 'a string or null' },
+        { name: 'tmdbId', check: isNumber, expected: 'a number' },
+        { name: 'details', check: value => value === undefined || (isRecord(value) && isDateString(value.fetchedAt)), expected: 'a TMDB details object' },
+    ],
+    describe: (movie, i18n) => movie.releaseYear || i18n.t('common.unknownYear'),
+    thumbnail: movie => posterUrl(movie.posterPath, TMDB_THUMBNAIL_BASE_URL),
+    cover: movie => posterUrl(movie.posterPath),
+    releaseYear: movie => yearOf(movie.releaseYear),
+    identity: movie => movie.tmdbId ? { field: 'tmdbId', value: movie.tmdbId } : null,
+    matchDetail: movie => movie.releaseYear,
+    lookup: {
+        source: 'TMDB',
+        placeholder: 'Search for a movie title...',
+        search: async (query, signal) => (await tmdbService.searchMovies(query, { signal })).map(movie => ({
+            id: String(movie.id),
+            title: movie.title,
+            subtitle: movie.release_date?.substring(0, 4) ?? '',
+            imageUrl: posterUrl(movie.poster_path),
+            fields: { title: movie.title, tmdbId: movie.id, posterPath: movie.poster_path, releaseYear: movie.release_date?.substring(0, 4) || '', details: undefined },
+            enrich: async () => {
+                const details = await tmdbService.getMovieDetails(movie.id);
+                return details && (current => ({ ...current, details }));
+            },
+        })),
+    },
+};
+
+const seriesType: ActivityTypeDefinition<'series'> = {
+    label: 'Series',
+    singular: 'Series',
+    color: 'bg-orange-500',
+    statusLabels: { planned: 'Want to Watch', inProgress: 'Watching', completed: 'Finished', abandoned: 'Dropped' },
+    dateLabels: { planned: 'Date Added', inProgress: 'Date Started', completed: 'Date Finished', abandoned: 'Date Dropped' },
+    sessionVerb: 'Watched',
+    repeatLabel: 'Log a rewatch',
+    ratingLabel: 'Overall Rating',
+    createFields: () => ({ firstAirYear: '', posterPath: null, tmdbId: 0, seasons: [] }),
+    fields: [
+        { name: 'firstAirYear', check: isString, expected: 'a string', input: { label: 'First Air Year', validate: yearError, normalize: value => value.trim() } },
+        { name: 'posterPath', check: isNullableString, expected: 'a string or null' },
+        { name: 'tmdbId', check: isNumber, expected: 'a number' },
+        { name: 'seasons', check: value => Array.isArray(value) && value.every(isSeason), expected: 'a list of seasons' },
+    ],
+    describe: (series, i18n) => `${series.firstAirYear || i18n.t('common.unknownYear')} · ${i18n.t('series.seasonCount', { count: series.seasons.length })}`,
+    thumbnail: series => posterUrl(series.posterPath, TMDB_THUMBNAIL_BASE_URL),
+    cover: series => posterUrl(series.posterPath),
+    releaseYear: series => yearOf(series.firstAirYear),
+    identity: series => series.tmdbId ? { field: 'tmdbId', value: series.tmdbId } : null,
+    matchDetail: series => series.firstAirYear,
+    lookup: {
+        source: 'TMDB',
+        placeholder: 'Search for a TV series...',
+        search: async (query, signal) => (await tmdbService.searchSeries(query, { signal })).map(series => ({
+            id: String(series.id),
+            title: series.name,
+            subtitle: series.first_air_date?.substring(0, 4) ?? '',
+            imageUrl: posterUrl(series.poster_path),
+            fields: { title: series.name, tmdbId: series.id, posterPath: series.poster_path, firstAirYear: series.first_air_date?.substring(0, 4) || '' },
+            enrich: async () => {
+                const seasons = await tmdbService.getSeriesSeasons(series.id);
+                return seasons.length > 0 ? current => ({ ...current, seasons: mergeSeasons(current.seasons, seasons) }) : null;
+            },
+        })),
+    },
+};
+
+const bookType: ActivityTypeDefinition<'book'> = {
+    label: 'Books',
+    singular: 'Book',
+    color: 'bg-green-500',
+    statusLabels: { planned: 'Want to Read', inProgress: 'Reading', completed: 'Read', abandoned: 'Abandoned' },
+    dateLabels: { planned: 'Date Added', inProgress: 'Date Started', completed: 'Date Read', abandoned: 'Date Stopped' },
+    sessionVerb: 'Read',
+    repeatLabel: 'Log a reread',
+    createFields: () => ({ author: '', isbn: '' }),
+    fields: [
+        { name: 'author', check: isString, expected: 'a string', input: { label: 'Author', required: true } },
+        { name: 'isbn', check: isString, expected: 'a string', input: { label: 'ISBN', validate: isbnError, normalize: cleanIsbn } },
+        { name: 'coverId', check: value => value === undefined || value === null || isNumber(value), expected: 'a number or null' },
+        { name: 'pageCount', check: value => value === undefined || value === null || isNumber(value), expected: 'a number or null' },
+        { name: 'publishYear', check: isOptionalString, expected: 'a string' },
+    ],
+    describe: book => book.author,
+    thumbnail: book => book.coverId ? bookCoverUrl(book.coverId, 'S') : null,
+    cover: book => book.coverId ? bookCoverUrl(book.coverId, 'L') : null,
+    searchText: book => [book.author],
+    releaseYear: book => yearOf(book.publishYear ?? ''),
+    identity: book => book.isbn.trim() ? { field: 'isbn', value: cleanIsbn(book.isbn) } : null,
+    matchDetail: book => book.author,
+    lookup: {
+        source: 'Open Library',
+        placeholder: 'Search by title or ISBN...',
+        search: async (query, signal) => (await openLibraryService.searchBooks(query, { signal })).map(doc => ({
+            id: doc.key,
+            title: doc.title,
+            subtitle: [doc.author_name?.[0], doc.first_publish_year].filter(Boolean).join(', '),
+            imageUrl: doc.cover_i ? bookCoverUrl(doc.cover_i, 'S') : null,
+            fields: {
+                title: doc.title,
+                author: doc.author_name?.join(', ') ?? '',
+                isbn: pickIsbn(doc.isbn, query),
+                coverId: doc.cover_i ?? null,
+                pageCount: doc.number_of_pages_median ?? null,
+                publishYear: doc.first_publish_year ? String(doc.first_publish_year) : '',
+            },
+        })),
+    },
+};
+
+const eventType: ActivityTypeDefinition<'event'> = {
+    label: 'Events',
+    singular: 'Event',
+    color: 'bg-purple-500',
+    statusLabels: { planned: 'Upcoming', inProgress: 'Ongoing', completed: 'Attended', abandoned: 'Missed' },
+    dateLabels: { planned: 'Event Date', inProgress: 'Start Date', completed: 'Date Attended', abandoned: 'Event Date' },
+    sessionVerb: 'Attended',
+    repeatLabel: 'Log another visit',
+    createFields: () => ({ venue: '', category: 'other', startsAt: '', endsAt: '', performers: [], ticketPrice: '', seat: '' }),
+    fields: [
+        { name: 'venue', check: isString, expected: 'a string', input: { label: 'Venue / Location', required: true } },
+        { name: 'ticketPrice', check: isOptionalString, expected: 'a string', input: { label: 'Ticket Price', normalize: value => value.trim() } },
+        { name: 'seat', check: isOptionalString, expected: 'a string', input: { label: 'Seat', normalize: value => value.trim() } },
+        // Edited by the event form extras.
+        { name: 'category', check: value => value === undefined || isEventCategory(value), expected: 'an event category', label: 'Category' },
+        { name: 'startsAt', check: isOptionalDateTime, expected: 'a local date-time (YYYY-MM-DDTHH:mm)', label: 'Starts' },
+        { name: 'endsAt', check: isOptionalDateTime, expected: 'a local date-time (YYYY-MM-DDTHH:mm)', label: 'Ends' },
+        { name: 'performers', check: value => value === undefined || (Array.isArray(value) && value.every(isString)), expected: 'a list of names', label: 'Performers' },
+    ],
+    describe: event => event.venue,
+    searchText: event => [event.venue, ...(event.performers ?? [])],
+    matchDetail: event => event.venue,
+};
+
+// --- Registry ---
+
+export const activityTypes: { [K in ActivityType]: ActivityTypeDefinition<K> } = {
+    movie: movieType,
+    series: seriesType,
+    book: bookType,
+    event: eventType,
+};
+
+export const ACTIVITY_TYPES = Object.keys(activityTypes) as ActivityType[];
+
+export const isActivityType = (value: unknown): value is ActivityType =>
+    typeof value === 'string' && Object.hasOwn(activityTypes, value);
+
+/** Looks up the definition for an item's own type; the cast is safe because `activityTypes` is keyed by type. */
+export const activityTypeFor = (type: ActivityType) => activityTypes[type] as unknown as ActivityTypeDefinition<ActivityType>;
+
+/** A blank entry of `type`, ready to be filled in by a form. */
+export const createActivity = (type: ActivityType, status: ActivityStatus): Activity => ({
+    id: crypto.randomUUID(),
+    type,
+    title: '',
+    status,
+    review: '',
+    rating: 0,
+    date: new Date().toISOString().split('T')[0],
+    sessions: [],
+    tags: [],
+    ...activityTypeFor(type).createFields(),
+} as Activity);
+
+/** E.g. "Watched 3 times"; empty for a single session. */
+export const describeRepeatCount = (item: Activity, i18n: Translator): string =>
+    item.sessions.length > 1 ? i18n.format(i18n.type(item.type).repeatCount, { count: item.sessions.length }) : '';
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { BackupValidationError, applyMerge, createBackup, mergeReplacements, parseBackup, planMerge } from './backup';
+import { BACKUP_FORMAT, BACKUP_SCHEMA_VERSION } from './constants';
+import type { Book, Movie } from './types';
+
+let nextId = 0;
+
+const movie = (title: string, fields: Partial<Movie> = {}): Movie => ({
+    id: `item-${++nextId}`,
+    type: 'movie',
+    title,
+    status: 'completed',
+    review: '',
+    rating: 4,
+    date: '2024-01-01',
+    sessions: [{ id: `session-${nextId}`, date: '2024-01-01', rating: 4, review: '' }],
+    tags: [],
+    releaseYear: '1979',
+    posterPath: null,
+    tmdbId: 0,
+    ...fields,
+});
+
+const book = (title: string, isbn: string): Book => ({
+    id: `item-${++nextId}`,
+    type: 'book',
+    title,
+    status: 'completed',
+    review: '',
+    rating: 0,
+    date: '2024-01-01',
+    sessions: [],
+    tags: [],
+    author: 'Han Kang',
+    isbn,
+});
+
+const backupJson = (fields: Record<string, unknown>) => JSON.stringify({ format: BACKUP_FORMAT, schemaVersion: BACKUP_SCHEMA_VERSION, exportedAt: '2024-06-01T00:00:00.000Z', activities: [], ...fields });
+
+const issuesOf = (json: string): string[] => {
+    try {
+        parseBackup(json);
+        return [];
+    } catch (error) {
+        return error instanceof BackupValidationError ? error.issues : ['not a BackupValidationError'];
+    }
+};
+
+describe('parseBackup', () => {
+    it('reads back what createBackup writes', () => {
+        const activities = [movie('Alien', { tags: ['sci-fi'] })];
+
+        const backup = parseBackup(JSON.stringify(createBackup(activities, [])));
+
+        expect(backup.activities).toEqual(activities);
+        expect(backup.collections).toEqual([]);
+    });
+
+    it('upgrades a v1 record, filling in status, tags and a session and rounding its rating', () => {
+        const v1 = { id: 'old', type: 'movie', title: 'Alien', review: 'Tense.', rating: 3.7, date: '2019-05-01', releaseYear: '1979', posterPath: null, tmdbId: 348 };
+
+        const [upgraded] = parseBackup(backupJson({ schemaVersion: 1, activities: [v1] })).activities;
+
+        expect(upgraded).toMatchObject({ id: 'old', status: 'completed', tags: [], rating: 3.5 });
+        expect(upgraded.sessions).toEqual([{ id: expect.any(String), date: '2019-05-01', rating: 3.5, review: 'Tense.' }]);
+    });
+
+    it('treats a backup without collections (v3 and older) as having none', () => {
+        expect(parseBackup(backupJson({ schemaVersion: 3, collections: undefined })).collections).toEqual([]);
+    });
+
+    it('refuses other files and newer schema versions', () => {
+        expect(issuesOf('{')).toEqual(['File is not valid JSON.']);
+        expect(issuesOf(JSON.stringify({ format: 'something-else' }))).toEqual(['File is not a CulturaLog backup.']);
+        expect(issuesOf(backupJson({ schemaVersion: BACKUP_SCHEMA_VERSION + 1 }))).toEqual([`Unsupported backup schema version "${BACKUP_SCHEMA_VERSION + 1}".`]);
+    });
+
+    it('lists every invalid field with its record', () => {
+        const issues = issuesOf(backupJson({ activities: [movie('Alien'), { ...movie('Aliens'), rating: 7, id: '' }, { type: 'podcast' }] }));
+
+        expect(issues).toEqual([
+            'activities[1].id must be a non-empty string.',
+            'activities[1].rating must be a number between 0 and 5.',
+            'activities[2].type must be one of "movie", "series", "book", "event".',
+        ]);
+    });
+});
+
+describe('planMerge', () => {
+    it('matches by id, then TMDB id or ISBN, and adds everything else', () => {
+        const alien = movie('Alien', { tmdbId: 348 });
+        const vegetarian = book('The Vegetarian', '9781101906118');
+        const existing = [alien, vegetarian];
+        const sameRecord = { ...alien };
+        const retitled = movie('Alien (1979)', { tmdbId: 348 });
+        const sameIsbn = { ...book('채식주의자', '978-1-101-90611-8'), id: 'elsewhere' };
+        const newMovie = movie('Aliens', { tmdbId: 679 });
+
+        const plan = planMerge(existing, [sameRecord, retitled, sameIsbn, newMovie]);
+
+        expect(plan.unchangedCount).toBe(1);
+        expect(plan.additions).toEqual([newMovie]);
+        expect(plan.conflicts).toEqual([
+            { existing: alien, incoming: retitled, matchedBy: 'tmdbId' },
+            { existing: vegetarian, incoming: sameIsbn, matchedBy: 'isbn' },
+        ]);
+        expect(plan.matchedIds).toEqual({ [alien.id]: alien.id, [retitled.id]: alien.id, [sameIsbn.id]: vegetarian.id });
+    });
+
+    it('ignores key order when deciding a record is unchanged', () => {
+        const alien = movie('Alien');
+        const reordered = Object.fromEntries(Object.entries(alien).reverse()) as unknown as Movie;
+
+        expect(planMerge([alien], [reordered])).toMatchObject({ unchangedCount: 1, conflicts: [] });
+    });
+});
+
+describe('applyMerge', () => {
+    const alien = movie('Alien', { tmdbId: 348, rating: 4 });
+    const rated = movie('Alien', { tmdbId: 348, rating: 5 });
+    const added = movie('Aliens', { tmdbId: 679 });
+    const plan = planMerge([alien], [rated, added]);
+
+    it('keeps the existing record unless the incoming one was chosen', () => {
+        expect(applyMerge([alien], plan, {})).toEqual([alien, added]);
+        expect(applyMerge([alien], plan, { [rated.id]: 'keepExisting' })).toEqual([alien, added]);
+    });
+
+    it('lets a chosen incoming record take over the existing id', () => {
+        const merged = applyMerge([alien], plan, { [rated.id]: 'useIncoming' });
+
+        expect(merged).toEqual([{ ...rated, id: alien.id }, added]);
+        expect(mergeReplacements(plan, { [rated.id]: 'useIncoming' })).toEqual([{ before: alien, after: { ...rated, id: alien.id } }]);
+    });
+});
@@ -0,0 +1,197 @@
+import { ACTIVITY_TYPES, activityTypeFor, isActivityType } from './activityTypes';
+import { BACKUP_FORMAT, BACKUP_SCHEMA_VERSION } from './constants';
+import { ensureSessions } from './sessions';
+import { normalizeRatings } from './ratings';
+import { VISIBILITIES, isVisibility } from './publicProfile';
+import { ensureTags } from './tags';
+import { ACTIVITY_STATUSES, ensureStatus } from './status';
+import { isDateString, isNumber, isRating, isRecord, isString } from './validation';
+import type { Activity, ActivityReplacement, ActivityStatus, Collection, LibraryBackup, MergeConflict, MergeMatchField, MergePlan, ConflictResolution } from './types';
+
+export class BackupValidationError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid backup file:\n${issues.join('\n')}`);
+        this.name = 'BackupValidationError';
+    }
+}
+
+// --- Export ---
+
+export const createBackup = (activities: Activity[], collections: Collection[]): LibraryBackup => ({
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    activities,
+    collections,
+});
+
+export const downloadBackup = (activities: Activity[], collections: Collection[]): void => {
+    const backup = createBackup(activities, collections);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `culturalog-backup-${backup.exportedAt.split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Validation ---
+
+type FieldCheck = [field: string, check: (value: unknown) => boolean, expected: string];
+
+const isSession = (value: unknown): boolean =>
+    isRecord(value) && isString(value.id) && isDateString(value.date) && isRating(value.rating) && isString(value.review);
+
+const baseFieldChecks: FieldCheck[] = [
+    ['id', value => isString(value) && value !== '', 'a non-empty string'],
+    ['title', isString, 'a string'],
+    ['review', isString, 'a string'],
+    ['rating', isRating, 'a number between 0 and 5'],
+    ['date', isDateString, 'a valid date string'],
+    // Older backups predate tags (v3), statuses (v2) and sessions (v1); those are filled in on import.
+    ['tags', value => value === undefined || (Array.isArray(value) && value.every(isString)), 'a list of strings'],
+    ['status', value => value === undefined || ACTIVITY_STATUSES.includes(value as ActivityStatus), `one of ${ACTIVITY_STATUSES.join(', ')}`],
+    ['sessions', value => value === undefined || (Array.isArray(value) && value.every(isSession)), 'a list of sessions'],
+    // Missing in backups before v5; entries without one are public.
+    ['visibility', value => value === undefined || isVisibility(value), `one of ${VISIBILITIES.join(', ')}`],
+];
+
+const validateActivity = (value: unknown, index: number): string[] => {
+    const label = `activities[${index}]`;
+    if (!isRecord(value)) {
+        return [`${label} is not an object.`];
+    }
+    if (!isActivityType(value.type)) {
+        return [`${label}.type must be one of ${ACTIVITY_TYPES.map(t => `"${t}"`).join(', ')}.`];
+    }
+    const typeFieldChecks = activityTypeFor(value.type).fields.map(({ name, check, expected }): FieldCheck => [name, check, expected]);
+    return [...baseFieldChecks, ...typeFieldChecks]
+        .filter(([field, check]) => !check(value[field]))
+        .map(([field, , expected]) => `${label}.${field} must be ${expected}.`);
+};
+
+const collectionFieldChecks: FieldCheck[] = [
+    ['id', value => isString(value) && value !== '', 'a non-empty string'],
+    ['name', isString, 'a string'],
+    ['description', isString, 'a string'],
+    ['itemIds', value => Array.isArray(value) && value.every(isString), 'a list of activity ids'],
+    ['createdAt', isDateString, 'a valid date string'],
+];
+
+const validateCollection = (value: unknown, index: number): string[] => {
+    const label = `collections[${index}]`;
+    if (!isRecord(value)) {
+        return [`${label} is not an object.`];
+    }
+    return collectionFieldChecks
+        .filter(([field, check]) => !check(value[field]))
+        .map(([field, , expected]) => `${label}.${field} must be ${expected}.`);
+};
+
+export const parseBackup = (json: string): LibraryBackup => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new BackupValidationError(['File is not valid JSON.']);
+    }
+
+    if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+        throw new BackupValidationError(['File is not a CulturaLog backup.']);
+    }
+    if (!isNumber(data.schemaVersion) || (data.schemaVersion as number) > BACKUP_SCHEMA_VERSION) {
+        throw new BackupValidationError([`Unsupported backup schema version "${String(data.schemaVersion)}".`]);
+    }
+    if (!Array.isArray(data.activities)) {
+        throw new BackupValidationError(['Backup does not contain an activities list.']);
+    }
+
+    // Collections were added in v4.
+    if (data.collections !== undefined && !Array.isArray(data.collections)) {
+        throw new BackupValidationError(['Backup collections must be a list.']);
+    }
+    const collections = (data.collections ?? []) as unknown[];
+
+    const issues = [
+        ...data.activities.flatMap((activity, index) => validateActivity(activity, index)),
+        ...collections.flatMap((collection, index) => validateCollection(collection, index)),
+    ];
+    if (issues.length > 0) {
+        throw new BackupValidationError(issues);
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion: data.schemaVersion as number,
+        exportedAt: isString(data.exportedAt) ? data.exportedAt as string : '',
+        activities: (data.activities as Activity[]).map(item => normalizeRatings(ensureTags(ensureSessions(ensureStatus(item))))),
+        collections: collections as Collection[],
+    };
+};
+
+// --- Merge ---
+
+const findMatch = (existing: Activity[], incoming: Activity): { match: Activity; matchedBy: MergeMatchField } | null => {
+    const byId = existing.find(item => item.id === incoming.id);
+    if (byId) return { match: byId, matchedBy: 'id' };
+
+    const { identity } = activityTypeFor(incoming.type);
+    const key = identity?.(incoming);
+    if (!identity || !key) return null;
+    const byIdentity = existing.find(item => {
+        if (item.type !== incoming.type) return false;
+        const other = identity(item);
+        return other?.field === key.field && other.value === key.value;
+    });
+    return byIdentity ? { match: byIdentity, matchedBy: key.field } : null;
+};
+
+/** Copies `value` with object keys sorted at every level, so equal records serialize identically. */
+const canonical = (value: unknown): unknown =>
+    Array.isArray(value) ? value.map(canonical)
+        : isRecord(value) ? Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]))
+        : value;
+
+const isSameRecord = (a: Activity, b: Activity): boolean => {
+    const { id: _aId, ...aFields } = a;
+    const { id: _bId, ...bFields } = b;
+    return JSON.stringify(canonical(aFields)) === JSON.stringify(canonical(bFields));
+};
+
+export const planMerge = (existing: Activity[], incoming: Activity[]): MergePlan => {
+    const plan: MergePlan = { additions: [], conflicts: [], unchangedCount: 0, matchedIds: {} };
+    for (const item of incoming) {
+        const result = findMatch(existing, item);
+        if (!result) {
+            plan.additions.push(item);
+            continue;
+        }
+        plan.matchedIds[item.id] = result.match.id;
+        if (isSameRecord(result.match, item)) {
+            plan.unchangedCount++;
+        } else {
+            plan.conflicts.push({ existing: result.match, incoming: item, matchedBy: result.matchedBy });
+        }
+    }
+    return plan;
+};
+
+/**
+ * The existing records that a merge overwrites. `resolutions` is keyed by the incoming record's id;
+ * conflicts without a resolution keep the existing record. An incoming record that wins a conflict
+ * takes over the existing record's id so that references to it stay valid.
+ */
+export const mergeReplacements = (plan: MergePlan, resolutions: Record<string, ConflictResolution>): ActivityReplacement[] =>
+    plan.conflicts
+        .filter((conflict: MergeConflict) => resolutions[conflict.incoming.id] === 'useIncoming')
+        .map(conflict => ({ before: conflict.existing, after: { ...conflict.incoming, id: conflict.existing.id } as Activity }));
+
+/** Applies a merge plan to `existing`, with the replacements described by `mergeReplacements`. */
+export const applyMerge = (existing: Activity[], plan: MergePlan, resolutions: Record<string, ConflictResolution>): Activity[] => {
+    const replacements = new Map(mergeReplacements(plan, resolutions).map(({ before, after }) => [before.id, after]));
+    return [
+        ...existing.map(item => replacements.get(item.id) ?? item),
+        ...plan.additions,
+    ];
+};
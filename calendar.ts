@@ -0,0 +1,61 @@
+import { isLoggedStatus } from './status';
+import type { Activity, CalendarEntry, TimelineMonth } from './types';
+
+// Pure date helpers for the Calendar and Timeline views. Days are `YYYY-MM-DD` strings and months
+// `YYYY-MM`, the same form `date` fields are stored in, so no time zone conversion is involved.
+
+/** One entry per session of every logged activity, newest first. Backlog items have no sessions yet. */
+export const calendarEntries = (activities: Activity[]): CalendarEntry[] =>
+    activities
+        .filter(item => isLoggedStatus(item.status))
+        .flatMap(activity => activity.sessions.map(session => ({ activity, session, day: session.date.substring(0, 10) })))
+        .sort((a, b) => b.day.localeCompare(a.day) || a.activity.title.localeCompare(b.activity.title));
+
+export const entriesByDay = (entries: CalendarEntry[]): Map<string, CalendarEntry[]> => {
+    const days = new Map<string, CalendarEntry[]>();
+    entries.forEach(entry => days.set(entry.day, [...(days.get(entry.day) ?? []), entry]));
+    return days;
+};
+
+/** Today's `YYYY-MM-DD` in the local time zone; `toISOString` would give the UTC date, a day off near midnight. */
+export const localToday = (now = new Date()): string =>
+    `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+export const isMonthString = (value: string | null): value is string => !!value && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+export const shiftMonth = (month: string, delta: number): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const index = year * 12 + (monthNumber - 1) + delta;
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+/** The weeks of `month`, Sunday first, with `null` for the days before the 1st and after the last day. */
+export const monthGrid = (month: string): (string | null)[][] => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const firstWeekday = new Date(Date.UTC(year, monthNumber - 1, 1)).getUTCDay();
+    const dayCount = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    const cells: (string | null)[] = [
+        ...Array<null>(firstWeekday).fill(null),
+        ...Array.from({ length: dayCount }, (_, i) => `${month}-${String(i + 1).padStart(2, '0')}`),
+    ];
+    while (cells.length % 7 !== 0) cells.push(null);
+    return Array.from({ length: cells.length / 7 }, (_, week) => cells.slice(week * 7, week * 7 + 7));
+};
+
+/** Years that have at least one entry, newest first. */
+export const entryYears = (entries: CalendarEntry[]): number[] =>
+    [...new Set(entries.map(entry => Number(entry.day.substring(0, 4))))].filter(Number.isFinite).sort((a, b) => b - a);
+
+/** The entries of `year` grouped by month, newest month first; months without entries are skipped. */
+export const timelineForYear = (entries: CalendarEntry[], year: number): TimelineMonth[] => {
+    const months = new Map<string, CalendarEntry[]>();
+    entries
+        .filter(entry => entry.day.startsWith(`${year}-`))
+        .forEach(entry => {
+            const month = entry.day.substring(0, 7);
+            months.set(month, [...(months.get(month) ?? []), entry]);
+        });
+    return [...months.entries()]
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([month, monthEntries]) => ({ month, entries: monthEntries }));
+};
@@ -0,0 +1,48 @@
+import type { Activity, Collection } from './types';
+
+export const createCollection = (name: string, description = ''): Collection => ({
+    id: crypto.randomUUID(),
+    name,
+    description,
+    itemIds: [],
+    createdAt: new Date().toISOString(),
+});
+
+/** The collection's activities in order, skipping any that have since been deleted. */
+export const collectionItems = (collection: Collection, activities: Activity[]): Activity[] => {
+    const byId = new Map(activities.map(item => [item.id, item]));
+    return collection.itemIds.map(id => byId.get(id)).filter((item): item is Activity => item !== undefined);
+};
+
+export const addToCollection = (collection: Collection, id: string): Collection =>
+    collection.itemIds.includes(id) ? collection : { ...collection, itemIds: [...collection.itemIds, id] };
+
+export const removeFromCollection = (collection: Collection, id: string): Collection =>
+    ({ ...collection, itemIds: collection.itemIds.filter(itemId => itemId !== id) });
+
+/** Moves `id` by `delta` places, clamped to the ends of the list. */
+export const moveInCollection = (collection: Collection, id: string, delta: number): Collection => {
+    const from = collection.itemIds.indexOf(id);
+    if (from === -1) return collection;
+    const to = Math.min(Math.max(from + delta, 0), collection.itemIds.length - 1);
+    const itemIds = [...collection.itemIds];
+    itemIds.splice(to, 0, ...itemIds.splice(from, 1));
+    return { ...collection, itemIds };
+};
+
+/**
+ * Adds backup collections to `existing`. Collections that already exist are kept as they are;
+ * new ones have their item ids mapped onto the records they were merged into (see `MergePlan`).
+ */
+export const mergeCollections = (existing: Collection[], incoming: Collection[], matchedIds: Record<string, string>): Collection[] => [
+    ...existing,
+    ...incoming
+        .filter(collection => !existing.some(c => c.id === collection.id))
+        .map(collection => ({ ...collection, itemIds: [...new Set(collection.itemIds.map(id => matchedIds[id] ?? id))] })),
+];
+
+/** Points collections at `keptId` instead of the merged-away `ids`. Returns only the collections that changed. */
+export const redirectCollectionItems = (collections: Collection[], ids: string[], keptId: string): Collection[] =>
+    collections
+        .filter(collection => collection.itemIds.some(id => ids.includes(id)))
+        .map(collection => ({ ...collection, itemIds: [...new Set(collection.itemIds.map(id => ids.includes(id) ? keptId : id))] }));
@@ -1,10 +1,41 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import type { Movie, Book, Event, ActivityType, TmdbMovieSearchResult } from './types';
-import { tmdbService } from './services';
-import { TMDB_IMAGE_BASE_URL } from './constants';
+import React, { useState, useEffect, useCallback, useContext, useId, useMemo, useRef } from 'react';
+import type { Activity, ActivityOf, Collection, ActivitySession, BaseActivity, Movie, MovieDetails, Series, SeriesSeason, Book, Event, ActivityStatus, ActivityType, LookupOption, LookupProvider, IsbnAudit, LibraryBackup, ImportMode, ConflictResolution, MergePlan, CsvImportSource, ImportCandidate, LibraryQuery, SortField, SortDirection, AppView, CalendarEntry, EventCategory, MarkdownBlock, MarkdownInline, MonthlyActivityCount, AppSettings, RatingScale, ToastMessage, TrashedActivity, Revision, TmdbErrorReason, TmdbSettings, PublicProfile, Visibility, PaletteCommand, DuplicateGroup, Locale } from './types';
+import { activityTypes, activityTypeFor, ACTIVITY_TYPES, bookCoverUrl, createActivity, describeRepeatCount, isActivityType } from './activityTypes';
+import { LOCALES, LOCALE_NAMES, LOCALE_TAGS, translatorFor, type MessageKey, type Translator } from './i18n';
+import { isbnError, isbnIssueCount } from './isbn';
+import { addToCollection, collectionItems, moveInCollection, removeFromCollection, mergeCollections } from './collections';
+import { BackupValidationError, parseBackup, planMerge, downloadBackup } from './backup';
+import { CsvImportError, parseCsvImport, matchMovieCandidates, applyTmdbMatch, type ParsedCsvImport } from './csvImport';
+import { DEFAULT_QUERY, isQueryActive } from './libraryQuery';
+import { availableYears, filterByYear, activitiesPerMonth, ratingDistribution, averageRatingByType, topAuthors, topVenues, releaseDecades, sessionEntries } from './stats';
+import { latestSession, withSessions } from './sessions';
+import { markdownToPlainText, parseMarkdown, prefixLines, reviewExcerpt, wrapInSpoiler, wrapSelection, type TextEdit } from './markdown';
+import { addTag, hasTag, removeTag, suggestTags } from './tags';
+import { EVENT_CATEGORIES, describeSchedule, downloadIcs } from './events';
+import { entriesByDay, entryYears, localToday, monthGrid, shiftMonth, timelineForYear } from './calendar';
+import { RATING_SCALES, describeRating, formatRating, fromDisplayRating, ratingSteps, storedRatingStep, toDisplayRating } from './ratings';
+import { DEFAULT_SETTINGS } from './settings';
+import { diffActivities, diffText } from './revisions';
+import { VISIBILITIES, publishedActivities, visibilityOf } from './publicProfile';
+import { describeMergeValue, duplicateGroupKey, findLikelyDuplicates, mergeDuplicates, mergeFieldLabel, mergeFields } from './duplicates';
+import { ACTIVITY_STATUSES, isLoggedStatus, isBacklogItem } from './status';
+import { KEYBOARD_SHORTCUTS, matchCommands } from './keyboard';
+import { OfflineError, TmdbError, isAbortError, tmdbService } from './services';
+import { TMDB_API_KEY, TMDB_IMAGE_BASE_URL, TMDB_LANGUAGE, TMDB_REGION } from './constants';
 
 // --- Custom Hook ---
+export const SettingsContext = React.createContext<AppSettings>(DEFAULT_SETTINGS);
+
+export const useSettings = (): AppSettings => useContext(SettingsContext);
+
+/** The translator for the locale in settings. */
+export const useI18n = (): Translator => translatorFor(useSettings().locale);
+
+/** A message with elements in it: each `{name}` placeholder `t` left unfilled becomes `parts[name]`. */
+const richText = (message: string, parts: Record<string, React.ReactNode>): React.ReactNode[] =>
+    message.split(/\{(\w+)\}/).map((piece, i) => i % 2 === 0 ? piece : <React.Fragment key={i}>{parts[piece]}</React.Fragment>);
+
 export const useDebounce = <T,>(value: T, delay: number): T => {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
   useEffect(() => {
@@ -18,6 +49,20 @@ export const useDebounce = <T,>(value: T, delay: number): T => {
   return debouncedValue;
 };
 
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return isOnline;
+};
+
 
 // --- UI Components ---
 
@@ -27,349 +72,2954 @@ export const LoadingSpinner: React.FC = () => (
     </div>
 );
 
+interface ErrorBannerProps {
+    message: string;
+    action?: { label: string; onClick: () => void };
+    onDismiss: () => void;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, action, onDismiss }) => {
+    const { t } = useI18n();
+    return (
+        <div role="alert" className="flex justify-between items-start bg-red-900 bg-opacity-60 border border-red-700 text-red-100 rounded-lg px-4 py-3 mb-6">
+            <p className="text-sm">{message}</p>
+            {action && <button onClick={action.onClick} className="ml-auto pl-4 text-sm font-semibold text-red-100 hover:text-white whitespace-nowrap">{action.label}</button>}
+            <button onClick={onDismiss} aria-label={t('common.dismiss')} className="ml-4 text-red-200 hover:text-white text-xl leading-none">&times;</button>
+        </div>
+    );
+};
+
+export const TOAST_DURATION_MS = 6000;
+
+interface ToastProps {
+    toast: ToastMessage;
+    onAction: () => void;
+    onDismiss: () => void;
+}
+
+export const Toast: React.FC<ToastProps> = ({ toast, onAction, onDismiss }) => {
+    const { t } = useI18n();
+    useEffect(() => {
+        const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [toast.id]);
+
+    return (
+        <div role="status" aria-live="polite" className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-4 bg-gray-700 text-gray-100 rounded-lg shadow-xl px-4 py-3 text-sm">
+            <span>{toast.message}</span>
+            {toast.action && (
+                <button onClick={onAction} className="font-semibold text-blue-300 hover:text-blue-200">
+                    {toast.action === 'undo' ? t('common.undo') : t('common.redo')}
+                </button>
+            )}
+            <button onClick={onDismiss} aria-label={t('common.dismiss')} className="text-gray-400 hover:text-white text-lg leading-none">&times;</button>
+        </div>
+    );
+};
+
 interface HeaderProps {
-    currentView: ActivityType;
-    onNavigate: (view: ActivityType) => void;
+    currentView: AppView;
+    onNavigate: (view: AppView) => void;
+    undoLabel: string | null; // description of the change undo would revert, null when there is none
+    redoLabel: string | null;
+    onUndo: () => void;
+    onRedo: () => void;
+    onOpenBackup: () => void;
+    onOpenImport: () => void;
+    onOpenShare: () => void;
+    onOpenSettings: () => void;
+    onOpenPalette: () => void;
+    onChangeLocale: (locale: Locale) => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ currentView, onNavigate }) => {
-    const navItems: { key: ActivityType; label: string }[] = [
-        { key: 'movie', label: 'Movies' },
-        { key: 'book', label: 'Books' },
-        { key: 'event', label: 'Events' },
-    ];
+/** The header's views, also offered as "Go to" commands in the palette. */
+export const NAV_VIEWS: AppView[] = [...ACTIVITY_TYPES, 'collections', 'calendar', 'timeline', 'stats', 'trash'];
+
+export const viewLabel = (view: AppView, i18n: Translator): string => isActivityType(view) ? i18n.type(view).label : i18n.t(`nav.${view}`);
+
+export const Header: React.FC<HeaderProps> = ({ currentView, onNavigate, undoLabel, redoLabel, onUndo, onRedo, onOpenBackup, onOpenImport, onOpenShare, onOpenSettings, onOpenPalette, onChangeLocale }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
     return (
         <header className="bg-gray-800 shadow-lg sticky top-0 z-20">
             <nav className="container mx-auto px-6 py-4 flex justify-between items-center">
                 <h1 className="text-2xl font-bold text-white tracking-wider">CulturaLog</h1>
                 <ul className="flex space-x-4">
-                    {navItems.map(item => (
-                        <li key={item.key}>
+                    {NAV_VIEWS.map(view => (
+                        <li key={view}>
                             <button
-                                onClick={() => onNavigate(item.key)}
+                                onClick={() => onNavigate(view)}
                                 className={`px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
-                                    currentView === item.key
+                                    currentView === view
                                         ? 'bg-blue-600 text-white'
                                         : 'text-gray-300 hover:bg-gray-700 hover:text-white'
                                 }`}
                             >
-                                {item.label}
+                                {viewLabel(view, i18n)}
                             </button>
                         </li>
                     ))}
+                    <li className="flex">
+                        <button
+                            onClick={onUndo}
+                            disabled={!undoLabel}
+                            title={undoLabel ? t('header.undoTitle', { change: undoLabel }) : t('header.nothingToUndo')}
+                            aria-label={t('common.undo')}
+                            className="px-2 py-2 text-lg leading-none rounded-md text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                        >
+                            ↶
+                        </button>
+                        <button
+                            onClick={onRedo}
+                            disabled={!redoLabel}
+                            title={redoLabel ? t('header.redoTitle', { change: redoLabel }) : t('header.nothingToRedo')}
+                            aria-label={t('common.redo')}
+                            className="px-2 py-2 text-lg leading-none rounded-md text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                        >
+                            ↷
+                        </button>
+                    </li>
+                    <li>
+                        <button
+                            onClick={onOpenImport}
+                            className="px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        >
+                            {t('header.import')}
+                        </button>
+                    </li>
+                    <li>
+                        <button
+                            onClick={onOpenBackup}
+                            className="px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        >
+                            {t('header.backup')}
+                        </button>
+                    </li>
+                    <li>
+                        <button
+                            onClick={onOpenShare}
+                            className="px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        >
+                            {t('header.share')}
+                        </button>
+                    </li>
+                    <li>
+                        <button
+                            onClick={onOpenSettings}
+                            className="px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        >
+                            {t('header.settings')}
+                        </button>
+                    </li>
+                    <li>
+                        <button
+                            onClick={onOpenPalette}
+                            title={t('header.paletteTitle')}
+                            aria-keyshortcuts="Control+K Meta+K"
+                            className="px-3 py-2 text-sm font-medium rounded-md transition-colors duration-200 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        >
+                            {t('header.commands')}
+                        </button>
+                    </li>
+                    <li>
+                        <select
+                            value={i18n.locale}
+                            onChange={e => onChangeLocale(e.target.value as Locale)}
+                            aria-label={t('header.language')}
+                            className="bg-gray-700 border border-gray-600 rounded-md text-sm text-gray-200 px-2 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {LOCALES.map(locale => <option key={locale} value={locale} lang={LOCALE_TAGS[locale]}>{LOCALE_NAMES[locale]}</option>)}
+                        </select>
+                    </li>
                 </ul>
             </nav>
         </header>
     );
 };
 
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Focus handling for an open dialog: moves focus into `container` (unless something there already
+ * took it, e.g. an autoFocus field), keeps Tab cycling inside `dialog`, closes on Escape and hands
+ * focus back to whatever had it before. Returns the dialog's keydown handler.
+ */
+const useDialogFocus = (dialog: React.RefObject<HTMLElement | null>, container: React.RefObject<HTMLElement | null>, isOpen: boolean, onClose: () => void) => {
+    useEffect(() => {
+        if (!isOpen) return;
+        const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        if (dialog.current && !dialog.current.contains(document.activeElement)) {
+            (container.current?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR) ?? dialog.current).focus();
+        }
+        return () => {
+            if (opener?.isConnected) opener.focus();
+        };
+    }, [isOpen]);
+
+    return (e: React.KeyboardEvent) => {
+        // Fields that use Escape themselves (open suggestion lists) stop it before it gets here.
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            onClose();
+            return;
+        }
+        if (e.key !== 'Tab' || !dialog.current) return;
+        const focusable = [...dialog.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)].filter(element => element.offsetParent !== null);
+        if (focusable.length === 0) {
+            e.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (document.activeElement === first || document.activeElement === dialog.current)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+};
+
 interface ModalProps {
     isOpen: boolean;
     onClose: () => void;
     title: string;
+    wide?: boolean; // for side-by-side comparisons
     children: React.ReactNode;
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, wide = false, children }) => {
+    const { t } = useI18n();
+    const titleId = useId();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const bodyRef = useRef<HTMLDivElement>(null);
+    const handleKeyDown = useDialogFocus(dialogRef, bodyRef, isOpen, onClose);
     if (!isOpen) return null;
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-center z-50 transition-opacity" onClick={onClose}>
-            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg mx-4 p-6 relative animate-fade-in" onClick={e => e.stopPropagation()}>
+            {/* tabIndex -1 lets clicks on plain content keep focus inside the dialog. */}
+            <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                className={`bg-gray-800 rounded-lg shadow-xl w-full ${wide ? 'max-w-5xl' : 'max-w-lg'} mx-4 p-6 relative animate-fade-in focus:outline-none`}
+                onClick={e => e.stopPropagation()}
+            >
                 <div className="flex justify-between items-center border-b border-gray-700 pb-3 mb-4">
-                    <h2 className="text-xl font-semibold text-white">{title}</h2>
-                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                    <h2 id={titleId} className="text-xl font-semibold text-white">{title}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-gray-400 hover:text-white text-2xl">&times;</button>
                 </div>
-                {children}
+                <div ref={bodyRef}>{children}</div>
             </div>
         </div>
     );
 };
 
+const STAR_PATH = 'M12 .587l3.668 7.568L24 9.423l-6 5.845L19.335 24 12 19.563 4.665 24 6 15.268l-6-5.845 7.332-1.268z';
+
+/** A star filled from the left by `fill` (0-1), so half and fractional ratings can be drawn. */
+const Star: React.FC<{ fill: number }> = ({ fill }) => (
+    <span className="relative inline-block w-6 h-6">
+        <svg className="absolute inset-0 w-6 h-6" fill="#6B7280" viewBox="0 0 24 24" aria-hidden="true"><path d={STAR_PATH} /></svg>
+        <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+            <svg className="w-6 h-6" fill="#FBBF24" viewBox="0 0 24 24" aria-hidden="true"><path d={STAR_PATH} /></svg>
+        </span>
+    </span>
+);
+
 interface StarRatingProps {
-    rating: number;
+    rating: number; // stored 0-5 value, shown on the user's rating scale
     setRating?: (rating: number) => void;
     readOnly?: boolean;
+    label?: string;
 }
 
-export const StarRating: React.FC<StarRatingProps> = ({ rating, setRating, readOnly = false }) => {
-    const [hover, setHover] = useState(0);
-    const stars = Array.from({ length: 5 }, (_, i) => i + 1);
+export const StarRating: React.FC<StarRatingProps> = ({ rating, setRating, readOnly = false, label }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const scale = RATING_SCALES[ratingScale];
+    const [hover, setHover] = useState<number | null>(null); // display units
+    const value = toDisplayRating(rating, ratingScale);
+    const shown = hover ?? value;
+    const marks = Array.from({ length: scale.max }, (_, i) => i + 1);
 
-    return (
-        <div className="flex items-center">
-            {stars.map((starIndex) => (
-                <svg
-                    key={starIndex}
-                    className={`w-6 h-6 cursor-${readOnly ? 'default' : 'pointer'} transition-colors duration-150`}
-                    fill={starIndex <= (hover || rating) ? '#FBBF24' : '#6B7280'}
-                    viewBox="0 0 24 24"
-                    onClick={() => !readOnly && setRating && setRating(starIndex)}
-                    onMouseEnter={() => !readOnly && setHover(starIndex)}
-                    onMouseLeave={() => !readOnly && setHover(0)}
-                >
-                    <path d="M12 .587l3.668 7.568L24 9.423l-6 5.845L19.335 24 12 19.563 4.665 24 6 15.268l-6-5.845 7.332-1.268z" />
-                </svg>
-            ))}
-        </div>
-    );
-};
+    const marksFor = (filled: number) => scale.unit === 'stars'
+        ? marks.map(mark => <Star key={mark} fill={Math.min(1, Math.max(0, filled - mark + 1))} />)
+        : marks.map(mark => <span key={mark} className={`inline-block w-2.5 h-5 mx-px rounded-sm ${mark <= filled ? 'bg-yellow-400' : 'bg-gray-500'}`} />);
 
+    if (readOnly || !setRating) {
+        return (
+            <div className="flex items-center" role="img" aria-label={describeRating(rating, ratingScale, i18n)}>
+                {scale.unit === 'stars' ? marksFor(value) : <span className="text-yellow-400 font-semibold">{rating > 0 ? formatRating(rating, ratingScale, i18n) : '–'}</span>}
+            </div>
+        );
+    }
 
-// --- Card Components ---
+    const commit = (displayValue: number) => setRating(fromDisplayRating(displayValue, ratingScale));
 
-interface CardProps<T> {
-    item: T;
-    onEdit: (item: T) => void;
-    onDelete: (id: string) => void;
-}
+    // With half stars the left half of a star picks the half step below it.
+    const valueAt = (mark: number, e: React.MouseEvent<HTMLElement>) => {
+        if (scale.step >= 1) return mark;
+        const { left, width } = e.currentTarget.getBoundingClientRect();
+        return e.clientX - left < width / 2 ? mark - scale.step : mark;
+    };
 
-export const MovieCard: React.FC<CardProps<Movie>> = ({ item, onEdit, onDelete }) => (
-    <div className="bg-gray-800 rounded-lg overflow-hidden shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col">
-        <div className="relative h-64">
-            <img 
-                src={item.posterPath ? `${TMDB_IMAGE_BASE_URL}${item.posterPath}` : 'https://picsum.photos/500/750'} 
-                alt={item.title}
-                className="w-full h-full object-cover"
-            />
-            <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">{item.releaseYear}</div>
-        </div>
-        <div className="p-4 flex flex-col flex-grow">
-            <h3 className="text-lg font-bold text-white mb-2">{item.title}</h3>
-            <div className="flex items-center mb-3">
-                <StarRating rating={item.rating} readOnly />
-                <span className="text-sm text-gray-400 ml-2">{new Date(item.date).toLocaleDateString()}</span>
-            </div>
-            <p className="text-gray-300 text-sm mb-4 flex-grow">{item.review.substring(0, 100)}{item.review.length > 100 && '...'}</p>
-            <div className="mt-auto flex justify-end space-x-2">
-                <button onClick={() => onEdit(item)} className="text-sm bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition-colors">Edit</button>
-                <button onClick={() => onDelete(item.id)} className="text-sm bg-red-600 hover:bg-red-500 text-white py-1 px-3 rounded transition-colors">Delete</button>
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // A stored rating can fall between this scale's steps (3.5 on whole stars), so step from
+        // the nearest step in the direction of travel rather than from the raw value.
+        const up = Math.floor(value / scale.step) * scale.step + scale.step;
+        const down = Math.ceil(value / scale.step) * scale.step - scale.step;
+        const next: Record<string, number> = {
+            ArrowRight: up,
+            ArrowUp: up,
+            ArrowLeft: down,
+            ArrowDown: down,
+            Home: 0,
+            End: scale.max,
+            Delete: 0,
+            Backspace: 0,
+        };
+        if (!(e.key in next)) return;
+        e.preventDefault();
+        commit(next[e.key]);
+    };
+
+    return (
+        <div className="flex items-center space-x-3">
+            <div
+                role="slider"
+                tabIndex={0}
+                aria-label={label ?? i18n.t('field.rating')}
+                aria-valuemin={0}
+                aria-valuemax={scale.max}
+                aria-valuenow={value}
+                aria-valuetext={describeRating(rating, ratingScale, i18n)}
+                onKeyDown={handleKeyDown}
+                onMouseLeave={() => setHover(null)}
+                className="flex items-center cursor-pointer rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                {marksFor(shown).map((mark, i) => (
+                    <span
+                        key={i}
+                        className="flex"
+                        onMouseMove={e => setHover(valueAt(i + 1, e))}
+                        onClick={e => commit(valueAt(i + 1, e))}
+                    >
+                        {mark}
+                    </span>
+                ))}
             </div>
+            <span className="text-sm text-gray-400 w-12">{shown > 0 ? formatRating(fromDisplayRating(shown, ratingScale), ratingScale, i18n) : ''}</span>
+            {rating > 0 && (
+                <button type="button" onClick={() => commit(0)} className="text-xs text-gray-400 hover:text-white underline">{i18n.t('rating.clear')}</button>
+            )}
         </div>
-    </div>
-);
+    );
+};
 
-export const BookCard: React.FC<CardProps<Book>> = ({ item, onEdit, onDelete }) => (
-     <div className="bg-gray-800 rounded-lg p-4 shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col h-full">
-        <h3 className="text-lg font-bold text-white">{item.title}</h3>
-        <p className="text-sm text-gray-400 mb-2">{item.author}</p>
-        <div className="flex items-center my-2">
-            <StarRating rating={item.rating} readOnly />
-             <span className="text-sm text-gray-400 ml-auto">{new Date(item.date).toLocaleDateString()}</span>
-        </div>
-        <p className="text-gray-300 text-sm mb-4 flex-grow">{item.review.substring(0, 150)}{item.review.length > 150 && '...'}</p>
-        <p className="text-xs text-gray-500">ISBN: {item.isbn}</p>
-        <div className="mt-auto pt-4 flex justify-end space-x-2">
-            <button onClick={() => onEdit(item)} className="text-sm bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition-colors">Edit</button>
-            <button onClick={() => onDelete(item.id)} className="text-sm bg-red-600 hover:bg-red-500 text-white py-1 px-3 rounded transition-colors">Delete</button>
-        </div>
-    </div>
-);
 
-export const EventCard: React.FC<CardProps<Event>> = ({ item, onEdit, onDelete }) => (
-    <div className="bg-gray-800 rounded-lg p-4 shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col h-full">
-        <h3 className="text-lg font-bold text-white">{item.title}</h3>
-        <p className="text-sm text-gray-400 mb-2">{item.venue}</p>
-        <div className="flex items-center my-2">
-            <StarRating rating={item.rating} readOnly />
-            <span className="text-sm text-gray-400 ml-auto">{new Date(item.date).toLocaleDateString()}</span>
-        </div>
-        <p className="text-gray-300 text-sm mb-4 flex-grow">{item.review.substring(0, 150)}{item.review.length > 150 && '...'}</p>
-        <div className="mt-auto pt-4 flex justify-end space-x-2">
-            <button onClick={() => onEdit(item)} className="text-sm bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition-colors">Edit</button>
-            <button onClick={() => onDelete(item.id)} className="text-sm bg-red-600 hover:bg-red-500 text-white py-1 px-3 rounded transition-colors">Delete</button>
-        </div>
-    </div>
-);
+// --- Command Palette ---
 
-// --- Form Components ---
+/** A list of key combinations, e.g. the ones in `KEYBOARD_SHORTCUTS`. */
+const Keys: React.FC<{ keys: string[] }> = ({ keys }) => {
+    const { t } = useI18n();
+    return (
+        <span className="flex items-center space-x-1">
+            {keys.map((key, i) => (
+                <React.Fragment key={key}>
+                    {i > 0 && <span className="text-xs text-gray-500">{t('shortcut.or')}</span>}
+                    <kbd className="px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs font-mono text-gray-200">{key}</kbd>
+                </React.Fragment>
+            ))}
+        </span>
+    );
+};
 
-const commonInputClasses = "w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
-const commonLabelClasses = "block text-sm font-medium text-gray-300 mb-1";
-const commonFormSectionClasses = "mb-4";
+export const ShortcutList: React.FC = () => {
+    const { t } = useI18n();
+    return (
+        <ul className="space-y-2 text-sm">
+            {KEYBOARD_SHORTCUTS.map(shortcut => (
+                <li key={shortcut.description} className="flex justify-between items-center gap-4">
+                    <span className="text-gray-300">{t(shortcut.description)}</span>
+                    <Keys keys={shortcut.keys} />
+                </li>
+            ))}
+        </ul>
+    );
+};
 
-interface FormProps<T> {
-    onSave: (item: T) => void;
+interface CommandPaletteProps {
+    isOpen: boolean;
+    commands: PaletteCommand[];
+    onSearch: (text: string) => void; // the fallback for text that is not a command
     onClose: () => void;
-    itemToEdit?: T | null;
 }
 
-export const MovieForm: React.FC<FormProps<Movie>> = ({ onSave, onClose, itemToEdit }) => {
-    const [formData, setFormData] = useState<Omit<Movie, 'id' | 'type'>>(() => itemToEdit ? {...itemToEdit} : { title: '', releaseYear: '', posterPath: null, tmdbId: 0, review: '', rating: 0, date: new Date().toISOString().split('T')[0] });
-    const [searchQuery, setSearchQuery] = useState('');
-    const [searchResults, setSearchResults] = useState<TmdbMovieSearchResult[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
-    const debouncedSearchQuery = useDebounce(searchQuery, 500);
+/** Ctrl/Cmd+K: type to filter commands, arrows to pick, Enter to run. */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, commands, onSearch, onClose }) => {
+    const { t } = useI18n();
+    const [text, setText] = useState('');
+    const [highlighted, setHighlighted] = useState(0);
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+    const handleDialogKeyDown = useDialogFocus(dialogRef, dialogRef, isOpen, onClose);
 
     useEffect(() => {
-        const search = async () => {
-            if (debouncedSearchQuery) {
-                setIsLoading(true);
-                const results = await tmdbService.searchMovies(debouncedSearchQuery);
-                setSearchResults(results);
-                setIsLoading(false);
-            } else {
-                setSearchResults([]);
-            }
-        };
-        search();
-    }, [debouncedSearchQuery]);
+        if (!isOpen) return;
+        setText('');
+        setHighlighted(0);
+    }, [isOpen]);
 
-    const handleSelectMovie = (movie: TmdbMovieSearchResult) => {
-        setFormData(prev => ({ ...prev, title: movie.title, tmdbId: movie.id, posterPath: movie.poster_path, releaseYear: movie.release_date?.substring(0, 4) || '' }));
-        setSearchQuery('');
-        setSearchResults([]);
+    const trimmed = text.trim();
+    const matches = matchCommands(commands, trimmed);
+    const searchCommand: PaletteCommand = { id: 'search-text', label: t('palette.searchFor', { text: trimmed }), group: t('palette.groupSearch'), run: () => onSearch(trimmed) };
+    const options = !trimmed ? matches : matches.length > 0 ? [...matches, searchCommand] : [searchCommand];
+    const active = Math.min(highlighted, options.length - 1);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [active]);
+
+    if (!isOpen) return null;
+
+    const run = (command: PaletteCommand) => {
+        onClose();
+        command.run();
     };
-    
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        const finalData: Movie = {
-            ...formData,
-            id: itemToEdit?.id || crypto.randomUUID(),
-            type: 'movie',
-        };
-        onSave(finalData);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && options.length > 0) {
+            e.preventDefault();
+            setHighlighted(e.key === 'ArrowDown' ? (active + 1) % options.length : (active - 1 + options.length) % options.length);
+        } else if (e.key === 'Enter' && options[active]) {
+            e.preventDefault();
+            run(options[active]);
+        }
     };
 
     return (
-        <form onSubmit={handleSubmit} className="space-y-4">
-             <div className="relative">
-                <label htmlFor="movieSearch" className={commonLabelClasses}>Search Movie (TMDB)</label>
-                <input id="movieSearch" type="text" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search for a movie title..." className={commonInputClasses} />
-                 {isLoading && <div className="absolute right-2 top-8"><LoadingSpinner/></div>}
-                {searchResults.length > 0 && (
-                    <ul className="absolute z-10 w-full bg-gray-700 border border-gray-600 rounded-md mt-1 max-h-60 overflow-y-auto">
-                        {searchResults.map(movie => (
-                            <li key={movie.id} onClick={() => handleSelectMovie(movie)} className="p-2 hover:bg-blue-600 cursor-pointer text-white flex items-center space-x-3">
-                                <img src={movie.poster_path ? `${TMDB_IMAGE_BASE_URL}${movie.poster_path}` : 'https://picsum.photos/40/60'} alt="" className="w-10 h-15 object-cover rounded"/>
-                                <span>{movie.title} ({movie.release_date?.substring(0, 4)})</span>
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex justify-center items-start pt-24 z-50" onClick={onClose}>
+            <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('palette.title')}
+                tabIndex={-1}
+                onKeyDown={handleDialogKeyDown}
+                className="bg-gray-800 rounded-lg shadow-xl w-full max-w-xl mx-4 overflow-hidden animate-fade-in focus:outline-none"
+                onClick={e => e.stopPropagation()}
+            >
+                <input
+                    type="text"
+                    role="combobox"
+                    aria-expanded={options.length > 0}
+                    aria-controls="palette-options"
+                    aria-autocomplete="list"
+                    aria-activedescendant={options.length > 0 ? `palette-option-${active}` : undefined}
+                    value={text}
+                    onChange={e => { setText(e.target.value); setHighlighted(0); }}
+                    onKeyDown={handleKeyDown}
+                    placeholder={t('palette.placeholder')}
+                    className="w-full px-4 py-3 bg-gray-800 border-b border-gray-700 text-white text-lg focus:outline-none"
+                />
+                <ul id="palette-options" role="listbox" ref={listRef} className="max-h-80 overflow-y-auto py-2">
+                    {options.map((command, i) => (
+                        <React.Fragment key={command.id}>
+                            {!trimmed && command.group !== options[i - 1]?.group && (
+                                <li role="presentation" className="px-4 pt-2 pb-1 text-xs uppercase tracking-wide text-gray-500">{command.group}</li>
+                            )}
+                            <li
+                                id={`palette-option-${i}`}
+                                data-index={i}
+                                role="option"
+                                aria-selected={i === active}
+                                onMouseMove={() => setHighlighted(i)}
+                                onClick={() => run(command)}
+                                className={`flex justify-between items-center px-4 py-2 cursor-pointer ${i === active ? 'bg-blue-600 text-white' : 'text-gray-200'}`}
+                            >
+                                <span>{command.label}</span>
+                                {command.shortcut && <kbd className="text-xs font-mono text-gray-300">{command.shortcut}</kbd>}
                             </li>
-                        ))}
-                    </ul>
-                )}
-            </div>
-            
-            <div className={commonFormSectionClasses}>
-                <label htmlFor="title" className={commonLabelClasses}>Title</label>
-                <input id="title" type="text" value={formData.title} onChange={e => setFormData({ ...formData, title: e.target.value })} required className={commonInputClasses} />
+                        </React.Fragment>
+                    ))}
+                    {options.length === 0 && <li className="px-4 py-2 text-sm text-gray-500">{t('palette.empty')}</li>}
+                </ul>
             </div>
+        </div>
+    );
+};
 
-            <div className="grid grid-cols-2 gap-4">
-                <div className={commonFormSectionClasses}>
-                    <label htmlFor="date" className={commonLabelClasses}>Date Watched</label>
-                    <input id="date" type="date" value={formData.date} onChange={e => setFormData({ ...formData, date: e.target.value })} required className={commonInputClasses} />
-                </div>
-                 <div className={commonFormSectionClasses}>
-                    <label className={commonLabelClasses}>Rating</label>
-                    <StarRating rating={formData.rating} setRating={rating => setFormData({ ...formData, rating })} />
+
+// --- Search & Filters ---
+
+interface QueryBarProps {
+    query: LibraryQuery;
+    onChange: (query: LibraryQuery) => void;
+    knownTags: string[]; // most used first
+    searchRef?: React.Ref<HTMLInputElement>; // lets the `/` shortcut focus the search box
+}
+
+const sortOptions: { value: string; label: MessageKey }[] = [
+    { value: 'date-desc', label: 'sort.newest' },
+    { value: 'date-asc', label: 'sort.oldest' },
+    { value: 'rating-desc', label: 'sort.highestRated' },
+    { value: 'rating-asc', label: 'sort.lowestRated' },
+    { value: 'title-asc', label: 'sort.titleAsc' },
+    { value: 'title-desc', label: 'sort.titleDesc' },
+    { value: 'releaseYear-desc', label: 'sort.releaseNewest' },
+    { value: 'releaseYear-asc', label: 'sort.releaseOldest' },
+];
+
+export const QueryBar: React.FC<QueryBarProps> = ({ query, onChange, knownTags, searchRef }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    // Keep a bound from a link or another scale selectable even if the current scale can't express it.
+    const ratingOptions = [...new Set([...ratingSteps(ratingScale), query.minRating, query.maxRating])].sort((a, b) => a - b);
+    const update = (changes: Partial<LibraryQuery>) => onChange({ ...query, ...changes });
+
+    const toggleType = (type: ActivityType) => {
+        const types = query.types.includes(type) ? query.types.filter(t => t !== type) : [...query.types, type];
+        // An empty type filter would hide everything; treat it as "all types" instead.
+        update({ types: types.length > 0 ? ACTIVITY_TYPES.filter(t => types.includes(t)) : DEFAULT_QUERY.types });
+    };
+
+    const filterInputClasses = "p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="bg-gray-800 rounded-lg p-4 mb-6 space-y-3">
+            <input
+                ref={searchRef}
+                type="search"
+                value={query.text}
+                onChange={e => update({ text: e.target.value })}
+                placeholder={t('query.placeholder')}
+                aria-label={t('query.search')}
+                className={commonInputClasses}
+            />
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                <div className="flex items-center space-x-2">
+                    {ACTIVITY_TYPES.map(type => (
+                        <label key={type} className="flex items-center space-x-1">
+                            <input type="checkbox" checked={query.types.includes(type)} onChange={() => toggleType(type)} />
+                            <span>{i18n.type(type).label}</span>
+                        </label>
+                    ))}
                 </div>
+                <label className="flex items-center space-x-2">
+                    <span>{t('field.rating')}</span>
+                    <select value={query.minRating} onChange={e => update({ minRating: Number(e.target.value), maxRating: Math.max(query.maxRating, Number(e.target.value)) })} className={filterInputClasses}>
+                        {ratingOptions.map(r => <option key={r} value={r}>{formatRating(r, ratingScale, i18n)}</option>)}
+                    </select>
+                    <span>–</span>
+                    <select value={query.maxRating} onChange={e => update({ maxRating: Number(e.target.value), minRating: Math.min(query.minRating, Number(e.target.value)) })} className={filterInputClasses}>
+                        {ratingOptions.map(r => <option key={r} value={r}>{formatRating(r, ratingScale, i18n)}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>{t('query.from')}</span>
+                    <input type="date" value={query.from} max={query.to || undefined} onChange={e => update({ from: e.target.value })} className={filterInputClasses} />
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>{t('query.to')}</span>
+                    <input type="date" value={query.to} min={query.from || undefined} onChange={e => update({ to: e.target.value })} className={filterInputClasses} />
+                </label>
+                {(knownTags.length > 0 || query.tags.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span>{t('field.tags')}</span>
+                        {query.tags.map(tag => (
+                            <span key={tag} className="flex items-center bg-blue-600 rounded-full pl-3 pr-2 py-0.5 text-white">
+                                #{tag}
+                                <button onClick={() => update({ tags: removeTag(query.tags, tag) })} aria-label={t('query.removeTag', { tag })} className="ml-1 text-blue-200 hover:text-white">&times;</button>
+                            </span>
+                        ))}
+                        {knownTags.some(tag => !hasTag(query.tags, tag)) && (
+                            <select value="" onChange={e => update({ tags: addTag(query.tags, e.target.value) })} aria-label={t('query.filterByTag')} className={filterInputClasses}>
+                                <option value="">{query.tags.length > 0 ? t('query.andTag') : t('query.anyTag')}</option>
+                                {knownTags.filter(tag => !hasTag(query.tags, tag)).map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                            </select>
+                        )}
+                    </div>
+                )}
+                <label className="flex items-center space-x-2">
+                    <span>{t('query.sort')}</span>
+                    <select
+                        value={`${query.sortField}-${query.sortDirection}`}
+                        onChange={e => {
+                            const [sortField, sortDirection] = e.target.value.split('-') as [SortField, SortDirection];
+                            update({ sortField, sortDirection });
+                        }}
+                        className={filterInputClasses}
+                    >
+                        {sortOptions.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+                    </select>
+                </label>
+                {isQueryActive(query) && (
+                    <button onClick={() => onChange({ ...DEFAULT_QUERY, sortField: query.sortField, sortDirection: query.sortDirection })} className="ml-auto text-blue-400 hover:text-blue-300">
+                        {t('query.clearFilters')}
+                    </button>
+                )}
             </div>
+        </div>
+    );
+};
 
-            <div className={commonFormSectionClasses}>
-                <label htmlFor="review" className={commonLabelClasses}>Review</label>
-                <textarea id="review" value={formData.review} onChange={e => setFormData({ ...formData, review: e.target.value })} required rows={4} className={commonInputClasses}></textarea>
-            </div>
 
-            <div className="flex justify-end space-x-3 pt-4">
-                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">Cancel</button>
-                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">Save Movie</button>
-            </div>
-        </form>
+// --- Markdown ---
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+        switch (node.kind) {
+            case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+            case 'strong': return <strong key={i} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+            case 'emphasis': return <em key={i}>{renderInline(node.children)}</em>;
+            case 'strike': return <del key={i}>{renderInline(node.children)}</del>;
+            case 'code': return <code key={i} className="px-1 bg-gray-700 rounded text-sm">{node.text}</code>;
+            case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 hover:text-blue-300 underline">{renderInline(node.children)}</a>;
+            case 'break': return <br key={i} />;
+        }
+    });
+
+const headingClasses = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+// A native <details> element, so spoilers also open on exported pages that run no script.
+const SpoilerBlock: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => {
+    const { t } = useI18n();
+    return (
+        <details className="group border border-gray-600 rounded-md">
+            <summary className="list-none cursor-pointer px-3 py-2 text-sm text-yellow-300 hover:bg-gray-700 rounded-md">
+                <span className="inline-block group-open:rotate-90 transition-transform">▸</span> {title ? t('markdown.spoilerTitled', { title }) : t('markdown.spoiler')} <span className="text-gray-400 group-open:hidden">{t('markdown.reveal')}</span>
+            </summary>
+            <div className="px-3 pb-3 space-y-3">{children}</div>
+        </details>
     );
 };
 
-export const BookForm: React.FC<FormProps<Book>> = ({ onSave, onClose, itemToEdit }) => {
-    const [formData, setFormData] = useState<Omit<Book, 'id' | 'type'>>(() => itemToEdit ? {...itemToEdit} : { title: '', author: '', isbn: '', review: '', rating: 0, date: new Date().toISOString().split('T')[0] });
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+    blocks.map((block, i) => {
+        switch (block.kind) {
+            case 'heading': {
+                const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+                return <Tag key={i} className={`${headingClasses[block.level - 1]} text-white`}>{renderInline(block.children)}</Tag>;
+            }
+            case 'paragraph': return <p key={i}>{renderInline(block.children)}</p>;
+            case 'quote': return <blockquote key={i} className="border-l-4 border-gray-600 pl-3 text-gray-400 space-y-3">{renderBlocks(block.children)}</blockquote>;
+            case 'list': {
+                const items = block.items.map((item, j) => <li key={j} className="space-y-2">{renderBlocks(item)}</li>);
+                return block.ordered
+                    ? <ol key={i} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+                    : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+            }
+            case 'code': return <pre key={i} className="p-3 bg-gray-900 rounded-md text-sm overflow-x-auto"><code>{block.text}</code></pre>;
+            case 'rule': return <hr key={i} className="border-gray-600" />;
+            case 'spoiler': return <SpoilerBlock key={i} title={block.title}>{renderBlocks(block.children)}</SpoilerBlock>;
+        }
+    });
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        const finalData: Book = {
-            ...formData,
-            id: itemToEdit?.id || crypto.randomUUID(),
-            type: 'book',
-        };
-        onSave(finalData);
-    };
+/** Renders review Markdown as React elements; the text is never inserted as HTML. */
+export const MarkdownView: React.FC<{ source: string; className?: string }> = ({ source, className = '' }) => {
+    const blocks = useMemo(() => parseMarkdown(source), [source]);
+    return <div className={`space-y-3 text-gray-300 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+};
+
+
+// --- Card Components ---
+
+export interface CardProps<T> {
+    item: T;
+    onEdit?: (item: T) => void;
+    onDelete?: (id: string) => void;
+    onPromote?: (item: T) => void;
+    onOpen?: (item: T) => void; // shows the detail page
+    href?: string; // links the title to a page instead, for the static site export
+    selected?: boolean; // highlighted by keyboard navigation
+}
 
+const selectedCardClasses = 'ring-2 ring-blue-500 ring-offset-2 ring-offset-gray-900';
+
+/** E.g. "Dir. Bong Joon-ho · 132 min · Comedy, Thriller". */
+const describeMovieDetails = (details: MovieDetails, { t }: Translator): string =>
+    [
+        details.director && t('movie.director', { name: details.director }),
+        details.runtime && t('movie.runtime', { minutes: details.runtime }),
+        details.genres.slice(0, 3).join(', '),
+    ].filter(Boolean).join(' · ');
+
+const StatusBadge: React.FC<{ item: Activity }> = ({ item }) => {
+    const i18n = useI18n();
+    return item.status === 'completed' ? null : (
+        <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded mb-2 ${isBacklogItem(item) ? 'bg-yellow-600 text-yellow-50' : 'bg-gray-600 text-gray-200'}`}>
+            {i18n.type(item.type).statusLabels[item.status]}
+        </span>
+    );
+};
+
+const TagList: React.FC<{ tags: string[] }> = ({ tags }) => {
+    const { t } = useI18n();
+    return tags.length === 0 ? null : (
+        <ul className="flex flex-wrap gap-1 mb-3" aria-label={t('field.tags')}>
+            {tags.map(tag => <li key={tag} className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">#{tag}</li>)}
+        </ul>
+    );
+};
+
+const CardTitle = <T extends Activity>({ item, onOpen, href }: Pick<CardProps<T>, 'item' | 'onOpen' | 'href'>) =>
+    href ? <a href={href} className="hover:underline">{item.title}</a>
+        : onOpen ? <button onClick={() => onOpen(item)} className="text-left hover:underline">{item.title}</button>
+        : <>{item.title}</>;
+
+const CardReview: React.FC<{ review: string; maxLength: number; onReadMore?: () => void; href?: string }> = ({ review, maxLength, onReadMore, href }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const { text, truncated } = reviewExcerpt(review, maxLength, i18n);
     return (
-        <form onSubmit={handleSubmit} className="space-y-4">
-             <div className={commonFormSectionClasses}>
-                <label htmlFor="title" className={commonLabelClasses}>Title</label>
-                <input id="title" type="text" value={formData.title} onChange={e => setFormData({ ...formData, title: e.target.value })} required className={commonInputClasses} />
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-                <div className={commonFormSectionClasses}>
-                    <label htmlFor="author" className={commonLabelClasses}>Author</label>
-                    <input id="author" type="text" value={formData.author} onChange={e => setFormData({ ...formData, author: e.target.value })} required className={commonInputClasses} />
-                </div>
-                <div className={commonFormSectionClasses}>
-                    <label htmlFor="isbn" className={commonLabelClasses}>ISBN</label>
-                    <input id="isbn" type="text" value={formData.isbn} onChange={e => setFormData({ ...formData, isbn: e.target.value })} className={commonInputClasses} />
-                </div>
+        <p className="text-gray-300 text-sm mb-4 flex-grow">
+            {text}
+            {truncated && href && <> <a href={href} className="text-blue-400 hover:text-blue-300">{t('card.readMore')}</a></>}
+            {truncated && !href && onReadMore && <> <button onClick={onReadMore} className="text-blue-400 hover:text-blue-300">{t('card.readMore')}</button></>}
+        </p>
+    );
+};
+
+/** Only the actions with a handler are shown, so exported cards have none. */
+const CardActions = <T extends Activity>({ item, onEdit, onDelete, onPromote }: CardProps<T>) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <>
+            {onPromote && isBacklogItem(item) && (
+                <button onClick={() => onPromote(item)} className="text-sm bg-green-600 hover:bg-green-500 text-white py-1 px-3 rounded transition-colors">{t('card.markAs', { status: i18n.type(item.type).statusLabels.completed })}</button>
+            )}
+            {onEdit && <button onClick={() => onEdit(item)} className="text-sm bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition-colors">{t('card.edit')}</button>}
+            {onDelete && <button onClick={() => onDelete(item.id)} className="text-sm bg-red-600 hover:bg-red-500 text-white py-1 px-3 rounded transition-colors">{t('card.delete')}</button>}
+        </>
+    );
+};
+
+export const MovieCard: React.FC<CardProps<Movie>> = ({ item, onEdit, onDelete, onPromote, onOpen, href, selected }) => {
+    const i18n = useI18n();
+    return (
+        <div className={`bg-gray-800 rounded-lg overflow-hidden shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col ${selected ? selectedCardClasses : ''}`}>
+            <div className="relative h-64">
+                <img
+                    crossOrigin="anonymous"
+                    src={item.posterPath ? `${TMDB_IMAGE_BASE_URL}${item.posterPath}` : 'https://picsum.photos/500/750'} 
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                />
+                <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">{item.releaseYear}</div>
             </div>
-            <div className="grid grid-cols-2 gap-4">
-                <div className={commonFormSectionClasses}>
-                    <label htmlFor="date" className={commonLabelClasses}>Date Read</label>
-                    <input id="date" type="date" value={formData.date} onChange={e => setFormData({ ...formData, date: e.target.value })} required className={commonInputClasses} />
+            <div className="p-4 flex flex-col flex-grow">
+                <h3 className="text-lg font-bold text-white mb-2"><CardTitle item={item} onOpen={onOpen} href={href} /></h3>
+                {item.details && <p className="text-xs text-gray-400 -mt-1 mb-2">{describeMovieDetails(item.details, i18n)}</p>}
+                <div><StatusBadge item={item} /></div>
+                <div className="flex items-center mb-3">
+                    <StarRating rating={item.rating} readOnly />
+                    <span className="text-sm text-gray-400 ml-2">{i18n.formatDate(item.date)}</span>
                 </div>
-                 <div className={commonFormSectionClasses}>
-                    <label className={commonLabelClasses}>Rating</label>
-                    <StarRating rating={formData.rating} setRating={rating => setFormData({ ...formData, rating })} />
+                {item.sessions.length > 1 && <p className="text-xs text-blue-300 -mt-2 mb-3">↻ {describeRepeatCount(item, i18n)}</p>}
+                <CardReview review={item.review} maxLength={100} onReadMore={onOpen && (() => onOpen(item))} href={href} />
+                <TagList tags={item.tags} />
+                <div className="mt-auto flex justify-end space-x-2">
+                    <CardActions item={item} onEdit={onEdit} onDelete={onDelete} onPromote={onPromote} />
                 </div>
             </div>
-            <div className={commonFormSectionClasses}>
-                <label htmlFor="review" className={commonLabelClasses}>Review</label>
-                <textarea id="review" value={formData.review} onChange={e => setFormData({ ...formData, review: e.target.value })} required rows={4} className={commonInputClasses}></textarea>
-            </div>
-            <div className="flex justify-end space-x-3 pt-4">
-                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">Cancel</button>
-                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">Save Book</button>
-            </div>
-        </form>
+        </div>
     );
 };
 
-export const EventForm: React.FC<FormProps<Event>> = ({ onSave, onClose, itemToEdit }) => {
-    const [formData, setFormData] = useState<Omit<Event, 'id' | 'type'>>(() => itemToEdit ? {...itemToEdit} : { title: '', venue: '', review: '', rating: 0, date: new Date().toISOString().split('T')[0] });
-
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        const finalData: Event = {
-            ...formData,
-            id: itemToEdit?.id || crypto.randomUUID(),
-            type: 'event',
-        };
-        onSave(finalData);
-    };
+const seriesProgress = (seasons: SeriesSeason[]) => ({
+    watched: seasons.reduce((sum, season) => sum + season.watchedEpisodes.length, 0),
+    total: seasons.reduce((sum, season) => sum + season.episodeCount, 0),
+});
 
+export const SeriesCard: React.FC<CardProps<Series>> = ({ item, onEdit, onDelete, onPromote, onOpen, href, selected }) => {
+    const i18n = useI18n();
+    const { watched, total } = seriesProgress(item.seasons);
     return (
-        <form onSubmit={handleSubmit} className="space-y-4">
-             <div className={commonFormSectionClasses}>
-                <label htmlFor="title" className={commonLabelClasses}>Title</label>
-                <input id="title" type="text" value={formData.title} onChange={e => setFormData({ ...formData, title: e.target.value })} required className={commonInputClasses} />
+        <div className={`bg-gray-800 rounded-lg overflow-hidden shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col ${selected ? selectedCardClasses : ''}`}>
+            <div className="relative h-64">
+                <img
+                    crossOrigin="anonymous"
+                    src={item.posterPath ? `${TMDB_IMAGE_BASE_URL}${item.posterPath}` : 'https://picsum.photos/500/750'}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                />
+                <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">{item.firstAirYear}</div>
             </div>
-            <div className={commonFormSectionClasses}>
-                <label htmlFor="venue" className={commonLabelClasses}>Venue / Location</label>
-                <input id="venue" type="text" value={formData.venue} onChange={e => setFormData({ ...formData, venue: e.target.value })} required className={commonInputClasses} />
+            <div className="p-4 flex flex-col flex-grow">
+                <h3 className="text-lg font-bold text-white mb-2"><CardTitle item={item} onOpen={onOpen} href={href} /></h3>
+                <div><StatusBadge item={item} /></div>
+                <div className="flex items-center mb-3">
+                    <StarRating rating={item.rating} readOnly />
+                    <span className="text-sm text-gray-400 ml-2">{i18n.formatDate(item.date)}</span>
+                </div>
+                {total > 0 && (
+                    <div className="mb-3">
+                        <p className="text-xs text-gray-400 mb-1">{i18n.t('series.episodeProgress', { watched, total })} · {i18n.t('series.seasonCount', { count: item.seasons.length })}</p>
+                        <div className="h-1.5 bg-gray-700 rounded">
+                            <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${(watched / total) * 100}%` }} />
+                        </div>
+                    </div>
+                )}
+                {item.sessions.length > 1 && <p className="text-xs text-blue-300 -mt-2 mb-3">↻ {describeRepeatCount(item, i18n)}</p>}
+                <CardReview review={item.review} maxLength={100} onReadMore={onOpen && (() => onOpen(item))} href={href} />
+                <TagList tags={item.tags} />
+                <div className="mt-auto flex justify-end space-x-2">
+                    <CardActions item={item} onEdit={onEdit} onDelete={onDelete} onPromote={onPromote} />
+                </div>
             </div>
-            <div className="grid grid-cols-2 gap-4">
-                <div className={commonFormSectionClasses}>
-                    <label htmlFor="date" className={commonLabelClasses}>Date Attended</label>
-                    <input id="date" type="date" value={formData.date} onChange={e => setFormData({ ...formData, date: e.target.value })} required className={commonInputClasses} />
+        </div>
+    );
+};
+
+export const BookCard: React.FC<CardProps<Book>> = ({ item, onEdit, onDelete, onPromote, onOpen, href, selected }) => {
+    const i18n = useI18n();
+    return (
+        <div className={`bg-gray-800 rounded-lg overflow-hidden shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col h-full ${selected ? selectedCardClasses : ''}`}>
+            {item.coverId && (
+                <div className="relative h-64 bg-gray-700">
+                    <img crossOrigin="anonymous" src={bookCoverUrl(item.coverId, 'L')} alt={item.title} className="w-full h-full object-contain" />
+                    {item.publishYear && <div className="absolute top-2 right-2 bg-black bg-opacity-70 text-white text-xs font-bold px-2 py-1 rounded">{item.publishYear}</div>}
+                </div>
+            )}
+            <div className="p-4 flex flex-col flex-grow">
+                <h3 className="text-lg font-bold text-white"><CardTitle item={item} onOpen={onOpen} href={href} /></h3>
+                <div><StatusBadge item={item} /></div>
+                <p className="text-sm text-gray-400 mb-2">{item.author}{item.pageCount ? ` · ${i18n.t('book.pageCount', { count: item.pageCount })}` : ''}</p>
+                <div className="flex items-center my-2">
+                    <StarRating rating={item.rating} readOnly />
+                    <span className="text-sm text-gray-400 ml-auto">{i18n.formatDate(item.date)}</span>
                 </div>
-                 <div className={commonFormSectionClasses}>
-                    <label className={commonLabelClasses}>Rating</label>
-                    <StarRating rating={formData.rating} setRating={rating => setFormData({ ...formData, rating })} />
+                {item.sessions.length > 1 && <p className="text-xs text-blue-300 mb-2">↻ {describeRepeatCount(item, i18n)}</p>}
+                <CardReview review={item.review} maxLength={150} onReadMore={onOpen && (() => onOpen(item))} href={href} />
+                <p className="text-xs text-gray-500">{i18n.t('book.isbn', { isbn: item.isbn })}</p>
+                <TagList tags={item.tags} />
+                <div className="mt-auto pt-4 flex justify-end space-x-2">
+                    <CardActions item={item} onEdit={onEdit} onDelete={onDelete} onPromote={onPromote} />
                 </div>
             </div>
-            <div className={commonFormSectionClasses}>
-                <label htmlFor="review" className={commonLabelClasses}>Review</label>
-                <textarea id="review" value={formData.review} onChange={e => setFormData({ ...formData, review: e.target.value })} required rows={4} className={commonInputClasses}></textarea>
+        </div>
+    );
+};
+
+export const EventCard: React.FC<CardProps<Event>> = ({ item, onEdit, onDelete, onPromote, onOpen, href, selected }) => {
+    const i18n = useI18n();
+    return (
+        <div className={`bg-gray-800 rounded-lg p-4 shadow-lg transform hover:-translate-y-1 transition-transform duration-300 flex flex-col h-full ${selected ? selectedCardClasses : ''}`}>
+            {item.category && item.category !== 'other' && <p className="text-xs uppercase tracking-wide text-purple-300 mb-1">{i18n.t(`eventCategory.${item.category}`)}</p>}
+            <h3 className="text-lg font-bold text-white"><CardTitle item={item} onOpen={onOpen} href={href} /></h3>
+            <div><StatusBadge item={item} /></div>
+            <p className="text-sm text-gray-400">{item.venue}</p>
+            {item.startsAt && <p className="text-sm text-gray-400">{describeSchedule(item, i18n)}</p>}
+            {item.performers && item.performers.length > 0 && <p className="text-xs text-gray-400 mt-1">{i18n.t('event.with', { names: i18n.formatList(item.performers) })}</p>}
+            {(item.ticketPrice || item.seat) && <p className="text-xs text-gray-500 mt-1">🎟 {[item.ticketPrice, item.seat && i18n.t('event.seat', { seat: item.seat })].filter(Boolean).join(' · ')}</p>}
+            <div className="flex items-center my-2">
+                <StarRating rating={item.rating} readOnly />
+                <span className="text-sm text-gray-400 ml-auto">{i18n.formatDate(item.date)}</span>
             </div>
-            <div className="flex justify-end space-x-3 pt-4">
-                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">Cancel</button>
-                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">Save Event</button>
+            {item.sessions.length > 1 && <p className="text-xs text-blue-300 mb-2">↻ {describeRepeatCount(item, i18n)}</p>}
+            <CardReview review={item.review} maxLength={150} onReadMore={onOpen && (() => onOpen(item))} href={href} />
+            <TagList tags={item.tags} />
+            <div className="mt-auto pt-4 flex justify-end space-x-2">
+                <CardActions item={item} onEdit={onEdit} onDelete={onDelete} onPromote={onPromote} />
             </div>
-        </form>
+        </div>
+    );
+};
+
+// --- Form Components ---
+
+const commonInputClasses = "w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const commonLabelClasses = "block text-sm font-medium text-gray-300 mb-1";
+const commonFormSectionClasses = "mb-4";
+
+type SessionFields = Pick<ActivitySession, 'date' | 'rating' | 'review'>;
+
+const emptySessionFields = (): SessionFields => ({ review: '', rating: 0, date: new Date().toISOString().split('T')[0] });
+
+/**
+ * Tracks an activity's sessions while its form is open. The form's date/rating/review inputs edit
+ * the active session (the latest one when editing); earlier sessions are only listed or removed.
+ */
+const useSessionHistory = (itemToEdit: Activity | null | undefined, startNewSession: boolean) => {
+    const [sessions, setSessions] = useState<ActivitySession[]>(() => itemToEdit?.sessions ?? []);
+    const [activeSessionId, setActiveSessionId] = useState<string>(() => (!startNewSession && itemToEdit && latestSession(itemToEdit)?.id) || crypto.randomUUID());
+
+    const pastSessions = sessions.filter(session => session.id !== activeSessionId);
+
+    const commit = ({ date, rating, review }: SessionFields): ActivitySession[] =>
+        [...pastSessions, { id: activeSessionId, date, rating, review }];
+
+    const startAnotherSession = (fields: SessionFields) => {
+        setSessions(commit(fields));
+        setActiveSessionId(crypto.randomUUID());
+    };
+
+    const removeSession = (id: string) => setSessions(prev => prev.filter(session => session.id !== id));
+
+    /** Logged items record the form's fields as the active session; backlog items keep their sessions untouched. */
+    const finalize = <T extends Activity>(item: T, fields: SessionFields): T =>
+        isLoggedStatus(item.status) ? withSessions(item, commit(fields)) : { ...item, sessions };
+
+    return { pastSessions, startAnotherSession, removeSession, finalize };
+};
+
+interface SessionHistoryProps {
+    sessions: ActivitySession[];
+    addLabel: string;
+    onAdd: () => void;
+    onRemove: (id: string) => void;
+}
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, addLabel, onAdd, onRemove }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <div className={commonFormSectionClasses}>
+            {sessions.length > 0 && (
+                <>
+                    <p className={commonLabelClasses}>{t('sessions.earlier')}</p>
+                    <ul className="mb-2 space-y-1 max-h-32 overflow-y-auto">
+                        {sessions.map(session => (
+                            <li key={session.id} className="flex items-center justify-between bg-gray-700 rounded-md px-2 py-1 text-sm text-gray-300">
+                                <span className="flex items-center space-x-2 min-w-0">
+                                    <span>{i18n.formatDate(session.date)}</span>
+                                    <span className="text-yellow-400">{session.rating > 0 ? formatRating(session.rating, ratingScale, i18n) : t('sessions.unrated')}</span>
+                                    {session.review && <span className="text-gray-400 truncate">{markdownToPlainText(session.review, i18n)}</span>}
+                                </span>
+                                <button type="button" onClick={() => onRemove(session.id)} aria-label={t('sessions.remove')} className="ml-2 text-gray-400 hover:text-red-400">&times;</button>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+            <button type="button" onClick={onAdd} className="text-sm text-blue-400 hover:text-blue-300">+ {addLabel}</button>
+        </div>
+    );
+};
+
+interface StatusFieldProps {
+    type: ActivityType;
+    value: ActivityStatus;
+    onChange: (status: ActivityStatus) => void;
+}
+
+const StatusField: React.FC<StatusFieldProps> = ({ type, value, onChange }) => {
+    const i18n = useI18n();
+    return (
+        <div className={commonFormSectionClasses}>
+            <label htmlFor="status" className={commonLabelClasses}>{i18n.t('field.status')}</label>
+            <select id="status" value={value} onChange={e => onChange(e.target.value as ActivityStatus)} className={commonInputClasses}>
+                {ACTIVITY_STATUSES.map(status => <option key={status} value={status}>{i18n.type(type).statusLabels[status]}</option>)}
+            </select>
+        </div>
+    );
+};
+
+export interface FormProps<T> {
+    onSave: (item: T) => void;
+    onClose: () => void;
+    itemToEdit?: T | null;
+    /** Opens a backlog item as completed, dated today, with a fresh session. */
+    promote?: boolean;
+    defaultStatus?: ActivityStatus;
+    defaultDate?: string; // YYYY-MM-DD for new entries; today when omitted
+    knownTags?: string[]; // tag suggestions, most used first
+    library?: Activity[]; // existing entries, checked for likely duplicates of the one being saved
+}
+
+const promotedFields = (): Pick<BaseActivity, 'status' | 'date'> => ({ status: 'completed', date: new Date().toISOString().split('T')[0] });
+
+interface SeasonTrackerProps {
+    seasons: SeriesSeason[];
+    onChange: (seasons: SeriesSeason[]) => void;
+}
+
+const SeasonTracker: React.FC<SeasonTrackerProps> = ({ seasons, onChange }) => {
+    const { t } = useI18n();
+    const updateSeason = (seasonNumber: number, changes: Partial<SeriesSeason>) =>
+        onChange(seasons.map(season => season.seasonNumber === seasonNumber ? { ...season, ...changes } : season));
+
+    const toggleEpisode = (season: SeriesSeason, episode: number) => {
+        const watchedEpisodes = season.watchedEpisodes.includes(episode)
+            ? season.watchedEpisodes.filter(e => e !== episode)
+            : [...season.watchedEpisodes, episode].sort((a, b) => a - b);
+        updateSeason(season.seasonNumber, { watchedEpisodes });
+    };
+
+    const addSeason = () => {
+        const seasonNumber = Math.max(0, ...seasons.map(season => season.seasonNumber)) + 1;
+        onChange([...seasons, { seasonNumber, episodeCount: 10, watchedEpisodes: [], rating: 0 }]);
+    };
+
+    return (
+        <div className={commonFormSectionClasses}>
+            <p className={commonLabelClasses}>{t('seasons.title')}</p>
+            <ul className="space-y-3 max-h-64 overflow-y-auto">
+                {seasons.map(season => {
+                    const episodes = Array.from({ length: season.episodeCount }, (_, i) => i + 1);
+                    const allWatched = season.watchedEpisodes.length === season.episodeCount;
+                    return (
+                        <li key={season.seasonNumber} className="bg-gray-700 rounded-md p-2">
+                            <div className="flex items-center justify-between mb-2 text-sm text-gray-200">
+                                <span className="font-semibold">{t('seasons.season', { number: season.seasonNumber })}</span>
+                                <span className="text-xs text-gray-400">{season.watchedEpisodes.length}/{season.episodeCount}</span>
+                                <label className="flex items-center space-x-1 text-xs text-gray-300">
+                                    <span>{t('seasons.episodes')}</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={season.episodeCount}
+                                        onChange={e => {
+                                            const episodeCount = Math.max(1, Number(e.target.value) || 1);
+                                            updateSeason(season.seasonNumber, { episodeCount, watchedEpisodes: season.watchedEpisodes.filter(ep => ep <= episodeCount) });
+                                        }}
+                                        className="w-14 p-1 bg-gray-600 border border-gray-500 rounded text-white"
+                                    />
+                                </label>
+                                <button type="button" onClick={() => updateSeason(season.seasonNumber, { watchedEpisodes: allWatched ? [] : episodes })} className="text-xs text-blue-400 hover:text-blue-300">
+                                    {allWatched ? t('seasons.clear') : t('seasons.all')}
+                                </button>
+                                <button type="button" onClick={() => onChange(seasons.filter(s => s.seasonNumber !== season.seasonNumber))} aria-label={t('seasons.remove', { number: season.seasonNumber })} className="text-gray-400 hover:text-red-400">&times;</button>
+                            </div>
+                            <div className="flex flex-wrap gap-1 mb-2">
+                                {episodes.map(episode => (
+                                    <button
+                                        key={episode}
+                                        type="button"
+                                        onClick={() => toggleEpisode(season, episode)}
+                                        aria-pressed={season.watchedEpisodes.includes(episode)}
+                                        className={`w-7 h-7 text-xs rounded ${season.watchedEpisodes.includes(episode) ? 'bg-blue-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+                                    >
+                                        {episode}
+                                    </button>
+                                ))}
+                            </div>
+                            <StarRating rating={season.rating} setRating={rating => updateSeason(season.seasonNumber, { rating })} />
+                        </li>
+                    );
+                })}
+            </ul>
+            <button type="button" onClick={addSeason} className="mt-2 text-sm text-blue-400 hover:text-blue-300">+ {t('seasons.add')}</button>
+        </div>
+    );
+};
+
+interface TagInputProps {
+    tags: string[];
+    suggestions: string[];
+    onChange: (tags: string[]) => void;
+}
+
+/** Free-form tags as chips. Enter or a comma adds the typed tag; arrow keys pick from known tags. */
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+    const { t } = useI18n();
+    const [input, setInput] = useState('');
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(-1);
+    const matches = isOpen ? suggestTags(suggestions, input, tags) : [];
+
+    const commit = (value: string) => {
+        onChange(addTag(tags, value));
+        setInput('');
+        setHighlighted(-1);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            setIsOpen(true);
+            if (matches.length > 0) {
+                setHighlighted(prev => e.key === 'ArrowDown' ? (prev + 1) % matches.length : prev <= 0 ? matches.length - 1 : prev - 1);
+            }
+        } else if ((e.key === 'Enter' && (input.trim() || highlighted >= 0)) || e.key === ',') {
+            // Enter on an empty input still submits the form.
+            e.preventDefault();
+            commit(highlighted >= 0 && matches[highlighted] ? matches[highlighted] : input);
+        } else if (e.key === 'Escape' && matches.length > 0) {
+            // Closes the list only, not the dialog around the form.
+            e.preventDefault();
+            e.stopPropagation();
+            setIsOpen(false);
+        } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className={commonFormSectionClasses}>
+            <label htmlFor="tags" className={commonLabelClasses}>{t('field.tags')}</label>
+            <div className="relative">
+                <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-700 border border-gray-600 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+                    {tags.map(tag => (
+                        <span key={tag} className="flex items-center bg-gray-600 rounded-full pl-3 pr-2 py-0.5 text-sm text-white">
+                            {tag}
+                            <button type="button" onClick={() => onChange(removeTag(tags, tag))} aria-label={t('tags.remove', { tag })} className="ml-1 text-gray-300 hover:text-red-400">&times;</button>
+                        </span>
+                    ))}
+                    <input
+                        id="tags"
+                        type="text"
+                        role="combobox"
+                        aria-expanded={matches.length > 0}
+                        aria-controls="tag-suggestions"
+                        aria-autocomplete="list"
+                        aria-activedescendant={highlighted >= 0 && matches[highlighted] ? `tag-suggestion-${highlighted}` : undefined}
+                        value={input}
+                        onChange={e => { setInput(e.target.value); setIsOpen(true); setHighlighted(-1); }}
+                        onKeyDown={handleKeyDown}
+                        onFocus={() => setIsOpen(true)}
+                        onBlur={() => { setIsOpen(false); if (input.trim()) commit(input); }}
+                        placeholder={tags.length === 0 ? t('tags.placeholder') : ''}
+                        className="flex-grow min-w-[8rem] bg-transparent text-white focus:outline-none"
+                    />
+                </div>
+                {matches.length > 0 && (
+                    <ul id="tag-suggestions" role="listbox" className="absolute z-10 w-full bg-gray-700 border border-gray-600 rounded-md mt-1 max-h-48 overflow-y-auto">
+                        {matches.map((tag, i) => (
+                            <li
+                                key={tag}
+                                id={`tag-suggestion-${i}`}
+                                role="option"
+                                aria-selected={i === highlighted}
+                                // mousedown, not click, so the pick lands before the input's blur handler runs.
+                                onMouseDown={e => { e.preventDefault(); commit(tag); }}
+                                className={`px-3 py-1.5 cursor-pointer text-white ${i === highlighted ? 'bg-blue-600' : 'hover:bg-gray-600'}`}
+                            >
+                                {tag}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface LookupFieldProps<T extends Activity> {
+    provider: LookupProvider<T>;
+    placeholder: string;
+    onSelect: (option: LookupOption<T>) => void;
+}
+
+const LookupField = <T extends Activity>({ provider, placeholder, onSelect }: LookupFieldProps<T>) => {
+    const { t } = useI18n();
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<LookupOption<T>[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isOfflineError, setIsOfflineError] = useState(false);
+    const [searchError, setSearchError] = useState<MessageKey | null>(null);
+    const [highlighted, setHighlighted] = useState(-1);
+    const isOnline = useOnlineStatus();
+    const debouncedSearchQuery = useDebounce(searchQuery, 500);
+
+    useEffect(() => {
+        setIsOfflineError(false);
+        setSearchError(null);
+        if (!debouncedSearchQuery) {
+            setSearchResults([]);
+            return;
+        }
+        // A newer query (or closing the form) cancels the request still in flight for this one.
+        const controller = new AbortController();
+        const search = async () => {
+            setIsLoading(true);
+            try {
+                setSearchResults(await provider.search(debouncedSearchQuery, controller.signal));
+                setHighlighted(-1);
+            } catch (error) {
+                if (isAbortError(error)) return;
+                setSearchResults([]);
+                if (error instanceof OfflineError) setIsOfflineError(true);
+                else if (error instanceof TmdbError) setSearchError(`tmdbError.${error.reason}`);
+                // Anything else (a malformed response, a provider bug) still ends the search visibly.
+                else setSearchError('lookup.failed');
+            } finally {
+                if (!controller.signal.aborted) setIsLoading(false);
+            }
+        };
+        search();
+        return () => controller.abort();
+    }, [debouncedSearchQuery, provider, isOnline]);
+
+    const handleSelect = (option: LookupOption<T>) => {
+        setSearchQuery('');
+        setSearchResults([]);
+        setHighlighted(-1);
+        onSelect(option);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (searchResults.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted(prev => e.key === 'ArrowDown' ? (prev + 1) % searchResults.length : prev <= 0 ? searchResults.length - 1 : prev - 1);
+        } else if (e.key === 'Enter' && highlighted >= 0) {
+            // Picks the result instead of submitting the form.
+            e.preventDefault();
+            handleSelect(searchResults[highlighted]);
+        } else if (e.key === 'Escape') {
+            // Closes the list only, not the dialog around the form.
+            e.preventDefault();
+            e.stopPropagation();
+            setSearchResults([]);
+            setHighlighted(-1);
+        }
+    };
+
+    useEffect(() => {
+        if (highlighted >= 0) document.getElementById(`lookup-result-${highlighted}`)?.scrollIntoView({ block: 'nearest' });
+    }, [highlighted]);
+
+    return (
+        <div className="relative">
+            <label htmlFor="lookupSearch" className={commonLabelClasses}>{t('lookup.label', { source: provider.source })}</label>
+            <input
+                id="lookupSearch"
+                type="text"
+                role="combobox"
+                aria-expanded={searchResults.length > 0}
+                aria-controls="lookup-results"
+                aria-autocomplete="list"
+                aria-activedescendant={highlighted >= 0 && searchResults[highlighted] ? `lookup-result-${highlighted}` : undefined}
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={isOnline ? placeholder : t('lookup.offlinePlaceholder')}
+                className={commonInputClasses}
+            />
+            {isLoading && <div className="absolute right-2 top-8"><LoadingSpinner/></div>}
+            {searchError && <p role="alert" className="text-xs text-red-300 mt-1">{t(searchError)}</p>}
+            {(isOfflineError || !isOnline) && (
+                <p role="status" className="text-xs text-yellow-300 mt-1">
+                    {isOfflineError ? t('offline.searchUnavailable') : t('offline.youAreOffline')} {t('lookup.offlineHint')}
+                </p>
+            )}
+            {searchResults.length > 0 && (
+                <ul id="lookup-results" role="listbox" className="absolute z-10 w-full bg-gray-700 border border-gray-600 rounded-md mt-1 max-h-60 overflow-y-auto">
+                    {searchResults.map((option, i) => (
+                        <li
+                            key={option.id}
+                            id={`lookup-result-${i}`}
+                            role="option"
+                            aria-selected={i === highlighted}
+                            onClick={() => handleSelect(option)}
+                            className={`p-2 cursor-pointer text-white flex items-center space-x-3 ${i === highlighted ? 'bg-blue-600' : 'hover:bg-blue-600'}`}
+                        >
+                            <img crossOrigin="anonymous" src={option.imageUrl ?? 'https://picsum.photos/40/60'} alt="" className="w-10 h-14 object-cover rounded"/>
+                            <span>{option.title}{option.subtitle && ` (${option.subtitle})`}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export interface FormExtrasProps<T> {
+    formData: T;
+    onChange: (changes: Partial<T>) => void;
+    /** True while a picked lookup option is still fetching its details. */
+    isEnriching: boolean;
+}
+
+const MovieFormExtras: React.FC<FormExtrasProps<Movie>> = ({ formData, isEnriching }) => {
+    const i18n = useI18n();
+    return (
+        <>
+            {isEnriching && <p className="text-xs text-gray-400 -mt-3 mb-4">{i18n.t('movie.loadingDetails')}</p>}
+            {formData.details && <p className="text-xs text-gray-400 -mt-3 mb-4">{describeMovieDetails(formData.details, i18n)}</p>}
+        </>
+    );
+};
+
+const SeriesFormExtras: React.FC<FormExtrasProps<Series>> = ({ formData, onChange }) => (
+    <SeasonTracker seasons={formData.seasons} onChange={seasons => onChange({ seasons })} />
+);
+
+const EventFormExtras: React.FC<FormExtrasProps<Event>> = ({ formData, onChange }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const { fieldLabels } = i18n.type('event');
+    const [performer, setPerformer] = useState('');
+    const performers = formData.performers ?? [];
+
+    const addPerformer = () => {
+        const name = performer.trim();
+        if (name && !performers.includes(name)) onChange({ performers: [...performers, name] });
+        setPerformer('');
+    };
+
+    const handleStartChange = (startsAt: string) => {
+        // A backlog event's date is the day it happens, so keep it in step with the start time.
+        const endsAt = formData.endsAt && startsAt && formData.endsAt < startsAt ? '' : formData.endsAt;
+        onChange({ startsAt, endsAt, ...(startsAt && !isLoggedStatus(formData.status) && { date: startsAt.substring(0, 10) }) });
+    };
+
+    return (
+        <>
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="category" className={commonLabelClasses}>{fieldLabels.category}</label>
+                <select id="category" value={formData.category ?? 'other'} onChange={e => onChange({ category: e.target.value as EventCategory })} className={commonInputClasses}>
+                    {(Object.keys(EVENT_CATEGORIES) as EventCategory[]).map(category => <option key={category} value={category}>{t(`eventCategory.${category}`)}</option>)}
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div className={commonFormSectionClasses}>
+                    <label htmlFor="startsAt" className={commonLabelClasses}>{fieldLabels.startsAt}</label>
+                    <input id="startsAt" type="datetime-local" value={formData.startsAt ?? ''} onChange={e => handleStartChange(e.target.value)} className={commonInputClasses} />
+                </div>
+                <div className={commonFormSectionClasses}>
+                    <label htmlFor="endsAt" className={commonLabelClasses}>{fieldLabels.endsAt}</label>
+                    <input id="endsAt" type="datetime-local" value={formData.endsAt ?? ''} min={formData.startsAt || undefined} disabled={!formData.startsAt} onChange={e => onChange({ endsAt: e.target.value })} className={`${commonInputClasses} disabled:opacity-50`} />
+                </div>
+            </div>
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="performer" className={commonLabelClasses}>{t('event.performersLabel')}</label>
+                {performers.length > 0 && (
+                    <ul className="flex flex-wrap gap-2 mb-2">
+                        {performers.map(name => (
+                            <li key={name} className="flex items-center bg-gray-700 rounded-full pl-3 pr-2 py-0.5 text-sm text-white">
+                                {name}
+                                <button type="button" onClick={() => onChange({ performers: performers.filter(p => p !== name) })} aria-label={t('event.removePerformer', { name })} className="ml-1 text-gray-400 hover:text-red-400">&times;</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex space-x-2">
+                    <input
+                        id="performer"
+                        type="text"
+                        value={performer}
+                        onChange={e => setPerformer(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addPerformer(); } }}
+                        placeholder={t('event.performerPlaceholder')}
+                        className={commonInputClasses}
+                    />
+                    <button type="button" onClick={addPerformer} className="px-3 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('event.addPerformer')}</button>
+                </div>
+            </div>
+        </>
+    );
+};
+
+interface ReviewEditorProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+    required?: boolean;
+}
+
+// Buttons show their symbol, or else their label message; `t` translates the text inserted when nothing is selected.
+const reviewTools: { symbol?: string; label?: MessageKey; title: MessageKey; edit: (value: string, start: number, end: number, t: Translator['t']) => TextEdit }[] = [
+    { symbol: 'B', title: 'editor.bold', edit: (value, start, end, t) => wrapSelection(value, start, end, '**', '**', t('editor.boldPlaceholder')) },
+    { symbol: 'I', title: 'editor.italic', edit: (value, start, end, t) => wrapSelection(value, start, end, '*', '*', t('editor.italicPlaceholder')) },
+    { symbol: 'H', title: 'editor.heading', edit: (value, start, end) => prefixLines(value, start, end, '## ') },
+    { symbol: '❝', title: 'editor.quote', edit: (value, start, end) => prefixLines(value, start, end, '> ') },
+    { symbol: '•', title: 'editor.list', edit: (value, start, end) => prefixLines(value, start, end, '- ') },
+    { symbol: '🔗', title: 'editor.link', edit: (value, start, end, t) => wrapSelection(value, start, end, '[', '](https://)', t('editor.linkPlaceholder')) },
+    { label: 'markdown.spoiler', title: 'editor.spoiler', edit: (value, start, end, t) => wrapInSpoiler(value, start, end, t('editor.spoilerPlaceholder')) },
+];
+
+/** Markdown textarea with a formatting toolbar and a live preview. */
+const ReviewEditor: React.FC<ReviewEditorProps> = ({ id, value, onChange, required }) => {
+    const { t } = useI18n();
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [showPreview, setShowPreview] = useState(true);
+
+    const applyTool = (edit: (value: string, start: number, end: number, t: Translator['t']) => TextEdit) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const result = edit(value, textarea.selectionStart, textarea.selectionEnd, t);
+        onChange(result.value);
+        // Restore focus and selection once React has written the new value.
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+        });
+    };
+
+    return (
+        <div>
+            <div role="toolbar" aria-label={t('editor.toolbar')} aria-controls={id} className="flex flex-wrap items-center gap-1 mb-1">
+                {reviewTools.map(tool => (
+                    <button key={tool.title} type="button" onClick={() => applyTool(tool.edit)} title={t(tool.title)} aria-label={t(tool.title)} className="px-2 py-0.5 text-sm bg-gray-700 hover:bg-gray-600 rounded text-gray-200">
+                        {tool.symbol ?? (tool.label && t(tool.label))}
+                    </button>
+                ))}
+                <button type="button" onClick={() => setShowPreview(prev => !prev)} aria-pressed={showPreview} className="ml-auto text-xs text-blue-400 hover:text-blue-300">
+                    {showPreview ? t('editor.hidePreview') : t('editor.showPreview')}
+                </button>
+            </div>
+            <textarea id={id} ref={textareaRef} value={value} onChange={e => onChange(e.target.value)} required={required} rows={6} className={commonInputClasses}></textarea>
+            <p className="text-xs text-gray-500 mt-1">{richText(t('editor.markdownHint'), { start: <code>:::spoiler</code>, end: <code>:::</code> })}</p>
+            {showPreview && value.trim() && (
+                <div className="mt-2">
+                    <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">{t('editor.preview')}</p>
+                    <MarkdownView source={value} className="p-3 bg-gray-900 rounded-md max-h-64 overflow-y-auto text-sm" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * The entry form for every activity type. Title, status, sessions, date, rating and review are
+ * shared; the type's definition adds its lookup provider and free-text fields, and its view can
+ * add extra inputs (`FormExtras`).
+ */
+const MAX_DUPLICATE_WARNINGS = 3;
+
+export const ActivityForm: React.FC<FormProps<Activity> & { type: ActivityType }> = ({ type, onSave, onClose, itemToEdit, promote = false, defaultStatus = 'completed', defaultDate, knownTags = [], library = [] }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const definition = activityTypeFor(type);
+    const text = i18n.type(type);
+    const { FormExtras } = viewFor(type);
+    const [formData, setFormData] = useState<Activity>(() => itemToEdit ? { ...itemToEdit, ...(promote && promotedFields()) } : ({ ...createActivity(type, defaultStatus), ...(defaultDate && { date: defaultDate }) }));
+    const sessionHistory = useSessionHistory(itemToEdit, promote || !itemToEdit || !isLoggedStatus(itemToEdit.status));
+    const [enrichingOptionId, setEnrichingOptionId] = useState<string | null>(null);
+    const [touchedFields, setTouchedFields] = useState<string[]>([]);
+    const selectedOptionId = useRef<string | null>(null);
+    const debouncedFormData = useDebounce(formData, 300);
+    const likelyDuplicates = useMemo(() => findLikelyDuplicates(debouncedFormData, library), [debouncedFormData, library]);
+
+    const update = (changes: Partial<Activity>) => setFormData(prev => ({ ...prev, ...changes }) as Activity);
+
+    const handleSelectOption = async (option: LookupOption<Activity>) => {
+        selectedOptionId.current = option.id;
+        update(option.fields);
+        if (!option.enrich) return;
+        setEnrichingOptionId(option.id);
+        const enrich = await option.enrich();
+        // Ignore the response if another option was picked while it was in flight.
+        if (selectedOptionId.current !== option.id) return;
+        setEnrichingOptionId(null);
+        if (enrich) setFormData(enrich);
+    };
+
+    const inputFields = definition.fields.filter(field => field.input);
+    const fieldValues = formData as unknown as Record<string, string>;
+    const fieldErrors = Object.fromEntries(inputFields.map(({ name, input }) => [name, input!.validate?.(fieldValues[name] ?? '') ?? null]));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (Object.values(fieldErrors).some(Boolean)) {
+            setTouchedFields(inputFields.map(field => field.name));
+            return;
+        }
+        const normalized = Object.fromEntries(inputFields
+            .filter(({ input }) => input!.normalize)
+            .map(({ name, input }) => [name, input!.normalize!(fieldValues[name] ?? '')]));
+        onSave(sessionHistory.finalize({ ...formData, ...normalized, id: itemToEdit?.id || formData.id } as Activity, formData));
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {definition.lookup && <LookupField provider={definition.lookup} placeholder={text.lookupPlaceholder ?? definition.lookup.placeholder} onSelect={handleSelectOption} />}
+
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="title" className={commonLabelClasses}>{t('field.title')}</label>
+                <input id="title" type="text" value={formData.title} onChange={e => update({ title: e.target.value })} required className={commonInputClasses} />
+            </div>
+            {inputFields.length > 0 && (
+                <div className={inputFields.length > 1 ? 'grid grid-cols-2 gap-4' : ''}>
+                    {inputFields.map(({ name, input }) => {
+                        const error = touchedFields.includes(name) ? fieldErrors[name] : null;
+                        return (
+                            <div key={name} className={commonFormSectionClasses}>
+                                <label htmlFor={name} className={commonLabelClasses}>{text.fieldLabels[name] ?? input!.label}</label>
+                                <input
+                                    id={name}
+                                    type="text"
+                                    value={fieldValues[name] ?? ''}
+                                    onChange={e => update({ [name]: e.target.value })}
+                                    onBlur={() => setTouchedFields(prev => prev.includes(name) ? prev : [...prev, name])}
+                                    required={input!.required}
+                                    aria-invalid={!!error}
+                                    aria-describedby={error ? `${name}-error` : undefined}
+                                    className={`${commonInputClasses} ${error ? 'border-red-500' : ''}`}
+                                />
+                                {error && <p id={`${name}-error`} className="text-xs text-red-400 mt-1">{t(error)}</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {likelyDuplicates.length > 0 && (
+                <div role="status" className="bg-yellow-900 bg-opacity-40 border border-yellow-700 text-yellow-100 rounded-md px-3 py-2 text-sm">
+                    <p>{t('form.duplicateWarning', { count: likelyDuplicates.length })}</p>
+                    <ul className="list-disc list-inside my-1">
+                        {likelyDuplicates.slice(0, MAX_DUPLICATE_WARNINGS).map(item => (
+                            <li key={item.id}>{item.title} · {definition.describe(item, i18n)} · {text.statusLabels[item.status]} {i18n.formatDate(item.date)}</li>
+                        ))}
+                    </ul>
+                    <p className="text-xs text-yellow-200">{t('form.duplicateHint', { action: text.repeatLabel })}</p>
+                </div>
+            )}
+            {FormExtras && <FormExtras formData={formData} onChange={update} isEnriching={enrichingOptionId !== null} />}
+
+            <TagInput tags={formData.tags} suggestions={knownTags} onChange={tags => update({ tags })} />
+
+            <StatusField type={type} value={formData.status} onChange={status => update({ status })} />
+            {itemToEdit && isLoggedStatus(formData.status) && (
+                <SessionHistory sessions={sessionHistory.pastSessions} addLabel={text.repeatLabel} onAdd={() => { sessionHistory.startAnotherSession(formData); update(emptySessionFields()); }} onRemove={sessionHistory.removeSession} />
+            )}
+            <div className="grid grid-cols-2 gap-4">
+                <div className={commonFormSectionClasses}>
+                    <label htmlFor="date" className={commonLabelClasses}>{text.dateLabels[formData.status]}</label>
+                    <input id="date" type="date" value={formData.date} onChange={e => update({ date: e.target.value })} required className={commonInputClasses} />
+                </div>
+                <div className={commonFormSectionClasses}>
+                    <label className={commonLabelClasses}>{text.ratingLabel ?? t('field.rating')}</label>
+                    <StarRating rating={formData.rating} setRating={rating => update({ rating })} label={text.ratingLabel} />
+                </div>
+            </div>
+
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="review" className={commonLabelClasses}>{t('field.review')}</label>
+                <ReviewEditor id="review" value={formData.review} onChange={review => update({ review })} required={formData.status === 'completed'} />
+            </div>
+
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="visibility" className={commonLabelClasses}>{t('field.visibility')}</label>
+                <select id="visibility" value={visibilityOf(formData)} onChange={e => update({ visibility: e.target.value as Visibility })} className={commonInputClasses}>
+                    {VISIBILITIES.map(visibility => <option key={visibility} value={visibility}>{t(`visibility.${visibility}`)}</option>)}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{t('form.visibilityHint')}</p>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.cancel')}</button>
+                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">{t('form.save', { type: text.singular })}</button>
+            </div>
+        </form>
+    );
+};
+
+
+// --- Activity Detail ---
+
+const FactList: React.FC<{ facts: (string | false | null | undefined)[] }> = ({ facts }) => (
+    <ul className="text-sm text-gray-400 space-y-0.5 mb-3">
+        {facts.filter(Boolean).map(fact => <li key={fact as string}>{fact}</li>)}
+    </ul>
+);
+
+const MovieFacts: React.FC<{ item: Movie }> = ({ item }) => {
+    const i18n = useI18n();
+    return (
+        <FactList facts={[
+            item.details && describeMovieDetails(item.details, i18n),
+            item.details && item.details.cast.length > 0 && i18n.t('movie.cast', { names: i18n.formatList(item.details.cast.slice(0, 5)) }),
+            item.details?.overview,
+        ]} />
+    );
+};
+
+const SeriesFacts: React.FC<{ item: Series }> = ({ item }) => {
+    const { t } = useI18n();
+    const { watched, total } = seriesProgress(item.seasons);
+    return <FactList facts={[total > 0 && t('series.episodesWatched', { watched, total })]} />;
+};
+
+const BookFacts: React.FC<{ item: Book }> = ({ item }) => {
+    const { t } = useI18n();
+    return (
+        <FactList facts={[
+            item.pageCount && t('book.pageCount', { count: item.pageCount }),
+            item.publishYear && t('book.firstPublished', { year: String(item.publishYear) }),
+            item.isbn && t('book.isbn', { isbn: item.isbn }),
+        ]} />
+    );
+};
+
+const EventFacts: React.FC<{ item: Event }> = ({ item }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <FactList facts={[
+            item.category && item.category !== 'other' && t(`eventCategory.${item.category}`),
+            item.startsAt && describeSchedule(item, i18n),
+            item.performers && item.performers.length > 0 && t('event.with', { names: i18n.formatList(item.performers) }),
+            [item.ticketPrice, item.seat && t('event.seat', { seat: item.seat })].filter(Boolean).join(' · '),
+        ]} />
+    );
+};
+
+const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+    <p className="text-sm whitespace-pre-wrap bg-gray-800 rounded-md p-3 mt-1">
+        {diffText(before, after).map((segment, i) => (
+            segment.kind === 'same' ? <span key={i} className="text-gray-300">{segment.text}</span>
+                : segment.kind === 'added' ? <ins key={i} className="no-underline bg-green-900 text-green-200">{segment.text}</ins>
+                : <del key={i} className="bg-red-900 text-red-200">{segment.text}</del>
+        ))}
+    </p>
+);
+
+interface RevisionHistoryProps {
+    item: Activity;
+    revisions: Revision[]; // oldest first
+    onRevert: (revision: Revision) => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ item, revisions, onRevert }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <section className="mt-10 max-w-3xl">
+            <h3 className="text-lg font-semibold text-white mb-3">{t('revisions.title')}</h3>
+            <ol className="space-y-4">
+                {revisions.map((revision, index) => ({ revision, previous: revisions[index - 1] })).reverse().map(({ revision, previous }) => {
+                    const changes = previous ? diffActivities(previous.activity, revision.activity, ratingScale, i18n) : [];
+                    const isCurrent = diffActivities(revision.activity, item, ratingScale, i18n).length === 0;
+                    return (
+                        <li key={revision.id} className="border-l-2 border-gray-700 pl-4">
+                            <div className="flex items-center space-x-3 mb-1">
+                                <span className="text-sm text-gray-300">{revision.savedAt ? i18n.formatDate(revision.savedAt, { dateStyle: 'medium', timeStyle: 'short' }) : t('revisions.beforeHistory')}</span>
+                                {isCurrent
+                                    ? <span className="text-xs px-2 py-0.5 rounded-full bg-blue-900 text-blue-200">{t('revisions.current')}</span>
+                                    : <button onClick={() => onRevert(revision)} className="text-xs text-blue-400 hover:text-blue-300">{t('revisions.revert')}</button>}
+                            </div>
+                            {!previous ? (
+                                <p className="text-sm text-gray-500">{revision.savedAt ? t('revisions.first') : t('revisions.untracked')}</p>
+                            ) : changes.length === 0 ? (
+                                <p className="text-sm text-gray-500">{t('revisions.unchanged')}</p>
+                            ) : (
+                                <ul className="text-sm text-gray-400 space-y-1">
+                                    {changes.map(change => change.field === 'review' ? (
+                                        <li key={change.field}>
+                                            <details>
+                                                <summary className="cursor-pointer">{t('revisions.reviewChanged')}</summary>
+                                                <TextDiff before={change.before} after={change.after} />
+                                            </details>
+                                        </li>
+                                    ) : (
+                                        <li key={change.field}>
+                                            {change.label}: <del className="text-red-300">{change.before || '—'}</del> &rarr; <ins className="no-underline text-green-300">{change.after || '—'}</ins>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </section>
+    );
+};
+
+interface ActivityDetailProps {
+    item: Activity;
+    revisions: Revision[]; // oldest first
+    onBack: () => void;
+    onEdit: (item: Activity) => void;
+    onDelete: (id: string) => void;
+    onPromote: (item: Activity) => void;
+    onRevert: (revision: Revision) => void;
+}
+
+/** A single entry with its full rendered review, every earlier session and its revision history. */
+export const ActivityDetail: React.FC<ActivityDetailProps> = ({ item, revisions, onBack, onEdit, onDelete, onPromote, onRevert }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const definition = activityTypeFor(item.type);
+    const text = i18n.type(item.type);
+    const { Facts } = viewFor(item.type);
+    const cover = definition.cover?.(item);
+    // The latest session is mirrored in the top-level fields shown above.
+    const earlierSessions = [...item.sessions].reverse().slice(1);
+
+    return (
+        <article>
+            <button onClick={onBack} className="text-sm text-blue-400 hover:text-blue-300 mb-4">&larr; {t('detail.back')}</button>
+            <div className="flex flex-col md:flex-row gap-8">
+                {cover && <img crossOrigin="anonymous" src={cover} alt={item.title} className="w-48 rounded-lg shadow-lg self-start" />}
+                <div className="flex-grow min-w-0">
+                    <p className="text-sm uppercase tracking-wide text-gray-400">{text.singular}</p>
+                    <h2 className="text-3xl font-bold mb-1">{item.title}</h2>
+                    <p className="text-gray-400 mb-3">{definition.describe(item, i18n)}</p>
+                    {Facts && <Facts item={item} />}
+                    <div><StatusBadge item={item} /></div>
+                    <div className="flex items-center space-x-3 mb-3">
+                        <StarRating rating={item.rating} readOnly />
+                        <span className="text-sm text-gray-400">{t('detail.dated', { label: text.dateLabels[item.status], date: i18n.formatDate(item.date) })}</span>
+                    </div>
+                    {item.sessions.length > 1 && <p className="text-sm text-blue-300 mb-3">↻ {describeRepeatCount(item, i18n)}</p>}
+                    {visibilityOf(item) !== 'public' && <p className="text-sm text-gray-400 mb-3">🔒 {t(`visibility.${visibilityOf(item)}`)}</p>}
+                    <TagList tags={item.tags} />
+                    <div className="flex space-x-2 mb-8">
+                        <CardActions item={item} onEdit={onEdit} onDelete={onDelete} onPromote={onPromote} />
+                    </div>
+                    <h3 className="text-lg font-semibold text-white mb-3">{t('field.review')}</h3>
+                    {item.review.trim() ? <MarkdownView source={item.review} className="max-w-3xl" /> : <p className="text-gray-500">{t('detail.noReviewYet')}</p>}
+                    {earlierSessions.length > 0 && (
+                        <section className="mt-10 max-w-3xl">
+                            <h3 className="text-lg font-semibold text-white mb-3">{t('sessions.earlier')}</h3>
+                            <ol className="space-y-6">
+                                {earlierSessions.map(session => (
+                                    <li key={session.id} className="border-l-2 border-gray-700 pl-4">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <span className="text-sm text-gray-400">{i18n.formatDate(session.date)}</span>
+                                            <StarRating rating={session.rating} readOnly />
+                                        </div>
+                                        {session.review.trim() ? <MarkdownView source={session.review} className="text-sm" /> : <p className="text-sm text-gray-500">{t('detail.noReview')}</p>}
+                                    </li>
+                                ))}
+                            </ol>
+                        </section>
+                    )}
+                    {revisions.length > 0 && <RevisionHistory item={item} revisions={revisions} onRevert={onRevert} />}
+                </div>
+            </div>
+        </article>
+    );
+};
+
+
+// --- Activity Views ---
+
+interface ActivityView<K extends ActivityType> {
+    Card: React.FC<CardProps<ActivityOf<K>>>;
+    FormExtras?: React.FC<FormExtrasProps<ActivityOf<K>>>;
+    /** Type-specific lines on the detail page. */
+    Facts?: React.FC<{ item: ActivityOf<K> }>;
+}
+
+/** The UI half of the activity type registry; labels, fields and lookups live in `activityTypes`. */
+export const activityViews: { [K in ActivityType]: ActivityView<K> } = {
+    movie: { Card: MovieCard, FormExtras: MovieFormExtras, Facts: MovieFacts },
+    series: { Card: SeriesCard, FormExtras: SeriesFormExtras, Facts: SeriesFacts },
+    book: { Card: BookCard, Facts: BookFacts },
+    event: { Card: EventCard, FormExtras: EventFormExtras, Facts: EventFacts },
+};
+
+/** Looks up the view for an item's own type; the cast is safe because `activityViews` is keyed by type. */
+export const viewFor = (type: ActivityType) => activityViews[type] as unknown as ActivityView<ActivityType>;
+
+
+// --- Settings ---
+
+interface SettingsPanelProps {
+    settings: AppSettings;
+    onChange: (settings: AppSettings) => void;
+    onClose: () => void;
+}
+
+const RATING_PREVIEW = 3.5;
+
+// Suggestions only; TMDB accepts any ISO 639-1 language with an optional region, e.g. "pt-BR".
+const TMDB_LANGUAGE_SUGGESTIONS = ['en-US', 'ko-KR', 'ja-JP', 'zh-CN', 'fr-FR', 'de-DE', 'es-ES'];
+
+const TmdbSettingsFields: React.FC<{ tmdb: TmdbSettings; locale: Locale; onChange: (tmdb: TmdbSettings) => void }> = ({ tmdb, locale, onChange }) => {
+    const { t } = useI18n();
+    const [test, setTest] = useState<{ state: 'idle' | 'testing' | 'ok' } | { state: 'failed'; message: string }>({ state: 'idle' });
+    const update = (changes: Partial<TmdbSettings>) => {
+        setTest({ state: 'idle' });
+        onChange({ ...tmdb, ...changes });
+    };
+
+    const handleTest = async () => {
+        setTest({ state: 'testing' });
+        try {
+            await tmdbService.testConnection();
+            setTest({ state: 'ok' });
+        } catch (error) {
+            setTest({ state: 'failed', message: error instanceof TmdbError ? t(`tmdbError.${error.reason}`) : error instanceof OfflineError ? t('offline.youAreOffline') : t('settings.testFailed') });
+        }
+    };
+
+    return (
+        <fieldset className={commonFormSectionClasses}>
+            <legend className={commonLabelClasses}>{t('settings.tmdb')}</legend>
+            <div className="space-y-3">
+                <div>
+                    <label htmlFor="tmdbApiKey" className={commonLabelClasses}>{t('settings.apiKey')}</label>
+                    <input
+                        id="tmdbApiKey"
+                        type="password"
+                        autoComplete="off"
+                        value={tmdb.apiKey}
+                        onChange={e => update({ apiKey: e.target.value.trim() })}
+                        placeholder={TMDB_API_KEY ? t('settings.apiKeyFromEnv') : t('settings.apiKeyPlaceholder')}
+                        className={commonInputClasses}
+                    />
+                    <p className="text-xs text-gray-400 mt-1">{t('settings.apiKeyHint')}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="tmdbLanguage" className={commonLabelClasses}>{t('settings.tmdbLanguage')}</label>
+                        <input id="tmdbLanguage" list="tmdbLanguages" value={tmdb.language} onChange={e => update({ language: e.target.value.trim() })} placeholder={TMDB_LANGUAGE || LOCALE_TAGS[locale]} className={commonInputClasses} />
+                        <datalist id="tmdbLanguages">
+                            {TMDB_LANGUAGE_SUGGESTIONS.map(language => <option key={language} value={language} />)}
+                        </datalist>
+                    </div>
+                    <div>
+                        <label htmlFor="tmdbRegion" className={commonLabelClasses}>{t('settings.tmdbRegion')}</label>
+                        <input id="tmdbRegion" value={tmdb.region} maxLength={2} onChange={e => update({ region: e.target.value.trim().toUpperCase() })} placeholder={TMDB_REGION || t('settings.regionPlaceholder')} className={commonInputClasses} />
+                    </div>
+                </div>
+                <p className="text-xs text-gray-400">{t('settings.tmdbHint')}</p>
+                <div className="flex items-center space-x-3 text-sm">
+                    <button type="button" onClick={handleTest} disabled={test.state === 'testing'} className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-500 disabled:opacity-50">{t('settings.testConnection')}</button>
+                    {test.state === 'testing' && <span className="text-gray-400">{t('settings.testing')}</span>}
+                    {test.state === 'ok' && <span className="text-green-300">{t('settings.connected')}</span>}
+                    {test.state === 'failed' && <span role="alert" className="text-red-300">{test.message}</span>}
+                </div>
+            </div>
+        </fieldset>
+    );
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <div className="space-y-4">
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="locale" className={commonLabelClasses}>{t('header.language')}</label>
+                <select id="locale" value={settings.locale} onChange={e => onChange({ ...settings, locale: e.target.value as Locale })} className={commonInputClasses}>
+                    {LOCALES.map(locale => <option key={locale} value={locale}>{LOCALE_NAMES[locale]}</option>)}
+                </select>
+            </div>
+            <fieldset className={commonFormSectionClasses}>
+                <legend className={commonLabelClasses}>{t('settings.ratingScale')}</legend>
+                <div className="space-y-2">
+                    {(Object.keys(RATING_SCALES) as RatingScale[]).map(scale => (
+                        <label key={scale} className="flex items-center justify-between bg-gray-700 rounded-md px-3 py-2 text-sm text-gray-200 cursor-pointer">
+                            <span className="flex items-center space-x-2">
+                                <input type="radio" name="ratingScale" checked={settings.ratingScale === scale} onChange={() => onChange({ ...settings, ratingScale: scale })} />
+                                <span>{t(`ratingScale.${scale}`)}</span>
+                            </span>
+                            <span className="text-yellow-400">{formatRating(Math.round(RATING_PREVIEW / storedRatingStep(scale)) * storedRatingStep(scale), scale, i18n)}</span>
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">{t('settings.ratingScaleHint')}</p>
+            </fieldset>
+            <TmdbSettingsFields tmdb={settings.tmdb} locale={settings.locale} onChange={tmdb => onChange({ ...settings, tmdb })} />
+            <div className="flex justify-end">
+                <button onClick={onClose} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-500">{t('settings.done')}</button>
+            </div>
+        </div>
+    );
+};
+
+// --- Backup & Restore ---
+
+interface BackupPanelProps {
+    activities: Activity[];
+    collections: Collection[];
+    onReplace: (activities: Activity[], collections: Collection[]) => void;
+    onMerge: (plan: MergePlan, resolutions: Record<string, ConflictResolution>, collections: Collection[]) => void;
+    onClose: () => void;
+}
+
+const describeActivity = (item: Activity, scale: RatingScale, i18n: Translator): string =>
+    `${activityTypeFor(item.type).describe(item, i18n)} · ${formatRating(item.rating, scale, i18n)} · ${i18n.formatDate(item.date)}`;
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ activities, collections, onReplace, onMerge, onClose }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [backup, setBackup] = useState<LibraryBackup | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+    const mergePlan = useMemo(() => backup ? planMerge(activities, backup.activities) : null, [activities, backup]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setBackup(null);
+        setResolutions({});
+        try {
+            setBackup(parseBackup(await file.text()));
+            setErrors([]);
+        } catch (error) {
+            setErrors(error instanceof BackupValidationError ? error.issues : [t('backup.unreadable')]);
+        }
+    };
+
+    const handleApply = () => {
+        if (!backup || !mergePlan) return;
+        const message = mode === 'replace'
+            ? t('backup.confirmReplace', { count: activities.length, incoming: backup.activities.length })
+            : t('backup.confirmMerge', { count: mergePlan.additions.length, conflicts: mergePlan.conflicts.length });
+        if (!window.confirm(message)) return;
+        if (mode === 'replace') {
+            onReplace(backup.activities, backup.collections);
+        } else {
+            onMerge(mergePlan, resolutions, mergeCollections(collections, backup.collections, mergePlan.matchedIds));
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <section>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('backup.export')}</h3>
+                <p className="text-sm text-gray-400 mb-3">{t('backup.exportHint', { items: t('backup.items', { count: activities.length }), collections: t('backup.collections', { count: collections.length }) })}</p>
+                <button onClick={() => downloadBackup(activities, collections)} disabled={activities.length === 0} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white font-semibold transition-colors">{t('backup.exportButton')}</button>
+            </section>
+
+            <section>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('backup.import')}</h3>
+                <input type="file" accept="application/json,.json" onChange={handleFileChange} className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-600 file:text-white hover:file:bg-gray-500" />
+                {errors.length > 0 && (
+                    <ul className="mt-3 p-3 bg-red-900 bg-opacity-50 rounded-md text-sm text-red-200 max-h-32 overflow-y-auto list-disc list-inside">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+                {backup && mergePlan && (
+                    <div className="mt-4 space-y-4">
+                        <p className="text-sm text-gray-300">{t('backup.summary', {
+                            date: backup.exportedAt ? i18n.formatDate(backup.exportedAt, { dateStyle: 'medium', timeStyle: 'short' }) : t('backup.unknownDate'),
+                            items: t('backup.items', { count: backup.activities.length }),
+                            collections: t('backup.collections', { count: backup.collections.length }),
+                        })}</p>
+                        <div className="flex space-x-4">
+                            {(['merge', 'replace'] as ImportMode[]).map(option => (
+                                <label key={option} className="flex items-center space-x-2 text-sm text-gray-300">
+                                    <input type="radio" name="importMode" value={option} checked={mode === option} onChange={() => setMode(option)} />
+                                    <span>{t(`backup.mode.${option}`)}</span>
+                                </label>
+                            ))}
+                        </div>
+                        {mode === 'merge' && (
+                            <div className="text-sm text-gray-300 space-y-3">
+                                <p>{t('backup.mergeCounts', { added: mergePlan.additions.length, unchanged: mergePlan.unchangedCount, conflicts: mergePlan.conflicts.length })}</p>
+                                {mergePlan.conflicts.length > 0 && (
+                                    <ul className="space-y-3 max-h-64 overflow-y-auto">
+                                        {mergePlan.conflicts.map(conflict => (
+                                            <li key={conflict.incoming.id} className="p-3 bg-gray-700 rounded-md">
+                                                <p className="font-semibold text-white mb-2">{conflict.existing.title} <span className="text-xs text-gray-400">({t('backup.matchedBy', { field: t(`matchField.${conflict.matchedBy}`) })})</span></p>
+                                                {([['keepExisting', t('backup.keepExisting'), conflict.existing], ['useIncoming', t('backup.useIncoming'), conflict.incoming]] as [ConflictResolution, string, Activity][]).map(([resolution, label, item]) => (
+                                                    <label key={resolution} className="flex items-start space-x-2 mb-1">
+                                                        <input
+                                                            type="radio"
+                                                            name={`conflict-${conflict.incoming.id}`}
+                                                            checked={(resolutions[conflict.incoming.id] ?? 'keepExisting') === resolution}
+                                                            onChange={() => setResolutions(prev => ({ ...prev, [conflict.incoming.id]: resolution }))}
+                                                        />
+                                                        <span><span className="text-gray-200">{label}:</span> {item.title} — {describeActivity(item, ratingScale, i18n)}</span>
+                                                    </label>
+                                                ))}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                        {mode === 'replace' && (
+                            <p className="text-sm text-yellow-300">{t('backup.replaceWarning', { items: t('backup.items', { count: activities.length }), collections: t('backup.collections', { count: collections.length }) })}</p>
+                        )}
+                    </div>
+                )}
+            </section>
+
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.close')}</button>
+                <button type="button" onClick={handleApply} disabled={!backup} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white font-semibold transition-colors">{t('backup.apply')}</button>
+            </div>
+        </div>
+    );
+};
+
+
+// --- Public Profile ---
+
+interface SharePanelProps {
+    activities: Activity[];
+    profile: PublicProfile;
+    onProfileChange: (profile: PublicProfile) => void;
+    onExport: () => Promise<void>;
+    onClose: () => void;
+}
+
+export const SharePanel: React.FC<SharePanelProps> = ({ activities, profile, onProfileChange, onExport, onClose }) => {
+    const { t } = useI18n();
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const publishedCount = useMemo(() => publishedActivities(activities).length, [activities]);
+    const logged = activities.filter(item => isLoggedStatus(item.status));
+    const hiddenReviewCount = logged.filter(item => visibilityOf(item) === 'hideReview').length;
+    const privateCount = logged.filter(item => visibilityOf(item) === 'private').length;
+    const update = (changes: Partial<PublicProfile>) => onProfileChange({ ...profile, ...changes });
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            await onExport();
+        } catch {
+            setError(t('share.failed'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <section className="space-y-3">
+                <div>
+                    <label htmlFor="profileTitle" className={commonLabelClasses}>{t('share.siteTitle')}</label>
+                    <input id="profileTitle" type="text" value={profile.title} onChange={e => update({ title: e.target.value })} className={commonInputClasses} />
+                </div>
+                <div>
+                    <label htmlFor="profileAuthor" className={commonLabelClasses}>{t('share.author')}</label>
+                    <input id="profileAuthor" type="text" value={profile.author} onChange={e => update({ author: e.target.value })} placeholder={t('share.authorPlaceholder')} className={commonInputClasses} />
+                </div>
+                <div>
+                    <label htmlFor="profileSiteUrl" className={commonLabelClasses}>{t('share.siteUrl')}</label>
+                    <input id="profileSiteUrl" type="url" value={profile.siteUrl} onChange={e => update({ siteUrl: e.target.value.trim() })} placeholder="https://example.com/culturalog/" className={commonInputClasses} />
+                    <p className="text-xs text-gray-400 mt-1">{t('share.siteUrlHint')}</p>
+                </div>
+            </section>
+
+            <section>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('backup.export')}</h3>
+                <p className="text-sm text-gray-400 mb-1">
+                    {t('share.published', { count: publishedCount })}
+                    {hiddenReviewCount > 0 && ` ${t('share.hiddenReviews', { count: hiddenReviewCount })}`}
+                    {privateCount > 0 && ` ${t('share.privateLeftOut', { count: privateCount })}`} {t('share.backlogExcluded')}
+                </p>
+                <p className="text-sm text-gray-400 mb-3">{t('share.zipHint')}</p>
+                <button onClick={handleExport} disabled={publishedCount === 0 || isExporting} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white font-semibold transition-colors">
+                    {isExporting ? t('share.building') : t('share.exportButton')}
+                </button>
+                {error && <p role="alert" className="text-sm text-red-300 mt-2">{error}</p>}
+            </section>
+
+            <div className="flex justify-end pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.close')}</button>
+            </div>
+        </div>
+    );
+};
+
+
+// --- ISBN Cleanup ---
+
+interface IsbnCleanupPanelProps {
+    audit: IsbnAudit;
+    onNormalize: (books: Book[]) => void;
+    onEdit: (book: Book) => void;
+    onClose: () => void;
+}
+
+export const IsbnCleanupPanel: React.FC<IsbnCleanupPanelProps> = ({ audit, onNormalize, onEdit, onClose }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const issueRow = (book: Book, note: string) => (
+        <li key={book.id} className="flex items-center justify-between p-2 bg-gray-700 rounded-md text-sm">
+            <span className="min-w-0">
+                <span className="text-white">{book.title}</span>
+                <span className="text-gray-400"> · {book.isbn}</span>
+                <span className="block text-xs text-gray-400">{note}</span>
+            </span>
+            <button type="button" onClick={() => onEdit(book)} className="ml-3 text-blue-400 hover:text-blue-300">{t('card.edit')}</button>
+        </li>
+    );
+
+    return (
+        <div className="space-y-6">
+            {isbnIssueCount(audit) === 0 && <p className="text-sm text-gray-300">{t('isbn.allValid')}</p>}
+            {audit.unnormalized.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold text-white mb-2">{t('isbn.unnormalized', { count: audit.unnormalized.length })}</h3>
+                    <p className="text-sm text-gray-400 mb-3">{t('isbn.unnormalizedHint')}</p>
+                    <button type="button" onClick={() => onNormalize(audit.unnormalized)} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">{t('isbn.normalize', { count: audit.unnormalized.length })}</button>
+                </div>
+            )}
+            {audit.invalid.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold text-white mb-2">{t('isbn.invalid', { count: audit.invalid.length })}</h3>
+                    <ul className="space-y-2 max-h-48 overflow-y-auto">
+                        {audit.invalid.map(book => {
+                            const error = isbnError(book.isbn);
+                            return issueRow(book, error ? t(error) : t('isbn.notValid'));
+                        })}
+                    </ul>
+                </div>
+            )}
+            {audit.duplicates.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold text-white mb-2">{t('isbn.shared', { count: audit.duplicates.length })}</h3>
+                    <ul className="space-y-2 max-h-48 overflow-y-auto">
+                        {audit.duplicates.flatMap(group => group.map(book => issueRow(book, t('isbn.sameAs', { titles: i18n.formatList(group.filter(other => other.id !== book.id).map(other => `“${other.title}”`)) }))))}
+                    </ul>
+                </div>
+            )}
+            <div className="flex justify-end pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.close')}</button>
+            </div>
+        </div>
+    );
+};
+
+
+// --- Duplicates ---
+
+interface DuplicateGroupCardProps {
+    group: DuplicateGroup;
+    onMerge: (items: Activity[], merged: Activity) => void;
+    onSkip: () => void;
+}
+
+/** One group side by side: pick the record to keep and, per field, which entry's value wins. */
+const DuplicateGroupCard: React.FC<DuplicateGroupCardProps> = ({ group, onMerge, onSkip }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const { items } = group;
+    const text = i18n.type(items[0].type);
+    const [keepId, setKeepId] = useState(items[0].id);
+    const [choices, setChoices] = useState<Record<string, string>>({});
+    const fields = mergeFields(items[0].type);
+    const merged = mergeDuplicates(items, keepId, choices);
+    const reviewCount = merged.sessions.filter(session => session.review.trim()).length || (merged.review.trim() ? 1 : 0);
+
+    const handleMerge = () => {
+        if (!window.confirm(t('duplicates.confirmMerge', { count: items.length, title: merged.title }))) return;
+        onMerge(items, merged);
+    };
+
+    return (
+        <li className="bg-gray-700 rounded-md p-3">
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">{text.singular} · {t(`duplicateReason.${group.reason}`)}</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead>
+                        <tr>
+                            <th className="w-32" />
+                            {items.map(item => (
+                                <th key={item.id} className="p-2 font-normal align-top">
+                                    <label className="flex items-center space-x-2 text-white">
+                                        <input type="radio" name={`keep-${items[0].id}`} checked={keepId === item.id} onChange={() => { setKeepId(item.id); setChoices({}); }} />
+                                        <span>{t('duplicates.keep')}</span>
+                                    </label>
+                                    <span className="block text-xs text-gray-400 mt-1">{t('duplicates.sessions', { count: item.sessions.length })} · {text.dateLabels[item.status]} {i18n.formatDate(item.date)}</span>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {fields.map(field => {
+                            const values = items.map(item => describeMergeValue(item, field, i18n));
+                            const differs = new Set(values).size > 1;
+                            const chosen = choices[field.key] ?? keepId;
+                            return (
+                                <tr key={field.key} className="border-t border-gray-600">
+                                    <th scope="row" className="p-2 font-medium text-gray-300 align-top">{mergeFieldLabel(items[0].type, field, i18n)}</th>
+                                    {items.map((item, i) => (
+                                        <td key={item.id} className={`p-2 align-top ${differs && chosen === item.id ? 'text-white' : 'text-gray-400'}`}>
+                                            {differs ? (
+                                                <label className="flex items-start space-x-2 cursor-pointer">
+                                                    <input type="radio" name={`${field.key}-${items[0].id}`} checked={chosen === item.id} onChange={() => setChoices(prev => ({ ...prev, [field.key]: item.id }))} className="mt-1" />
+                                                    <span className="break-words min-w-0">{values[i] || '—'}</span>
+                                                </label>
+                                            ) : (values[i] || '—')}
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                        <tr className="border-t border-gray-600">
+                            <th scope="row" className="p-2 font-medium text-gray-300 align-top">{t('field.review')}</th>
+                            {items.map(item => (
+                                <td key={item.id} className="p-2 align-top text-gray-400">{item.review.trim() ? reviewExcerpt(item.review, 120, i18n).text : '—'}</td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+                {t('duplicates.result', { sessions: t('duplicates.sessions', { count: merged.sessions.length }), reviews: t('duplicates.reviews', { count: reviewCount }) })}
+                {merged.tags.length > 0 && ` ${t('duplicates.resultTags', { tags: i18n.formatList(merged.tags) })}`} {t('duplicates.sameDay')}
+            </p>
+            <div className="flex justify-end space-x-2 mt-3">
+                <button type="button" onClick={onSkip} className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('duplicates.skip')}</button>
+                <button type="button" onClick={handleMerge} className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">{t('duplicates.merge', { count: items.length })}</button>
+            </div>
+        </li>
+    );
+};
+
+interface DuplicatePanelProps {
+    groups: DuplicateGroup[];
+    onMerge: (items: Activity[], merged: Activity) => void;
+    onSkip: (group: DuplicateGroup) => void;
+    onClose: () => void;
+}
+
+export const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ groups, onMerge, onSkip, onClose }) => {
+    const { t } = useI18n();
+    return (
+        <div className="space-y-4">
+            {groups.length === 0 ? (
+                <p className="text-sm text-gray-300">{t('duplicates.none')}</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-400">{t('duplicates.hint')}</p>
+                    <ul className="space-y-4 max-h-[60vh] overflow-y-auto">
+                        {groups.map(group => (
+                            <DuplicateGroupCard key={duplicateGroupKey(group)} group={group} onMerge={onMerge} onSkip={() => onSkip(group)} />
+                        ))}
+                    </ul>
+                </>
+            )}
+            <div className="flex justify-end pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.close')}</button>
+            </div>
+        </div>
+    );
+};
+
+// --- CSV Import Wizard ---
+
+type ReviewDecision = number | 'manual' | 'skip'; // a number is the chosen TMDB id
+
+interface CsvImportWizardProps {
+    onImport: (activities: Activity[]) => void;
+    onClose: () => void;
+}
+
+const sourceLabels: Record<CsvImportSource, string> = {
+    letterboxd: 'Letterboxd',
+    goodreads: 'Goodreads',
+};
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ onImport, onClose }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [step, setStep] = useState<'select' | 'matching' | 'review'>('select');
+    const [error, setError] = useState<string | null>(null);
+    const [parsed, setParsed] = useState<ParsedCsvImport | null>(null);
+    const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [stoppedBy, setStoppedBy] = useState<TmdbErrorReason | null>(null);
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [decisions, setDecisions] = useState<Record<number, ReviewDecision>>({});
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const result = parseCsvImport(await file.text());
+            setParsed(result);
+            setError(null);
+            setStep('matching');
+            const matching = await matchMovieCandidates(result.candidates, (done, total) => setProgress({ done, total }));
+            setCandidates(matching.candidates);
+            setStoppedBy(matching.stoppedBy);
+            setStep('review');
+        } catch (err) {
+            setError(err instanceof CsvImportError ? t(`csvError.${err.reason}`) : err instanceof OfflineError ? t('offline.searchUnavailable') : t('backup.unreadable'));
+            setStep('select');
+        }
+    };
+
+    const accepted = candidates.filter(c => c.status === 'ready' || c.status === 'matched');
+    const reviewQueue = candidates.filter(c => c.status === 'ambiguous' || c.status === 'unmatched');
+    const pendingCount = reviewQueue.filter(c => decisions[c.rowNumber] === undefined).length;
+
+    const toggleExcluded = (rowNumber: number) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(rowNumber)) next.delete(rowNumber); else next.add(rowNumber);
+            return next;
+        });
+    };
+
+    const handleImport = () => {
+        const fromAccepted = accepted.filter(c => !excluded.has(c.rowNumber)).map(c => c.activity);
+        const fromQueue = reviewQueue.flatMap((c): Activity[] => {
+            const decision = decisions[c.rowNumber];
+            if (decision === 'skip' || decision === undefined) return [];
+            if (decision === 'manual') return [c.activity];
+            const match = c.matches.find(m => m.id === decision);
+            return match && c.activity.type === 'movie' ? [applyTmdbMatch(c.activity, match)] : [c.activity];
+        });
+        onImport([...fromAccepted, ...fromQueue]);
+    };
+
+    const importCount = accepted.length - excluded.size
+        + reviewQueue.filter(c => decisions[c.rowNumber] !== undefined && decisions[c.rowNumber] !== 'skip').length;
+
+    return (
+        <div className="space-y-4">
+            {step === 'select' && (
+                <div>
+                    <p className="text-sm text-gray-400 mb-3">{t('csv.chooseFile')}</p>
+                    <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-600 file:text-white hover:file:bg-gray-500" />
+                    {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+                </div>
+            )}
+
+            {step === 'matching' && (
+                <div className="text-center">
+                    <LoadingSpinner />
+                    <p className="text-sm text-gray-300">{t('csv.matching', { done: progress.done, total: progress.total })}</p>
+                </div>
+            )}
+
+            {step === 'review' && parsed && (
+                <div className="space-y-4 text-sm text-gray-300">
+                    <p>{t('csv.summary', { source: sourceLabels[parsed.source], ready: accepted.length, review: reviewQueue.length, skipped: parsed.skippedCount })}</p>
+                    {stoppedBy && <p className="text-yellow-300">{t('csv.matchingStopped', { reason: t(`tmdbError.${stoppedBy}`) })}</p>}
+
+                    {reviewQueue.length > 0 && (
+                        <section>
+                            <h3 className="text-base font-semibold text-white mb-2">{t('csv.reviewQueue', { count: pendingCount })}</h3>
+                            <ul className="space-y-3 max-h-72 overflow-y-auto">
+                                {reviewQueue.map(candidate => (
+                                    <li key={candidate.rowNumber} className="p-3 bg-gray-700 rounded-md">
+                                        <p className="font-semibold text-white mb-2">
+                                            {candidate.activity.title} {candidate.activity.type === 'movie' && candidate.activity.releaseYear && `(${candidate.activity.releaseYear})`}
+                                            <span className="ml-2 text-xs text-gray-400">{t('csv.row', { row: String(candidate.rowNumber) })} · {t(`csv.status.${candidate.status}`)}</span>
+                                        </p>
+                                        {candidate.matches.map(match => (
+                                            <label key={match.id} className="flex items-center space-x-2 mb-1">
+                                                <input type="radio" name={`row-${candidate.rowNumber}`} checked={decisions[candidate.rowNumber] === match.id} onChange={() => setDecisions(prev => ({ ...prev, [candidate.rowNumber]: match.id }))} />
+                                                <img crossOrigin="anonymous" src={match.poster_path ? `${TMDB_IMAGE_BASE_URL}${match.poster_path}` : 'https://picsum.photos/40/60'} alt="" className="w-8 h-12 object-cover rounded" />
+                                                <span>{match.title} ({match.release_date?.substring(0, 4) || '—'})</span>
+                                            </label>
+                                        ))}
+                                        {([['manual', t('csv.manual')], ['skip', t('csv.skipRow')]] as [ReviewDecision, string][]).map(([decision, label]) => (
+                                            <label key={String(decision)} className="flex items-center space-x-2 mb-1">
+                                                <input type="radio" name={`row-${candidate.rowNumber}`} checked={decisions[candidate.rowNumber] === decision} onChange={() => setDecisions(prev => ({ ...prev, [candidate.rowNumber]: decision }))} />
+                                                <span>{label}</span>
+                                            </label>
+                                        ))}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+
+                    {accepted.length > 0 && (
+                        <section>
+                            <h3 className="text-base font-semibold text-white mb-2">{t('csv.ready')}</h3>
+                            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                {accepted.map(candidate => (
+                                    <li key={candidate.rowNumber}>
+                                        <label className="flex items-center space-x-2">
+                                            <input type="checkbox" checked={!excluded.has(candidate.rowNumber)} onChange={() => toggleExcluded(candidate.rowNumber)} />
+                                            <span>{candidate.activity.title} <span className="text-gray-500">· {formatRating(candidate.activity.rating, ratingScale, i18n)} · {i18n.formatDate(candidate.activity.date)}</span></span>
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.cancel')}</button>
+                {step === 'review' && (
+                    <button type="button" onClick={handleImport} disabled={pendingCount > 0 || importCount === 0} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white font-semibold transition-colors">
+                        {pendingCount > 0 ? t('csv.reviewMore', { count: pendingCount }) : t('csv.import', { count: importCount })}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+
+// --- Collections ---
+
+const describeCollectionMix = (items: Activity[], i18n: Translator): string =>
+    items.length === 0 ? i18n.t('collections.empty') : ACTIVITY_TYPES
+        .map(type => ({ type, count: items.filter(item => item.type === type).length }))
+        .filter(({ count }) => count > 0)
+        .map(({ type, count }) => i18n.format(i18n.type(type).count, { count }))
+        .join(' · ');
+
+interface CollectionListProps {
+    collections: Collection[];
+    activities: Activity[];
+    onOpen: (id: string) => void;
+}
+
+export const CollectionList: React.FC<CollectionListProps> = ({ collections, activities, onOpen }) => {
+    const i18n = useI18n();
+    if (collections.length === 0) {
+        return (
+            <div className="text-center py-20">
+                <h2 className="text-2xl text-gray-400">{i18n.t('collections.none')}</h2>
+                <p className="text-gray-500 mt-2">{i18n.t('collections.noneHint')}</p>
+            </div>
+        );
+    }
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...collections].sort((a, b) => a.name.localeCompare(b.name, LOCALE_TAGS[i18n.locale])).map(collection => {
+                const items = collectionItems(collection, activities);
+                return (
+                    <button key={collection.id} onClick={() => onOpen(collection.id)} className="bg-gray-800 rounded-lg p-4 shadow-lg text-left hover:bg-gray-700 transition-colors flex flex-col">
+                        <h3 className="text-lg font-bold text-white">{collection.name}</h3>
+                        <p className="text-xs text-gray-400 mb-2">{describeCollectionMix(items, i18n)}</p>
+                        {collection.description && <p className="text-sm text-gray-300 mb-3">{collection.description.substring(0, 120)}{collection.description.length > 120 && '...'}</p>}
+                        <span className="mt-auto flex gap-1">
+                            {items.slice(0, 6).map(item => <EntryThumbnail key={item.id} activity={item} large />)}
+                        </span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+interface CollectionFormProps {
+    collection: Collection;
+    onSave: (collection: Collection) => void;
+    onClose: () => void;
+}
+
+export const CollectionForm: React.FC<CollectionFormProps> = ({ collection, onSave, onClose }) => {
+    const { t } = useI18n();
+    const [name, setName] = useState(collection.name);
+    const [description, setDescription] = useState(collection.description);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...collection, name: name.trim(), description: description.trim() });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="collectionName" className={commonLabelClasses}>{t('collections.name')}</label>
+                <input id="collectionName" type="text" value={name} onChange={e => setName(e.target.value)} required placeholder={t('collections.namePlaceholder')} className={commonInputClasses} />
+            </div>
+            <div className={commonFormSectionClasses}>
+                <label htmlFor="collectionDescription" className={commonLabelClasses}>{t('collections.description')}</label>
+                <textarea id="collectionDescription" value={description} onChange={e => setDescription(e.target.value)} rows={3} className={commonInputClasses}></textarea>
+            </div>
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.cancel')}</button>
+                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-white font-semibold transition-colors">{t('collections.save')}</button>
+            </div>
+        </form>
+    );
+};
+
+const MAX_COLLECTION_SEARCH_RESULTS = 8;
+
+interface CollectionPageProps {
+    collection: Collection;
+    activities: Activity[];
+    onChange: (collection: Collection) => void;
+    onOpenItem: (item: Activity) => void;
+    onEdit: () => void;
+    onDelete: () => void;
+    onBack: () => void;
+}
+
+export const CollectionPage: React.FC<CollectionPageProps> = ({ collection, activities, onChange, onOpenItem, onEdit, onDelete, onBack }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [search, setSearch] = useState('');
+    const items = useMemo(() => collectionItems(collection, activities), [collection, activities]);
+    const candidates = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        if (!term) return [];
+        return activities
+            .filter(item => !collection.itemIds.includes(item.id) && item.title.toLowerCase().includes(term))
+            .slice(0, MAX_COLLECTION_SEARCH_RESULTS);
+    }, [search, activities, collection.itemIds]);
+    const iconButtonClasses = "px-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400";
+
+    return (
+        <section>
+            <button onClick={onBack} className="text-sm text-blue-400 hover:text-blue-300 mb-2">&larr; {t('collections.all')}</button>
+            <div className="flex justify-between items-start mb-6">
+                <div>
+                    <h2 className="text-3xl font-bold">{collection.name}</h2>
+                    <p className="text-sm text-gray-400 mt-1">{describeCollectionMix(items, i18n)}</p>
+                    {collection.description && <p className="text-gray-300 mt-2 max-w-2xl whitespace-pre-line">{collection.description}</p>}
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                    <button onClick={onEdit} className="text-sm bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition-colors">{t('card.edit')}</button>
+                    <button onClick={onDelete} className="text-sm bg-red-600 hover:bg-red-500 text-white py-1 px-3 rounded transition-colors">{t('card.delete')}</button>
+                </div>
+            </div>
+
+            <div className="relative mb-6 max-w-xl">
+                <label htmlFor="collectionSearch" className={commonLabelClasses}>{t('collections.add')}</label>
+                <input id="collectionSearch" type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder={t('collections.searchPlaceholder')} className={commonInputClasses} />
+                {candidates.length > 0 && (
+                    <ul className="absolute z-10 w-full bg-gray-700 border border-gray-600 rounded-md mt-1 max-h-72 overflow-y-auto">
+                        {candidates.map(item => (
+                            <li key={item.id}>
+                                <button onClick={() => { onChange(addToCollection(collection, item.id)); setSearch(''); }} className="w-full p-2 hover:bg-blue-600 text-left text-white flex items-center space-x-3">
+                                    <EntryThumbnail activity={item} large />
+                                    <span className="min-w-0">
+                                        <span className="block truncate">{item.title}</span>
+                                        <span className="block text-xs text-gray-300 truncate">{i18n.type(item.type).singular} · {activityTypeFor(item.type).describe(item, i18n)}</span>
+                                    </span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {items.length === 0 ? (
+                <p className="text-gray-400">{t('collections.emptyHint')}</p>
+            ) : (
+                <ol className="space-y-2">
+                    {items.map((item, index) => {
+                        const definition = activityTypeFor(item.type);
+                        const text = i18n.type(item.type);
+                        return (
+                            <li key={item.id} className="flex items-center space-x-3 p-2 bg-gray-800 rounded-md">
+                                <span className="w-6 text-right text-sm text-gray-500 flex-shrink-0">{index + 1}</span>
+                                <button onClick={() => onOpenItem(item)} className="flex-grow min-w-0 flex items-center space-x-3 text-left hover:bg-gray-700 rounded p-1">
+                                    <EntryThumbnail activity={item} large />
+                                    <span className="min-w-0">
+                                        <span className="block text-white truncate">{item.title}</span>
+                                        <span className="block text-xs text-gray-400 truncate">{text.singular} · {definition.describe(item, i18n)} · {text.statusLabels[item.status]}</span>
+                                    </span>
+                                </button>
+                                <button onClick={() => onChange(moveInCollection(collection, item.id, -1))} disabled={index === 0} aria-label={t('collections.moveUp', { title: item.title })} className={iconButtonClasses}>&uarr;</button>
+                                <button onClick={() => onChange(moveInCollection(collection, item.id, 1))} disabled={index === items.length - 1} aria-label={t('collections.moveDown', { title: item.title })} className={iconButtonClasses}>&darr;</button>
+                                <button onClick={() => onChange(removeFromCollection(collection, item.id))} aria-label={t('collections.remove', { title: item.title })} className="px-2 text-gray-400 hover:text-red-400">&times;</button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </section>
+    );
+};
+
+
+// --- Upcoming Events ---
+
+interface UpcomingEventsProps {
+    events: Event[]; // soonest first, see `upcomingEvents`
+    onEdit: (event: Event) => void;
+}
+
+export const UpcomingEvents: React.FC<UpcomingEventsProps> = ({ events, onEdit }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <section className="bg-gray-800 rounded-lg p-4 shadow-lg mb-6">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="text-lg font-semibold text-white">{t('events.upcoming')} <span className="text-sm font-normal text-gray-400">· {i18n.formatNumber(events.length)}</span></h3>
+                <button onClick={() => downloadIcs(events)} className="text-sm text-blue-400 hover:text-blue-300">{t('events.exportIcs')}</button>
+            </div>
+            <ul className="divide-y divide-gray-700">
+                {events.map(event => (
+                    <li key={event.id}>
+                        <button onClick={() => onEdit(event)} className="w-full flex items-center justify-between py-2 text-left hover:bg-gray-700 rounded px-2">
+                            <span className="min-w-0">
+                                <span className="block text-white truncate">{event.title}</span>
+                                <span className="block text-xs text-gray-400 truncate">{[event.venue, event.seat && t('event.seat', { seat: event.seat })].filter(Boolean).join(' · ')}</span>
+                            </span>
+                            <span className="text-sm text-gray-300 ml-4 flex-shrink-0 text-right">{describeSchedule(event, i18n)}</span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+};
+
+
+// --- Calendar & Timeline ---
+
+// 2023-01-01 was a Sunday, the first column of `monthGrid`.
+const WEEKDAYS = Array.from({ length: 7 }, (_, i) => `2023-01-0${i + 1}`);
+const MAX_DAY_CELL_ENTRIES = 4;
+
+const formatMonth = (month: string, i18n: Translator): string =>
+    i18n.formatDate(`${month}-01`, { month: 'long', year: 'numeric' });
+
+/** A poster or cover when the type has one, otherwise a chip in the type's chart color. */
+const EntryThumbnail: React.FC<{ activity: Activity; large?: boolean }> = ({ activity, large = false }) => {
+    const definition = activityTypeFor(activity.type);
+    const src = definition.thumbnail?.(activity);
+    if (src) {
+        return <img crossOrigin="anonymous" src={src} alt={activity.title} title={activity.title} loading="lazy" className={`${large ? 'w-10 h-14' : 'w-6 h-9'} object-cover rounded flex-shrink-0`} />;
+    }
+    return large
+        ? <span title={activity.title} className={`w-10 h-14 ${definition.color} rounded flex-shrink-0 flex items-center justify-center text-white font-bold`}>{activity.title.charAt(0)}</span>
+        : <span title={activity.title} className={`w-full ${definition.color} rounded px-1 text-[10px] text-white truncate`}>{activity.title}</span>;
+};
+
+interface CalendarViewProps {
+    entries: CalendarEntry[];
+    month: string; // YYYY-MM
+    onMonthChange: (month: string) => void;
+    onSelectDay: (day: string) => void;
+}
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ entries, month, onMonthChange, onSelectDay }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const byDay = useMemo(() => entriesByDay(entries), [entries]);
+    const today = localToday();
+    const navButtonClasses = "px-3 py-1 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white";
+
+    return (
+        <section className="bg-gray-800 rounded-lg p-4 shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <button onClick={() => onMonthChange(shiftMonth(month, -1))} aria-label={t('calendar.previousMonth')} className={navButtonClasses}>&larr;</button>
+                <div className="flex items-center space-x-3">
+                    <h3 className="text-lg font-semibold text-white">{formatMonth(month, i18n)}</h3>
+                    {month !== today.substring(0, 7) && (
+                        <button onClick={() => onMonthChange(today.substring(0, 7))} className="text-sm text-blue-400 hover:text-blue-300">{t('calendar.today')}</button>
+                    )}
+                </div>
+                <button onClick={() => onMonthChange(shiftMonth(month, 1))} aria-label={t('calendar.nextMonth')} className={navButtonClasses}>&rarr;</button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-xs text-gray-400 mb-1">
+                {WEEKDAYS.map(day => <div key={day} className="text-center">{i18n.formatDate(day, { weekday: 'short' })}</div>)}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+                {monthGrid(month).flat().map((day, i) => {
+                    if (!day) return <div key={`blank-${i}`} />;
+                    const dayEntries = byDay.get(day) ?? [];
+                    return (
+                        <button
+                            key={day}
+                            onClick={() => onSelectDay(day)}
+                            aria-label={t('calendar.dayLabel', { date: i18n.formatDate(day), count: dayEntries.length })}
+                            className={`min-h-[6rem] p-1 rounded-md bg-gray-900 hover:bg-gray-700 text-left flex flex-col ${day === today ? 'ring-2 ring-blue-500' : ''}`}
+                        >
+                            <span className="text-xs text-gray-400">{i18n.formatNumber(Number(day.substring(8)))}</span>
+                            <span className="mt-1 flex flex-wrap gap-1">
+                                {dayEntries.slice(0, MAX_DAY_CELL_ENTRIES).map(entry => <EntryThumbnail key={entry.session.id} activity={entry.activity} />)}
+                                {dayEntries.length > MAX_DAY_CELL_ENTRIES && <span className="text-[10px] text-gray-400">{t('calendar.more', { count: dayEntries.length - MAX_DAY_CELL_ENTRIES })}</span>}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+        </section>
+    );
+};
+
+const EntryRow: React.FC<{ entry: CalendarEntry; dateLabel?: string; onOpen: (activity: Activity) => void }> = ({ entry, dateLabel, onOpen }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const definition = activityTypeFor(entry.activity.type);
+    return (
+        <button onClick={() => onOpen(entry.activity)} className="w-full flex items-center space-x-3 p-2 bg-gray-800 hover:bg-gray-700 rounded-md text-left">
+            {dateLabel && <span className="text-sm text-gray-400 w-14 flex-shrink-0">{dateLabel}</span>}
+            <EntryThumbnail activity={entry.activity} large />
+            <span className="flex-grow min-w-0">
+                <span className="block text-white truncate">{entry.activity.title}</span>
+                <span className="block text-xs text-gray-400 truncate">{i18n.type(entry.activity.type).singular} · {definition.describe(entry.activity, i18n)}</span>
+            </span>
+            <span className="text-yellow-400 text-sm flex-shrink-0">{entry.session.rating > 0 ? formatRating(entry.session.rating, ratingScale, i18n) : ''}</span>
+        </button>
+    );
+};
+
+interface TimelineViewProps {
+    entries: CalendarEntry[];
+    year: number;
+    onYearChange: (year: number) => void;
+    onOpen: (activity: Activity) => void;
+}
+
+export const TimelineView: React.FC<TimelineViewProps> = ({ entries, year, onYearChange, onOpen }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const years = useMemo(() => [...new Set([year, ...entryYears(entries)])].sort((a, b) => b - a), [entries, year]);
+    const months = useMemo(() => timelineForYear(entries, year), [entries, year]);
+    const navButtonClasses = "px-3 py-1 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white";
+
+    return (
+        <section>
+            <div className="flex items-center space-x-2 mb-6">
+                <button onClick={() => onYearChange(year - 1)} aria-label={t('timeline.previousYear')} className={navButtonClasses}>&larr;</button>
+                <select value={year} onChange={e => onYearChange(Number(e.target.value))} aria-label={t('timeline.year')} className="p-1 bg-gray-700 border border-gray-600 rounded-md text-white">
+                    {years.map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+                <button onClick={() => onYearChange(year + 1)} aria-label={t('timeline.nextYear')} className={navButtonClasses}>&rarr;</button>
+            </div>
+            {months.length === 0 ? (
+                <p className="text-gray-400">{t('timeline.empty', { year: String(year) })}</p>
+            ) : (
+                <ol className="border-l-2 border-gray-700 ml-2 space-y-8">
+                    {months.map(({ month, entries: monthEntries }) => (
+                        <li key={month} className="relative pl-6">
+                            <span className="absolute -left-[9px] top-1.5 w-4 h-4 rounded-full bg-blue-500 border-2 border-gray-900" />
+                            <h3 className="text-lg font-semibold text-white mb-3">{formatMonth(month, i18n)} <span className="text-sm font-normal text-gray-400">· {i18n.formatNumber(monthEntries.length)}</span></h3>
+                            <ul className="space-y-2">
+                                {monthEntries.map(entry => (
+                                    <li key={entry.session.id}>
+                                        <EntryRow entry={entry} dateLabel={i18n.formatDate(entry.day, { month: 'short', day: 'numeric' })} onOpen={onOpen} />
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </section>
+    );
+};
+
+interface DayPanelProps {
+    day: string; // YYYY-MM-DD
+    entries: CalendarEntry[];
+    onEdit: (activity: Activity) => void;
+    onAdd: (activity: Activity) => Promise<void> | void;
+    onClose: () => void;
+    knownTags: string[];
+    library: Activity[];
+}
+
+/** The entries logged on one calendar day, plus a quick-add form dated that day. */
+export const DayPanel: React.FC<DayPanelProps> = ({ day, entries, onEdit, onAdd, onClose, knownTags, library }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const [addingType, setAddingType] = useState<ActivityType | null>(null);
+
+    const handleAdd = async (activity: Activity) => {
+        await onAdd(activity);
+        setAddingType(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('calendar.emptyDay')}</p>
+            ) : (
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                    {entries.map(entry => <li key={entry.session.id}><EntryRow entry={entry} onOpen={onEdit} /></li>)}
+                </ul>
+            )}
+            {addingType ? (
+                <div className="border-t border-gray-700 pt-4">
+                    <h3 className="text-lg font-semibold text-white mb-3">{t('form.logNew', { type: i18n.type(addingType).singular })}</h3>
+                    <ActivityForm key={addingType} type={addingType} defaultDate={day} knownTags={knownTags} library={library} onSave={handleAdd} onClose={() => setAddingType(null)} />
+                </div>
+            ) : (
+                <>
+                    <div className="border-t border-gray-700 pt-4">
+                        <p className={commonLabelClasses}>{t('calendar.quickAdd')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {ACTIVITY_TYPES.map(type => (
+                                <button key={type} onClick={() => setAddingType(type)} className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors">+ {i18n.type(type).singular}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex justify-end pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-md text-white transition-colors">{t('common.close')}</button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+
+// --- Trash ---
+
+interface TrashViewProps {
+    entries: TrashedActivity[];
+    onRestore: (entry: TrashedActivity) => void;
+    onPurge: (entry: TrashedActivity) => void;
+    onEmpty: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ entries, onRestore, onPurge, onEmpty }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    if (entries.length === 0) {
+        return (
+            <div className="text-center py-20">
+                <h2 className="text-2xl text-gray-400">{t('trash.empty')}</h2>
+                <p className="text-gray-500 mt-2">{t('trash.emptyHint')}</p>
+            </div>
+        );
+    }
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-400">{t('trash.hint')}</p>
+                <button onClick={onEmpty} className="px-3 py-1 text-sm text-red-300 border border-red-700 rounded-md hover:bg-red-900">{t('trash.emptyTrash')}</button>
+            </div>
+            <ul className="space-y-2">
+                {[...entries].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)).map(entry => {
+                    const definition = activityTypeFor(entry.activity.type);
+                    return (
+                        <li key={entry.activity.id} className="flex items-center space-x-3 p-2 bg-gray-800 rounded-md">
+                            <EntryThumbnail activity={entry.activity} large />
+                            <span className="flex-grow min-w-0">
+                                <span className="block text-white truncate">{entry.activity.title}</span>
+                                <span className="block text-xs text-gray-400 truncate">{i18n.type(entry.activity.type).singular} · {definition.describe(entry.activity, i18n)} · {t('trash.deletedAt', { date: i18n.formatDate(entry.deletedAt, { dateStyle: 'medium', timeStyle: 'short' }) })}</span>
+                            </span>
+                            <button onClick={() => onRestore(entry)} className="px-3 py-1 text-sm text-blue-300 hover:text-blue-200">{t('trash.restore')}</button>
+                            <button onClick={() => onPurge(entry)} className="px-3 py-1 text-sm text-red-400 hover:text-red-300">{t('trash.purge')}</button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+// --- Stats Dashboard ---
+
+interface ChartCardProps {
+    title: string;
+    years: number[];
+    children: (year: number | null) => React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, years, children }) => {
+    const { t } = useI18n();
+    const [year, setYear] = useState<number | null>(null);
+    return (
+        <section className="bg-gray-800 rounded-lg p-4 shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-white">{title}</h3>
+                <select
+                    value={year ?? ''}
+                    onChange={e => setYear(e.target.value ? Number(e.target.value) : null)}
+                    aria-label={t('stats.yearOf', { chart: title })}
+                    className="p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                >
+                    <option value="">{t('stats.allYears')}</option>
+                    {years.map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+            </div>
+            {children(year)}
+        </section>
+    );
+};
+
+interface BarListProps {
+    rows: { label: string; value: number; detail?: string }[];
+    emptyText?: string;
+}
+
+const BarList: React.FC<BarListProps> = ({ rows, emptyText }) => {
+    const i18n = useI18n();
+    if (rows.length === 0) return <p className="text-sm text-gray-500">{emptyText ?? i18n.t('stats.nothingLogged')}</p>;
+    const max = Math.max(...rows.map(row => row.value), 1);
+    return (
+        <ul className="space-y-2">
+            {rows.map(row => (
+                <li key={row.label} className="text-sm">
+                    <div className="flex justify-between text-gray-300 mb-1">
+                        <span className="truncate mr-2">{row.label}</span>
+                        <span className="text-gray-400 whitespace-nowrap">{i18n.formatNumber(row.value)}{row.detail && ` · ${row.detail}`}</span>
+                    </div>
+                    <div className="h-2 bg-gray-700 rounded">
+                        <div className="h-2 bg-blue-500 rounded" style={{ width: `${(row.value / max) * 100}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const MonthlyChart: React.FC<{ data: MonthlyActivityCount[] }> = ({ data }) => {
+    const i18n = useI18n();
+    if (data.every(entry => Object.values(entry.counts).every(count => count === 0))) {
+        return <p className="text-sm text-gray-500">{i18n.t('stats.nothingLogged')}</p>;
+    }
+    const formatChartMonth = (month: string) => i18n.formatDate(`${month}-01`, { month: 'short', year: 'numeric' });
+    const totalOf = (entry: MonthlyActivityCount) => ACTIVITY_TYPES.reduce((sum, type) => sum + entry.counts[type], 0);
+    const max = Math.max(...data.map(totalOf), 1);
+    return (
+        <div>
+            <div className="flex items-end h-40 space-x-1 overflow-x-auto">
+                {data.map(entry => (
+                    <div key={entry.month} className="flex-1 min-w-[12px] h-full flex flex-col justify-end" title={`${formatChartMonth(entry.month)}: ${i18n.formatList(ACTIVITY_TYPES.map(type => i18n.format(i18n.type(type).count, { count: entry.counts[type] })))}`}>
+                        {[...ACTIVITY_TYPES].reverse().map(type => entry.counts[type] > 0 && (
+                            <div key={type} className={activityTypes[type].color} style={{ height: `${(entry.counts[type] / max) * 100}%` }} />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{formatChartMonth(data[0].month)}</span>
+                <span>{formatChartMonth(data[data.length - 1].month)}</span>
+            </div>
+            <div className="flex space-x-4 text-xs text-gray-400 mt-2">
+                {ACTIVITY_TYPES.map(type => (
+                    <span key={type} className="flex items-center"><span className={`w-3 h-3 mr-1 rounded-sm ${activityTypes[type].color}`} />{i18n.type(type).label}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const StatsDashboard: React.FC<{ activities: Activity[] }> = ({ activities }) => {
+    const { ratingScale } = useSettings();
+    const i18n = useI18n();
+    const { t } = i18n;
+    const formatAverage = (value: number | null): string => value === null ? '—' : formatRating(value, ratingScale, i18n);
+    const entries = useMemo(() => sessionEntries(activities), [activities]);
+    const years = useMemo(() => availableYears(entries), [entries]);
+
+    if (entries.length === 0) {
+        return (
+            <div className="text-center py-20">
+                <h2 className="text-2xl text-gray-400">{t('stats.none')}</h2>
+                <p className="text-gray-500 mt-2">{t('stats.noneHint')}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard title={t('stats.perMonth')} years={years}>
+                {year => <MonthlyChart data={activitiesPerMonth(entries, year)} />}
+            </ChartCard>
+            <ChartCard title={t('stats.ratingDistribution')} years={years}>
+                {year => (
+                    <BarList rows={ratingDistribution(filterByYear(entries, year), storedRatingStep(ratingScale))
+                        .map(({ rating, count }) => ({ label: rating === 0 ? t('sessions.unrated') : formatRating(rating, ratingScale, i18n), value: count }))
+                        .reverse()} />
+                )}
+            </ChartCard>
+            <ChartCard title={t('stats.averageByType')} years={years}>
+                {year => {
+                    const averages = averageRatingByType(filterByYear(entries, year));
+                    return (
+                        <div className="grid grid-cols-4 gap-4 text-center">
+                            {ACTIVITY_TYPES.map(type => (
+                                <div key={type}>
+                                    <p className="text-3xl font-bold text-white">{formatAverage(averages[type])}</p>
+                                    <p className="text-sm text-gray-400">{i18n.type(type).label}</p>
+                                </div>
+                            ))}
+                        </div>
+                    );
+                }}
+            </ChartCard>
+            <ChartCard title={t('stats.releaseDecades')} years={years}>
+                {year => <BarList rows={releaseDecades(filterByYear(entries, year)).map(d => ({ label: t('stats.decade', { decade: String(d.decade) }), value: d.count }))} emptyText={t('stats.noReleaseYears')} />}
+            </ChartCard>
+            <ChartCard title={t('stats.topAuthors')} years={years}>
+                {year => <BarList rows={topAuthors(filterByYear(entries, year)).map(a => ({ label: a.label, value: a.count, detail: t('stats.average', { rating: formatAverage(a.averageRating) }) }))} emptyText={t('stats.noBooks')} />}
+            </ChartCard>
+            <ChartCard title={t('stats.topVenues')} years={years}>
+                {year => <BarList rows={topVenues(filterByYear(entries, year)).map(v => ({ label: v.label, value: v.count, detail: t('stats.average', { rating: formatAverage(v.averageRating) }) }))} emptyText={t('stats.noEvents')} />}
+            </ChartCard>
+        </div>
     );
 };
@@ -1,11 +1,49 @@
 
-// IMPORTANT: Replace with your actual TMDB API key.
-// It is highly recommended to store this in an environment variable.
-export const TMDB_API_KEY = 'YOUR_TMDB_API_KEY_HERE';
+// Build-time TMDB defaults from `.env.local` (injected by vite.config.ts). The key may be a v3 API
+// key or a v4 read access token; Settings can override all three per browser. Without a language
+// TMDB results follow the app's locale.
+export const TMDB_API_KEY = process.env.TMDB_API_KEY ?? '';
+export const TMDB_LANGUAGE = process.env.TMDB_LANGUAGE ?? '';
+export const TMDB_REGION = process.env.TMDB_REGION ?? '';
 
 export const TMDB_API_BASE_URL = 'https://api.themoviedb.org/3';
 export const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/w500';
+export const TMDB_THUMBNAIL_BASE_URL = 'https://image.tmdb.org/t/p/w92';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const TMDB_CACHE_PREFIX = 'culturaLog_tmdbCache:';
+export const TMDB_SEARCH_CACHE_TTL_MS = DAY_MS;
+export const TMDB_DETAILS_CACHE_TTL_MS = 7 * DAY_MS;
+export const TMDB_CAST_LIMIT = 10;
+// Rate-limited (429) requests are retried this many times, waiting for `Retry-After` or else
+// doubling from the base delay.
+export const TMDB_MAX_RETRIES = 3;
+export const TMDB_RETRY_BASE_DELAY_MS = 1000;
+// Stored movie details older than this are refetched by the background metadata refresh.
+export const METADATA_MAX_AGE_MS = 30 * DAY_MS;
+
+export const OPEN_LIBRARY_API_BASE_URL = 'https://openlibrary.org';
+export const OPEN_LIBRARY_COVER_BASE_URL = 'https://covers.openlibrary.org/b/id';
+export const OPEN_LIBRARY_CACHE_PREFIX = 'culturaLog_openLibraryCache:';
+export const OPEN_LIBRARY_SEARCH_CACHE_TTL_MS = 7 * DAY_MS;
+export const OPEN_LIBRARY_SEARCH_LIMIT = 10;
+
+// Legacy localStorage keys, read once when migrating into IndexedDB.
 export const STORAGE_KEY_MOVIES = 'culturaLog_movies';
 export const STORAGE_KEY_BOOKS = 'culturaLog_books';
 export const STORAGE_KEY_EVENTS = 'culturaLog_events';
+
+export const STORAGE_KEY_SETTINGS = 'culturaLog_settings';
+
+export const DB_NAME = 'culturaLog';
+export const DB_STORE_ACTIVITIES = 'activities';
+export const DB_STORE_COLLECTIONS = 'collections';
+export const DB_STORE_TRASH = 'trash';
+export const DB_STORE_REVISIONS = 'revisions';
+
+export const BACKUP_FORMAT = 'culturalog-backup';
+// Bumped whenever backups gain data an older build would drop, so that build refuses them instead:
+// v2 sessions, v3 statuses, v4 tags and collections, v5 series and per-entry visibility.
+export const BACKUP_SCHEMA_VERSION = 5;
+
+export const ICS_PRODUCT_ID = '-//CulturaLog//Upcoming Events//EN';
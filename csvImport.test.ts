@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CsvImportError, matchMovieCandidates, parseCsv, parseCsvImport } from './csvImport';
+import { TmdbError } from './services';
+import type { ImportCandidate, Movie, TmdbMovieSearchResult } from './types';
+
+const csv = (...lines: string[]) => lines.join('\n');
+
+const result = (id: number, title: string, releaseDate: string): TmdbMovieSearchResult =>
+    ({ id, title, release_date: releaseDate, poster_path: `/poster-${id}.jpg` });
+
+const candidate = (rowNumber: number, title: string, releaseYear: string): ImportCandidate => ({
+    rowNumber,
+    activity: { id: `row-${rowNumber}`, type: 'movie', title, releaseYear, posterPath: null, tmdbId: 0, status: 'completed', review: '', rating: 0, date: '2024-01-01', sessions: [], tags: [] },
+    status: 'unmatched',
+    matches: [],
+});
+
+describe('parseCsv', () => {
+    it('handles quoted commas, newlines and doubled quotes', () => {
+        expect(parseCsv('Name,Review\r\n"Alien","Tense, then ""very"" tense.\nLoved it."\r\n')).toEqual([
+            ['Name', 'Review'],
+            ['Alien', 'Tense, then "very" tense.\nLoved it.'],
+        ]);
+    });
+
+    it('drops blank lines and keeps a last line without a newline', () => {
+        expect(parseCsv('a,b\n\n1,2\n ,\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+});
+
+describe('parseCsvImport', () => {
+    it('maps a Letterboxd diary, grouping rewatches into sessions of one film', () => {
+        const parsed = parseCsvImport(csv(
+            '\uFEFFDate,Name,Year,Letterboxd URI,Rating,Rewatch,Watched Date,Review',
+            '2024-01-05,Alien,1979,https://boxd.it/1,4.5,,2024-01-04,"Tense, brilliant."',
+            '2024-01-06,Aliens,1986,https://boxd.it/2,4,,2024-01-06,',
+            '2024-03-02,Alien,1979,https://boxd.it/3,5,Yes,2024-03-01,Even better.',
+            ',,,,,,,',
+        ));
+
+        expect(parsed.source).toBe('letterboxd');
+        expect(parsed.skippedCount).toBe(0);
+        expect(parsed.candidates.map(c => [c.rowNumber, c.activity.title, c.status])).toEqual([[2, 'Alien', 'unmatched'], [3, 'Aliens', 'unmatched']]);
+
+        const alien = parsed.candidates[0].activity as Movie;
+        expect(alien.releaseYear).toBe('1979');
+        expect(alien.sessions.map(s => [s.date, s.rating, s.review])).toEqual([
+            ['2024-01-04', 4.5, 'Tense, brilliant.'],
+            ['2024-03-01', 5, 'Even better.'],
+        ]);
+        expect(alien).toMatchObject({ date: '2024-03-01', rating: 5 });
+    });
+
+    it('maps a Goodreads library, shelving books by status and skipping custom shelves', () => {
+        const parsed = parseCsvImport(csv(
+            'Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Year Published,Original Publication Year,Date Read,Date Added,Exclusive Shelf,My Review',
+            '1,The Vegetarian,Han Kang,"=""1101906111""","=""9781101906118""",4,188,2016,2007,2024/03/05,2024/01/10,read,Unsettling.<br/>Beautiful.',
+            '2,Human Acts,Han Kang,"=""""","=""""",0,,2017,,,2024/02/01,to-read,',
+            '3,Greek Lessons,Han Kang,,,0,,2023,,,2024/02/02,abandoned-shelf,',
+        ));
+
+        expect(parsed.source).toBe('goodreads');
+        expect(parsed.skippedCount).toBe(1);
+        const [read, toRead] = parsed.candidates;
+        expect(read).toMatchObject({
+            rowNumber: 2,
+            status: 'ready',
+            activity: { type: 'book', title: 'The Vegetarian', author: 'Han Kang', isbn: '9781101906118', pageCount: 188, publishYear: '2007', status: 'completed', rating: 4, date: '2024-03-05', review: 'Unsettling.\nBeautiful.' },
+        });
+        expect(read.activity.sessions).toHaveLength(1);
+        expect(toRead.activity).toMatchObject({ status: 'planned', isbn: '', date: '2024-02-01', sessions: [] });
+    });
+
+    it('rejects files from other sources', () => {
+        expect(() => parseCsvImport('Title,Rating\nAlien,5')).toThrow(CsvImportError);
+        expect(() => parseCsvImport('')).toThrow(expect.objectContaining({ reason: 'unrecognizedFormat' }));
+    });
+});
+
+describe('matchMovieCandidates', () => {
+    it('applies a single result from the right year and queues the rest for review', async () => {
+        const searchMovies = vi.fn(async (query: string, options?: { year?: string }) => {
+            if (query === 'Alien') return [result(348, 'Alien', '1979-05-25')];
+            if (query === 'Dune') return options?.year ? [] : [result(438631, 'Dune', '2021-09-15'), result(841, 'Dune', '1984-12-14')];
+            if (query === 'Crash') return [result(1, 'Crash', '1996-10-04'), result(2, 'Crash', '1996-05-17')];
+            return [];
+        });
+        const onProgress = vi.fn();
+
+        const { candidates, stoppedBy } = await matchMovieCandidates(
+            [candidate(2, 'Alien', '1979'), candidate(3, 'Dune', '1983'), candidate(4, 'Crash', '1996'), candidate(5, 'Nothing Here', '2000')],
+            onProgress,
+            searchMovies,
+        );
+
+        expect(stoppedBy).toBeNull();
+        expect(candidates.map(c => c.status)).toEqual(['matched', 'ambiguous', 'ambiguous', 'unmatched']);
+        expect(candidates[0].activity).toMatchObject({ tmdbId: 348, posterPath: '/poster-348.jpg', releaseYear: '1979' });
+        expect(candidates[1].matches.map(m => m.id)).toEqual([438631, 841]);
+        expect(candidates[2].matches.map(m => m.id)).toEqual([1, 2]);
+        // Dune falls back to a title-only search after the year search comes back empty.
+        expect(searchMovies).toHaveBeenCalledWith('Dune', { year: '1983' });
+        expect(searchMovies).toHaveBeenCalledWith('Dune', { year: undefined });
+        expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+    });
+
+    it('passes books through untouched', async () => {
+        const parsed = parseCsvImport(csv('Book Id,Title,Exclusive Shelf', '1,The Vegetarian,read'));
+        const searchMovies = vi.fn();
+
+        expect(await matchMovieCandidates(parsed.candidates, undefined, searchMovies)).toEqual({ candidates: parsed.candidates, stoppedBy: null });
+        expect(searchMovies).not.toHaveBeenCalled();
+    });
+
+    it('stops searching once TMDB rejects the key, leaving the remaining movies for review', async () => {
+        const searchMovies = vi.fn().mockRejectedValue(new TmdbError('unauthorized', 401));
+
+        const { candidates, stoppedBy } = await matchMovieCandidates([candidate(2, 'Alien', '1979'), candidate(3, 'Aliens', '1986')], undefined, searchMovies);
+
+        expect(stoppedBy).toBe('unauthorized');
+        expect(candidates.map(c => c.status)).toEqual(['unmatched', 'unmatched']);
+        expect(searchMovies).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps going after a failure that only affects one search', async () => {
+        const searchMovies = vi.fn()
+            .mockRejectedValueOnce(new TmdbError('server', 500))
+            .mockResolvedValue([result(679, 'Aliens', '1986-07-18')]);
+
+        const { candidates, stoppedBy } = await matchMovieCandidates([candidate(2, 'Alien', ''), candidate(3, 'Aliens', '1986')], undefined, searchMovies);
+
+        expect(stoppedBy).toBeNull();
+        expect(candidates.map(c => c.status)).toEqual(['unmatched', 'matched']);
+    });
+});
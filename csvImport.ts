@@ -0,0 +1,242 @@
+import { cleanIsbn } from './isbn';
+import { TmdbError, tmdbService } from './services';
+import { normalizeRating } from './ratings';
+import { createSession, withSessions } from './sessions';
+import { isLoggedStatus } from './status';
+import type { ActivityStatus, Movie, Book, CsvImportErrorReason, CsvImportSource, ImportCandidate, TmdbErrorReason, TmdbMovieSearchResult } from './types';
+
+/** A file the importer can't use; the wizard shows a message for `reason`. */
+export class CsvImportError extends Error {
+    constructor(message: string, public readonly reason: CsvImportErrorReason) {
+        super(message);
+        this.name = 'CsvImportError';
+    }
+}
+
+// --- CSV Parsing ---
+
+/** Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const toRecords = (rows: string[][]): Record<string, string>[] => {
+    const [headers = [], ...body] = rows;
+    return body.map(values => Object.fromEntries(headers.map((header, i) => [header.trim(), (values[i] ?? '').trim()])));
+};
+
+export const detectCsvSource = (headers: string[]): CsvImportSource | null => {
+    const has = (name: string) => headers.some(header => header.trim() === name);
+    if (has('Letterboxd URI') && has('Name')) return 'letterboxd';
+    if (has('Book Id') && has('Exclusive Shelf')) return 'goodreads';
+    return null;
+};
+
+// --- Field Mapping ---
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/** Accepts `YYYY-MM-DD` (Letterboxd) and `YYYY/MM/DD` (Goodreads) and returns `YYYY-MM-DD`. */
+const normalizeDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+    return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : null;
+};
+
+// Letterboxd exports half stars (e.g. 3.5); Goodreads only whole ones.
+const toRating = (value: string): number => normalizeRating(parseFloat(value));
+
+/** Goodreads wraps ISBNs as `="0439023483"` to stop spreadsheets from mangling them. */
+const cleanGoodreadsIsbn = (value: string): string => value.replace(/^="?|"$/g, '');
+
+const stripHtml = (value: string): string =>
+    value.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').trim();
+
+/** Logged items get their row as the first session; backlog items (Goodreads "to-read" and "currently-reading") get none. */
+const withInitialSession = <T extends Movie | Book>(item: T): T =>
+    isLoggedStatus(item.status) ? withSessions(item, [createSession({ date: item.date, rating: item.rating, review: item.review })]) : item;
+
+const mapLetterboxdRow = (record: Record<string, string>): Movie => withInitialSession({
+    id: crypto.randomUUID(),
+    type: 'movie',
+    title: record['Name'],
+    status: 'completed',
+    releaseYear: record['Year'] ?? '',
+    posterPath: null,
+    tmdbId: 0,
+    review: record['Review'] ?? '',
+    rating: toRating(record['Rating'] ?? ''),
+    date: normalizeDate(record['Watched Date'] ?? '') ?? normalizeDate(record['Date'] ?? '') ?? today(),
+    sessions: [],
+    tags: [],
+});
+
+const goodreadsShelfStatus: Record<string, ActivityStatus> = {
+    'read': 'completed',
+    'currently-reading': 'inProgress',
+    'to-read': 'planned',
+};
+
+const mapGoodreadsRow = (record: Record<string, string>): Book => withInitialSession({
+    id: crypto.randomUUID(),
+    type: 'book',
+    title: record['Title'],
+    status: goodreadsShelfStatus[record['Exclusive Shelf']] ?? 'completed',
+    author: record['Author'] ?? '',
+    isbn: cleanIsbn(cleanGoodreadsIsbn(record['ISBN13'] ?? '') || cleanGoodreadsIsbn(record['ISBN'] ?? '')),
+    pageCount: parseInt(record['Number of Pages'] ?? '', 10) || null,
+    publishYear: record['Original Publication Year'] || record['Year Published'] || '',
+    review: stripHtml(record['My Review'] ?? ''),
+    rating: toRating(record['My Rating'] ?? ''),
+    date: normalizeDate(record['Date Read'] ?? '') ?? normalizeDate(record['Date Added'] ?? '') ?? today(),
+    sessions: [],
+    tags: [],
+});
+
+export interface ParsedCsvImport {
+    source: CsvImportSource;
+    candidates: ImportCandidate[];
+    skippedCount: number;
+}
+
+/**
+ * Turns an export file into import candidates. Goodreads rows on the "to-read" and
+ * "currently-reading" shelves become backlog items; rows on custom exclusive shelves are skipped. Letterboxd diary rows for the same film (rewatches) become sessions of a single
+ * candidate. Movie candidates start out `unmatched` until `matchMovieCandidates` runs.
+ */
+export const parseCsvImport = (text: string): ParsedCsvImport => {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    const source = detectCsvSource(rows[0] ?? []);
+    if (!source) {
+        throw new CsvImportError('Unrecognized CSV format. Use a Letterboxd diary/reviews/ratings export or a Goodreads library export.', 'unrecognizedFormat');
+    }
+
+    const records = toRecords(rows);
+    const candidates: ImportCandidate[] = [];
+    const filmCandidates = new Map<string, ImportCandidate>();
+    let skippedCount = 0;
+
+    records.forEach((record, index) => {
+        if (source === 'letterboxd' && record['Name']) {
+            const movie = mapLetterboxdRow(record);
+            const filmKey = `${movie.title.toLowerCase()}|${movie.releaseYear}`;
+            const existing = filmCandidates.get(filmKey);
+            if (existing) {
+                existing.activity = withSessions(existing.activity, [...existing.activity.sessions, ...movie.sessions]);
+            } else {
+                const candidate: ImportCandidate = { rowNumber: index + 2, activity: movie, status: 'unmatched', matches: [] };
+                filmCandidates.set(filmKey, candidate);
+                candidates.push(candidate);
+            }
+        } else if (source === 'goodreads' && record['Title'] && record['Exclusive Shelf'] in goodreadsShelfStatus) {
+            candidates.push({ rowNumber: index + 2, activity: mapGoodreadsRow(record), status: 'ready', matches: [] });
+        } else {
+            skippedCount++;
+        }
+    });
+
+    return { source, candidates, skippedCount };
+};
+
+// --- TMDB Matching ---
+
+export const applyTmdbMatch = (movie: Movie, match: TmdbMovieSearchResult): Movie => ({
+    ...movie,
+    title: match.title,
+    tmdbId: match.id,
+    posterPath: match.poster_path,
+    releaseYear: match.release_date?.substring(0, 4) || movie.releaseYear,
+});
+
+export interface MovieMatchResult {
+    candidates: ImportCandidate[];
+    stoppedBy: TmdbErrorReason | null; // set when TMDB refused further searches partway through
+}
+
+// Every later search would fail the same way, so matching stops at the first of these.
+const STOPPING_REASONS: TmdbErrorReason[] = ['notConfigured', 'unauthorized', 'rateLimited'];
+
+/**
+ * Resolves each movie candidate against TMDB by title and year. A single result in the right year
+ * is applied automatically; several results (or none in the right year) go to the review queue
+ * as `ambiguous`, and no results at all as `unmatched`. The year is sent to TMDB so common titles
+ * aren't lost past the first page; when that finds nothing (export and TMDB years can differ),
+ * the title alone is searched. Once TMDB rejects the key or the request rate, the remaining movies
+ * go to the review queue unsearched and `stoppedBy` says why.
+ */
+export const matchMovieCandidates = async (
+    candidates: ImportCandidate[],
+    onProgress?: (done: number, total: number) => void,
+    searchMovies: (query: string, options?: { year?: string }) => Promise<TmdbMovieSearchResult[]> = tmdbService.searchMovies,
+): Promise<MovieMatchResult> => {
+    const movieCount = candidates.filter(c => c.activity.type === 'movie').length;
+    let done = 0;
+    let stoppedBy: TmdbErrorReason | null = null;
+    const matched: ImportCandidate[] = [];
+
+    for (const candidate of candidates) {
+        if (candidate.activity.type !== 'movie') {
+            matched.push(candidate);
+            continue;
+        }
+        const movie = candidate.activity;
+        // Other TMDB failures only cost this row its match; the row is left for manual review.
+        const search = async (year?: string): Promise<TmdbMovieSearchResult[]> => {
+            if (stoppedBy) return [];
+            try {
+                return await searchMovies(movie.title, { year });
+            } catch (error) {
+                if (!(error instanceof TmdbError)) throw error;
+                if (STOPPING_REASONS.includes(error.reason)) stoppedBy = error.reason;
+                return [];
+            }
+        };
+        const inYear = movie.releaseYear ? await search(movie.releaseYear) : [];
+        const results = inYear.length > 0 ? inYear : await search();
+        const sameYear = results.filter(r => r.release_date?.startsWith(movie.releaseYear));
+
+        if (movie.releaseYear && sameYear.length === 1) {
+            matched.push({ ...candidate, activity: applyTmdbMatch(movie, sameYear[0]), status: 'matched', matches: sameYear });
+        } else if (results.length > 0) {
+            matched.push({ ...candidate, status: 'ambiguous', matches: sameYear.length > 0 ? sameYear : results.slice(0, 5) });
+        } else {
+            matched.push({ ...candidate, status: 'unmatched', matches: [] });
+        }
+        onProgress?.(++done, movieCount);
+    }
+    return { candidates: matched, stoppedBy };
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateReason, findDuplicateGroups, mergeDuplicates, titleKey } from './duplicates';
+import type { ActivitySession, Book, Movie } from './types';
+
+let nextId = 0;
+
+const session = (date: string, rating = 0, review = ''): ActivitySession => ({ id: `session-${++nextId}`, date, rating, review });
+
+const movie = (title: string, releaseYear = '', fields: Partial<Movie> = {}): Movie => ({
+    id: `item-${++nextId}`,
+    type: 'movie',
+    title,
+    status: 'completed',
+    review: '',
+    rating: 0,
+    date: '2024-01-01',
+    sessions: [],
+    tags: [],
+    releaseYear,
+    posterPath: null,
+    tmdbId: 0,
+    ...fields,
+});
+
+const book = (title: string, author: string, isbn = ''): Book => ({
+    id: `item-${++nextId}`,
+    type: 'book',
+    title,
+    status: 'completed',
+    review: '',
+    rating: 0,
+    date: '2024-01-01',
+    sessions: [],
+    tags: [],
+    author,
+    isbn,
+});
+
+describe('titleKey', () => {
+    it('drops case, accents and punctuation but keeps other scripts', () => {
+        expect(titleKey('  Amélie: Le Fabuleux Destin! ')).toBe('amelie le fabuleux destin');
+        // Hangul syllables come out decomposed into their letters.
+        expect(titleKey('기생충 (2019)')).toBe(`${'기생충'.normalize('NFKD')} 2019`);
+    });
+});
+
+describe('duplicateReason', () => {
+    it('requires short titles to match exactly', () => {
+        expect(duplicateReason(movie('Alien'), movie('Aliens'))).toBeNull();
+        expect(duplicateReason(movie('ALIEN!'), movie('alien'))).toBe('title');
+    });
+
+    it('allows one typo from eight characters and two from sixteen', () => {
+        expect(duplicateReason(movie('Parasite'), movie('Parasyte'))).toBe('title');
+        expect(duplicateReason(movie('Parasite'), movie('Parazyte'))).toBeNull();
+        expect(duplicateReason(movie('The Grand Budapest Hotel'), movie('The Grand Budapst Hotl'))).toBe('title');
+        expect(duplicateReason(movie('The Grand Budapest Hotel'), movie('The Grnd Budapst Hotl'))).toBeNull();
+    });
+
+    it('keeps numbered sequels apart', () => {
+        expect(duplicateReason(movie('Toy Story 2'), movie('Toy Story 3'))).toBeNull();
+    });
+
+    it('needs the details to agree unless one is blank', () => {
+        expect(duplicateReason(movie('Dune', '1984'), movie('Dune', '2021'))).toBeNull();
+        expect(duplicateReason(movie('Dune', '2021'), movie('Dune'))).toBe('title');
+        expect(duplicateReason(book('The Vegetarian', 'Han Kang'), book('The Vegetarian', 'Kang'))).toBe('title');
+    });
+
+    it('matches equal external ids whatever the titles say', () => {
+        expect(duplicateReason(movie('기생충', '', { tmdbId: 496243 }), movie('Parasite', '', { tmdbId: 496243 }))).toBe('tmdbId');
+        expect(duplicateReason(book('Human Acts', 'Han Kang', '978-1-101-90672-9'), book('소년이 온다', '한강', '9781101906729'))).toBe('isbn');
+    });
+});
+
+describe('findDuplicateGroups', () => {
+    it('links items transitively and reports the strongest link', () => {
+        const a = movie('Parasite', '2019', { tmdbId: 496243 });
+        const b = movie('Parasyte', '2019');
+        const c = movie('기생충', '', { tmdbId: 496243 });
+        const unrelated = movie('Alien', '1979');
+
+        expect(findDuplicateGroups([a, unrelated, b, c])).toEqual([{ items: [a, b, c], reason: 'tmdbId' }]);
+    });
+});
+
+describe('mergeDuplicates', () => {
+    it('joins sessions on the same day, keeping the first rating and both reviews', () => {
+        const kept = movie('Alien', '1979', { tags: ['sci-fi'], sessions: [session('2024-03-01', 0, 'Tense.'), session('2024-05-10', 4)] });
+        const other = movie('Alien', '1979', { tags: ['horror', 'Sci-Fi'], sessions: [session('2024-03-01T20:00', 5, 'Still tense.')] });
+
+        const merged = mergeDuplicates([kept, other], kept.id);
+
+        expect(merged.id).toBe(kept.id);
+        expect(merged.tags).toEqual(['sci-fi', 'horror']);
+        expect(merged.sessions.map(s => [s.date, s.rating, s.review])).toEqual([
+            ['2024-03-01', 5, 'Tense.\n\nStill tense.'],
+            ['2024-05-10', 4, ''],
+        ]);
+        expect(merged.date).toBe('2024-05-10');
+    });
+
+    it('takes each chosen field from the item picked for it', () => {
+        const kept = movie('Alien', '1979');
+        const other = movie('Alien (Director’s Cut)', '2003', { tmdbId: 348, posterPath: '/alien.jpg' });
+
+        const merged = mergeDuplicates([kept, other], kept.id, { lookup: other.id }) as Movie;
+
+        expect(merged.title).toBe('Alien');
+        expect(merged.tmdbId).toBe(348);
+        expect(merged.posterPath).toBe('/alien.jpg');
+    });
+});
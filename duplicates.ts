@@ -0,0 +1,206 @@
+import { activityTypeFor } from './activityTypes';
+import { visibilityOf } from './publicProfile';
+import { withSessions } from './sessions';
+import { addTag } from './tags';
+import type { Translator } from './i18n';
+import type { Activity, ActivitySession, ActivityType, DuplicateGroup, DuplicateReason, MergeField } from './types';
+
+// Finds entries that were probably logged twice and merges them into one. Equal external ids
+// (TMDB, ISBN) always match; otherwise titles are compared loosely along with each type's
+// `matchDetail` (year, author or venue).
+
+/** Case, accents, punctuation and spacing dropped; letters and digits in any script are kept. */
+export const titleKey = (title: string): string =>
+    title.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Typos tolerated for a title key of this length; short titles must match exactly ("Alien", "Aliens").
+const allowedTypos = (length: number): number => length < 8 ? 0 : length < 16 ? 1 : 2;
+
+const digitsOf = (key: string): string => key.replace(/\D/g, '');
+
+/** Equal keys, or a typo or two apart; numbers must agree, so sequels stay apart. */
+const keysMatch = (a: string, b: string): boolean => {
+    if (!a || !b) return false;
+    if (a === b) return true;
+    const typos = allowedTypos(Math.min(a.length, b.length));
+    return typos > 0 && Math.abs(a.length - b.length) <= typos && digitsOf(a) === digitsOf(b) && editDistance(a, b) <= typos;
+};
+
+/** Details match when either is blank or one holds every word of the other ("Bong", "Bong Joon-ho"). */
+const detailsMatch = (a: Set<string>, b: Set<string>): boolean => {
+    if (a.size === 0 || b.size === 0) return true;
+    const [fewer, more] = a.size <= b.size ? [a, b] : [b, a];
+    return [...fewer].every(word => more.has(word));
+};
+
+interface MatchProfile {
+    item: Activity;
+    key: string;
+    identity: { field: DuplicateReason; value: string } | null;
+    detail: Set<string>;
+}
+
+// Computed once per item, since the finder compares every pair of the same type.
+const profileOf = (item: Activity): MatchProfile => {
+    const definition = activityTypeFor(item.type);
+    const identity = definition.identity?.(item);
+    return {
+        item,
+        key: titleKey(item.title),
+        identity: identity ? { field: identity.field as DuplicateReason, value: String(identity.value) } : null,
+        detail: new Set(titleKey(definition.matchDetail?.(item) ?? '').split(' ').filter(Boolean)),
+    };
+};
+
+const linkBetween = (a: MatchProfile, b: MatchProfile): DuplicateReason | null => {
+    if (a.item.type !== b.item.type || a.item.id === b.item.id) return null;
+    if (a.identity && b.identity && a.identity.field === b.identity.field && a.identity.value === b.identity.value) return a.identity.field;
+    return keysMatch(a.key, b.key) && detailsMatch(a.detail, b.detail) ? 'title' : null;
+};
+
+/** Why `a` and `b` look like the same entry, or `null` when they don't. */
+export const duplicateReason = (a: Activity, b: Activity): DuplicateReason | null => linkBetween(profileOf(a), profileOf(b));
+
+const REASON_STRENGTH: DuplicateReason[] = ['tmdbId', 'isbn', 'title'];
+
+/** Groups of likely duplicates in library order. Links are transitive, so a group can hold more than two items. */
+export const findDuplicateGroups = (activities: Activity[]): DuplicateGroup[] => {
+    const profiles = activities.map(profileOf);
+    const parent = profiles.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    const links: { index: number; reason: DuplicateReason }[] = [];
+    const linked = new Set<number>();
+
+    for (let i = 0; i < profiles.length; i++) {
+        for (let j = i + 1; j < profiles.length; j++) {
+            const reason = linkBetween(profiles[i], profiles[j]);
+            if (!reason) continue;
+            parent[root(j)] = root(i);
+            links.push({ index: i, reason });
+            linked.add(i).add(j);
+        }
+    }
+
+    const groups = new Map<number, DuplicateGroup>();
+    profiles.forEach((profile, i) => {
+        if (!linked.has(i)) return;
+        const group = groups.get(root(i)) ?? { items: [], reason: 'title' };
+        group.items.push(profile.item);
+        groups.set(root(i), group);
+    });
+    links.forEach(({ index, reason }) => {
+        const group = groups.get(root(index))!;
+        if (REASON_STRENGTH.indexOf(reason) < REASON_STRENGTH.indexOf(group.reason)) group.reason = reason;
+    });
+    return [...groups.values()];
+};
+
+/** Identifies a group by its members, e.g. to remember groups the user said are not duplicates. */
+export const duplicateGroupKey = (group: DuplicateGroup): string => group.items.map(item => item.id).sort().join('+');
+
+/** Entries already in `activities` that `item` (e.g. one being edited in a form) looks like a duplicate of. */
+export const findLikelyDuplicates = (item: Activity, activities: Activity[]): Activity[] => {
+    const profile = profileOf(item);
+    if (!profile.key && !profile.identity) return [];
+    return activities.filter(other => other.type === item.type && linkBetween(profile, profileOf(other)) !== null);
+};
+
+// --- Merge ---
+
+/**
+ * What a merge lets the user pick per field. Fields filled in by the lookup (ids, posters, cached
+ * details) are picked together so they keep describing the same work.
+ */
+export const mergeFields = (type: ActivityType): MergeField[] => {
+    const definition = activityTypeFor(type);
+    const labelled = definition.fields.filter(field => field.input || field.label);
+    const others = definition.fields.filter(field => !field.input && !field.label).map(field => field.name);
+    return [
+        { key: 'title', fields: ['title'] },
+        { key: 'status', fields: ['status'] },
+        ...labelled.map(({ name }) => ({ key: name, fields: [name] })),
+        ...(others.length > 0 ? [{ key: 'lookup', fields: others }] : []),
+        { key: 'visibility', fields: ['visibility'] },
+    ];
+};
+
+export const mergeFieldLabel = (type: ActivityType, field: MergeField, i18n: Translator): string => {
+    const { lookup } = activityTypeFor(type);
+    switch (field.key) {
+        case 'title': return i18n.t('field.title');
+        case 'status': return i18n.t('field.status');
+        case 'visibility': return i18n.t('field.visibility');
+        case 'lookup': return lookup ? i18n.t('duplicates.lookupData', { source: lookup.source }) : i18n.t('duplicates.otherDetails');
+        default: return i18n.type(type).fieldLabels[field.key] ?? field.key;
+    }
+};
+
+const fieldValue = (item: Activity, field: string): unknown => (item as unknown as Record<string, unknown>)[field];
+
+/** `item`'s value for a merge field, formatted for the side-by-side comparison. */
+export const describeMergeValue = (item: Activity, field: MergeField, i18n: Translator): string => {
+    const definition = activityTypeFor(item.type);
+    switch (field.key) {
+        case 'status': return i18n.type(item.type).statusLabels[item.status];
+        case 'visibility': return i18n.t(`visibility.${visibilityOf(item)}`);
+        case 'lookup': {
+            const identity = definition.identity?.(item);
+            const filled = field.fields.filter(name => { const value = fieldValue(item, name); return value !== undefined && value !== null && value !== '' && value !== 0; });
+            return identity ? `${identity.field === 'tmdbId' ? 'TMDB' : 'ISBN'} ${identity.value}`
+                : filled.length > 0 ? i18n.t('duplicates.filledIn', { count: filled.length, total: field.fields.length })
+                : i18n.t('common.none');
+        }
+        default: {
+            const value = fieldValue(item, field.fields[0]);
+            return Array.isArray(value) ? value.join(', ') : value === undefined || value === null ? '' : String(value);
+        }
+    }
+};
+
+const combineReviews = (reviews: string[]): string => [...new Set(reviews.map(review => review.trim()).filter(Boolean))].join('\n\n');
+
+/**
+ * Merges a duplicate group into the record `keepId`. Each merge field comes from the item chosen
+ * for it in `choices` (keyed by `MergeField.key`, the kept item by default); tags are combined and
+ * every session is kept. Sessions on the same day are one viewing logged twice, so they become one
+ * session with both reviews.
+ */
+export const mergeDuplicates = (items: Activity[], keepId: string, choices: Record<string, string> = {}): Activity => {
+    const kept = items.find(item => item.id === keepId) ?? items[0];
+    const ordered = [kept, ...items.filter(item => item !== kept)];
+    const merged: Record<string, unknown> = { ...kept };
+    mergeFields(kept.type).forEach(({ key, fields }) => {
+        const source = items.find(item => item.id === choices[key]) ?? kept;
+        fields.forEach(field => {
+            const value = fieldValue(source, field);
+            if (value === undefined) delete merged[field];
+            else merged[field] = value;
+        });
+    });
+    merged.tags = ordered.flatMap(item => item.tags).reduce(addTag, [] as string[]);
+
+    const byDay = new Map<string, ActivitySession>();
+    ordered.flatMap(item => item.sessions).forEach(session => {
+        const day = session.date.substring(0, 10);
+        const existing = byDay.get(day);
+        byDay.set(day, existing ? { ...existing, rating: existing.rating || session.rating, review: combineReviews([existing.review, session.review]) } : session);
+    });
+    if (byDay.size === 0) {
+        // Backlog items have no sessions; keep whatever notes they carry.
+        merged.review = combineReviews(ordered.map(item => item.review));
+        merged.rating = ordered.find(item => item.rating > 0)?.rating ?? 0;
+    }
+    return withSessions(merged as unknown as Activity, [...byDay.values()]);
+};
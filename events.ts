@@ -0,0 +1,138 @@
+import { ICS_PRODUCT_ID } from './constants';
+import type { Translator } from './i18n';
+import type { Activity, Event, EventCategory } from './types';
+
+// Scheduling helpers for events. `startsAt`/`endsAt` are local date-times without a zone (what a
+// `datetime-local` input produces), so they are compared as strings and exported as floating times.
+
+// English names, used as is in iCalendar exports; the UI shows the `eventCategory.*` messages.
+export const EVENT_CATEGORIES: Record<EventCategory, string> = {
+    exhibition: 'Exhibition',
+    concert: 'Concert',
+    theatre: 'Theatre',
+    other: 'Other',
+};
+
+export const isEventCategory = (value: unknown): value is EventCategory =>
+    typeof value === 'string' && Object.hasOwn(EVENT_CATEGORIES, value);
+
+/** `YYYY-MM-DDTHH:mm`, the format `datetime-local` inputs read and write. */
+export const isLocalDateTime = (value: string): boolean => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value);
+
+/** When the event begins: its start time, or just its date for events entered without one. */
+export const eventStart = (event: Event): string => event.startsAt || event.date;
+
+/** The last day the event runs, `YYYY-MM-DD`. */
+export const eventEndDay = (event: Event): string => (event.endsAt || eventStart(event)).substring(0, 10);
+
+const formatDateTime = (value: string, withTime: boolean, i18n: Translator): string =>
+    i18n.formatDate(value, {
+        weekday: 'short', year: 'numeric', month: 'short', day: 'numeric',
+        ...(withTime && { hour: 'numeric', minute: '2-digit' }),
+    });
+
+/** E.g. "Sat, Mar 7, 2026, 7:30 PM" or "Mon, Jun 1, 2026 – Sun, Jun 14, 2026" for a run of days. */
+export const describeSchedule = (event: Event, i18n: Translator): string => {
+    const start = eventStart(event);
+    const hasTime = isLocalDateTime(start);
+    if (!event.endsAt) return formatDateTime(start, hasTime, i18n);
+    if (event.endsAt.substring(0, 10) === start.substring(0, 10)) {
+        const endTime = i18n.formatDate(event.endsAt, { hour: 'numeric', minute: '2-digit' });
+        return `${formatDateTime(start, hasTime, i18n)} – ${endTime}`;
+    }
+    return `${formatDateTime(start, false, i18n)} – ${formatDateTime(event.endsAt, false, i18n)}`;
+};
+
+/** Planned or ongoing events that have not ended before `today` (`YYYY-MM-DD`), soonest first. */
+export const upcomingEvents = (activities: Activity[], today: string): Event[] =>
+    activities
+        .filter((item): item is Event => item.type === 'event')
+        .filter(event => (event.status === 'planned' || event.status === 'inProgress') && eventEndDay(event) >= today)
+        .sort((a, b) => eventStart(a).localeCompare(eventStart(b)) || a.title.localeCompare(b.title));
+
+// --- iCalendar Export ---
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11). */
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Splits a content line into lines of at most 75 octets, continuations starting with a space (§3.1). */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // The leading space of a continuation line counts towards its 75 octets.
+        if (octets + size > (lines.length === 0 ? 75 : 74)) {
+            lines.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    return [...lines, current].join('\r\n ');
+};
+
+const compactDate = (day: string): string => day.replace(/-/g, '');
+
+const nextDay = (day: string): string => {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().substring(0, 10);
+};
+
+const dateTimeProperty = (name: string, value: string): string =>
+    `${name}:${compactDate(value.substring(0, 10))}T${value.substring(11, 13)}${value.substring(14, 16)}00`;
+
+const eventLines = (event: Event, stamp: string): string[] => {
+    const start = eventStart(event);
+    // Timed events use floating local times; events without a time become all-day events, whose
+    // DTEND is the day after the last day.
+    const timing = isLocalDateTime(start)
+        ? [dateTimeProperty('DTSTART', start), ...(event.endsAt ? [dateTimeProperty('DTEND', event.endsAt)] : [])]
+        : [`DTSTART;VALUE=DATE:${compactDate(start.substring(0, 10))}`, `DTEND;VALUE=DATE:${compactDate(nextDay(eventEndDay(event)))}`];
+    const details = [
+        event.performers?.length ? `With: ${event.performers.join(', ')}` : '',
+        event.ticketPrice ? `Ticket: ${event.ticketPrice}` : '',
+        event.seat ? `Seat: ${event.seat}` : '',
+        event.review,
+    ].filter(Boolean);
+    return [
+        'BEGIN:VEVENT',
+        `UID:${event.id}@culturalog`,
+        `DTSTAMP:${stamp}`,
+        ...timing,
+        `SUMMARY:${escapeText(event.title)}`,
+        ...(event.venue ? [`LOCATION:${escapeText(event.venue)}`] : []),
+        ...(event.category ? [`CATEGORIES:${escapeText(EVENT_CATEGORIES[event.category])}`] : []),
+        ...(details.length > 0 ? [`DESCRIPTION:${escapeText(details.join('\n'))}`] : []),
+        'END:VEVENT',
+    ];
+};
+
+/** An iCalendar (RFC 5545) document with one VEVENT per event; UIDs are stable, so re-importing updates entries. */
+export const eventsToIcs = (events: Event[], now = new Date()): string => {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${ICS_PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        ...events.flatMap(event => eventLines(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const downloadIcs = (events: Event[]): void => {
+    const blob = new Blob([eventsToIcs(events)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `culturalog-upcoming-${new Date().toISOString().split('T')[0]}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,118 @@
+import { ACTIVITY_TYPES, activityTypeFor } from './activityTypes';
+import { messagesEn } from './messagesEn';
+import { messagesKo, typeTextKo } from './messagesKo';
+import type { ActivityType, ActivityTypeText, Locale, Message } from './types';
+
+// Message catalogs and locale-aware formatting. Components get the translator for the current
+// locale from `useI18n()` (components.tsx); pure modules that produce text take one as a parameter.
+
+/** Keys of the English catalog, which every other catalog must translate. */
+export type MessageKey = keyof typeof messagesEn;
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Locale[] = ['en', 'ko'];
+
+/** Each locale's name in its own language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = { en: 'English', ko: '한국어' };
+
+/** BCP 47 tags used for formatting and as the default TMDB `language`. */
+export const LOCALE_TAGS: Record<Locale, string> = { en: 'en-US', ko: 'ko-KR' };
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && (LOCALES as string[]).includes(value);
+
+/** The first supported locale among the browser's preferred languages, English when there is none. */
+export const preferredLocale = (languages: readonly string[]): Locale =>
+    languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale) ?? 'en';
+
+const englishTypeText = (type: ActivityType): ActivityTypeText => {
+    const definition = activityTypeFor(type);
+    return {
+        label: definition.label,
+        singular: definition.singular,
+        count: { one: `{count} ${definition.singular.toLowerCase()}`, other: `{count} ${definition.label.toLowerCase()}` },
+        statusLabels: definition.statusLabels,
+        dateLabels: definition.dateLabels,
+        repeatCount: `${definition.sessionVerb} {count} times`,
+        repeatLabel: definition.repeatLabel,
+        ratingLabel: definition.ratingLabel,
+        fieldLabels: Object.fromEntries(definition.fields.flatMap(({ name, input, label }) => input || label ? [[name, input?.label ?? label!]] : [])),
+        lookupPlaceholder: definition.lookup?.placeholder,
+    };
+};
+
+const catalogs: Record<Locale, { messages: Record<MessageKey, Message>; types: Record<ActivityType, ActivityTypeText> }> = {
+    en: { messages: messagesEn, types: Object.fromEntries(ACTIVITY_TYPES.map(type => [type, englishTypeText(type)])) as Record<ActivityType, ActivityTypeText> },
+    ko: { messages: messagesKo, types: typeTextKo },
+};
+
+export interface Translator {
+    locale: Locale;
+    /** The catalog message for `key` with its `{name}` placeholders filled in from `params`. */
+    t: (key: MessageKey, params?: MessageParams) => string;
+    /**
+     * Fills in a message that is not looked up by key, e.g. one from `type()`. Numbers are formatted
+     * for the locale, so pass years and ids as strings; `count` also picks the plural form.
+     */
+    format: (message: Message, params?: MessageParams) => string;
+    type: (type: ActivityType) => ActivityTypeText;
+    /** Date-only strings ("2024-05-01") are read as local dates, so they never shift by a day. */
+    formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+    /** E.g. "A, B and C". */
+    formatList: (items: string[]) => string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const createTranslator = (locale: Locale): Translator => {
+    const tag = LOCALE_TAGS[locale];
+    const { messages, types } = catalogs[locale];
+    const pluralRules = new Intl.PluralRules(tag);
+    const listFormat = new Intl.ListFormat(tag, { type: 'conjunction' });
+    // Building a formatter is slow next to using one, and long lists format many dates.
+    const dateFormats = new Map<string, Intl.DateTimeFormat>();
+    const numberFormats = new Map<string, Intl.NumberFormat>();
+
+    const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}) => {
+        const key = JSON.stringify(options);
+        if (!numberFormats.has(key)) numberFormats.set(key, new Intl.NumberFormat(tag, options));
+        return numberFormats.get(key)!.format(value);
+    };
+
+    const formatDate = (value: string | Date, options: Intl.DateTimeFormatOptions = {}) => {
+        const date = typeof value === 'string' ? new Date(DATE_ONLY.test(value) ? `${value}T00:00:00` : value) : value;
+        if (Number.isNaN(date.getTime())) return String(value);
+        const key = JSON.stringify(options);
+        if (!dateFormats.has(key)) dateFormats.set(key, new Intl.DateTimeFormat(tag, options));
+        return dateFormats.get(key)!.format(date);
+    };
+
+    const format = (message: Message, params: MessageParams = {}) => {
+        const text = typeof message === 'string'
+            ? message
+            : typeof params.count === 'number' ? message[pluralRules.select(params.count)] ?? message.other : message.other;
+        return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            const value = params[name];
+            return value === undefined ? placeholder : typeof value === 'number' ? formatNumber(value) : value;
+        });
+    };
+
+    return {
+        locale,
+        t: (key, params) => format(messages[key] ?? messagesEn[key], params),
+        format,
+        type: type => types[type],
+        formatDate,
+        formatNumber,
+        formatList: items => listFormat.format(items),
+    };
+};
+
+const translators = new Map<Locale, Translator>();
+
+/** The translator for `locale`; one instance per locale, so it is safe to use as a hook dependency. */
+export const translatorFor = (locale: Locale): Translator => {
+    if (!translators.has(locale)) translators.set(locale, createTranslator(locale));
+    return translators.get(locale)!;
+};
@@ -0,0 +1,76 @@
+import type { MessageKey } from './i18n';
+import type { Book, IsbnAudit } from './types';
+
+// ISBNs are stored as bare ISBN-13 digits (e.g. "9780439023481"). ISBN-10 input is converted on
+// save; hyphens and spaces are dropped, since correct hyphenation depends on registrant ranges.
+
+/** Removes hyphens and whitespace and upper-cases a trailing ISBN-10 "x". */
+export const compactIsbn = (value: string): string => value.replace(/[-\s]/g, '').toUpperCase();
+
+const isbn10CheckDigit = (first9: string): string => {
+    const sum = [...first9].reduce((total, digit, i) => total + Number(digit) * (10 - i), 0);
+    const check = (11 - (sum % 11)) % 11;
+    return check === 10 ? 'X' : String(check);
+};
+
+const isbn13CheckDigit = (first12: string): string => {
+    const sum = [...first12].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+    return String((10 - (sum % 10)) % 10);
+};
+
+export const isValidIsbn10 = (value: string): boolean => {
+    const isbn = compactIsbn(value);
+    return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+};
+
+export const isValidIsbn13 = (value: string): boolean => {
+    const isbn = compactIsbn(value);
+    return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+};
+
+/** Converts a valid ISBN-10 to its "978" ISBN-13. */
+export const isbn10To13 = (value: string): string => {
+    const first12 = `978${compactIsbn(value).slice(0, 9)}`;
+    return `${first12}${isbn13CheckDigit(first12)}`;
+};
+
+/** The canonical ISBN-13 for a valid ISBN-10 or ISBN-13, or null when `value` is not a valid ISBN. */
+export const normalizeIsbn = (value: string): string | null => {
+    if (isValidIsbn13(value)) return compactIsbn(value);
+    if (isValidIsbn10(value)) return isbn10To13(value);
+    return null;
+};
+
+/** The message for a problem with `value`, or null when it is empty or valid. */
+export const isbnError = (value: string): MessageKey | null => {
+    const isbn = compactIsbn(value);
+    if (!isbn) return null;
+    if (!/^(\d{9}[\dX]|\d{13})$/.test(isbn)) return 'validation.isbnLength';
+    if (isbn.length === 13 && !/^97[89]/.test(isbn)) return 'validation.isbnPrefix';
+    return normalizeIsbn(isbn) ? null : 'validation.isbnCheckDigit';
+};
+
+/** Normalizes `value` when it is a valid ISBN and leaves anything else (including typos) untouched. */
+export const cleanIsbn = (value: string): string => normalizeIsbn(value) ?? value.trim();
+
+// --- Library Cleanup ---
+
+/** Finds books whose ISBN is invalid, shared with another book, or valid but not stored in canonical form. */
+export const auditIsbns = (books: Book[]): IsbnAudit => {
+    const audit: IsbnAudit = { invalid: [], duplicates: [], unnormalized: [] };
+    const byIsbn = new Map<string, Book[]>();
+    books.filter(book => book.isbn.trim()).forEach(book => {
+        const normalized = normalizeIsbn(book.isbn);
+        if (!normalized) {
+            audit.invalid.push(book);
+            return;
+        }
+        if (normalized !== book.isbn) audit.unnormalized.push(book);
+        byIsbn.set(normalized, [...(byIsbn.get(normalized) ?? []), book]);
+    });
+    audit.duplicates = [...byIsbn.values()].filter(group => group.length > 1);
+    return audit;
+};
+
+export const isbnIssueCount = (audit: IsbnAudit): number =>
+    audit.invalid.length + audit.duplicates.length + audit.unnormalized.length;
@@ -0,0 +1,87 @@
+import type { GridMove, KeyboardShortcut, PaletteCommand } from './types';
+
+// Keyboard handling shared by the app shell and the command palette. Single-key shortcuts only
+// fire outside text fields and dialogs, so typing a review never triggers them.
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+    { keys: ['Ctrl+K', '⌘K'], description: 'shortcut.palette' },
+    { keys: ['/'], description: 'shortcut.search' },
+    { keys: ['n'], description: 'shortcut.newEntry' },
+    { keys: ['j', '→'], description: 'shortcut.next' },
+    { keys: ['k', '←'], description: 'shortcut.previous' },
+    { keys: ['↓', '↑'], description: 'shortcut.belowAbove' },
+    { keys: ['Enter', 'o'], description: 'shortcut.open' },
+    { keys: ['e'], description: 'shortcut.edit' },
+    { keys: ['Delete', '#'], description: 'shortcut.delete' },
+    { keys: ['Esc'], description: 'shortcut.escape' },
+    { keys: ['Ctrl+Z'], description: 'shortcut.undo' },
+    { keys: ['Ctrl+Shift+Z', 'Ctrl+Y'], description: 'shortcut.redo' },
+    { keys: ['?'], description: 'shortcut.help' },
+];
+
+/** True for events typed into a field, where keys belong to the text. */
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const isInDialog = (target: EventTarget | null): boolean => target instanceof Element && target.closest('[role="dialog"]') !== null;
+
+/**
+ * The card selection move a key stands for, if any. Up, Down, Home and End scroll the page until
+ * a card is selected, so they only move the selection once there is one.
+ */
+export const gridMoveForKey = (key: string, hasSelection: boolean): GridMove | null => {
+    switch (key) {
+        case 'j': case 'ArrowRight': return 'next';
+        case 'k': case 'ArrowLeft': return 'previous';
+        case 'ArrowDown': return hasSelection ? 'down' : null;
+        case 'ArrowUp': return hasSelection ? 'up' : null;
+        case 'Home': return hasSelection ? 'first' : null;
+        case 'End': return hasSelection ? 'last' : null;
+        default: return null;
+    }
+};
+
+/**
+ * The index selected after `move` in a grid of `count` cards laid out in `columns` columns.
+ * With nothing selected (-1) any move starts at the first card; moves stop at the edges.
+ */
+export const moveInGrid = (index: number, count: number, columns: number, move: GridMove): number => {
+    if (count === 0) return -1;
+    if (index < 0 || index >= count) return move === 'last' ? count - 1 : 0;
+    const target = {
+        next: index + 1,
+        previous: index - 1,
+        down: index + columns,
+        up: index - columns,
+        first: 0,
+        last: count - 1,
+    }[move];
+    return target < 0 || target >= count ? index : target;
+};
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Commands matching `query`: every typed word must start a word of the label or keywords, so
+ * "log mo" finds "Log new movie". Label matches near the start rank first; ties keep list order.
+ */
+export const matchCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+    const terms = words(query);
+    if (terms.length === 0) return commands;
+    return commands
+        .map((command, index) => {
+            const labelWords = words(command.label);
+            const keywordWords = words((command.keywords ?? []).join(' '));
+            let score = 0;
+            for (const term of terms) {
+                const position = labelWords.findIndex(word => word.startsWith(term));
+                if (position >= 0) score += position;
+                else if (keywordWords.some(word => word.startsWith(term))) score += labelWords.length;
+                else return null;
+            }
+            return { command, score, index };
+        })
+        .filter((match): match is { command: PaletteCommand; score: number; index: number } => match !== null)
+        .sort((a, b) => a.score - b.score || a.index - b.index)
+        .map(match => match.command);
+};
@@ -0,0 +1,117 @@
+import { ACTIVITY_TYPES, activityTypeFor, isActivityType } from './activityTypes';
+import { isNormalizedRating } from './ratings';
+import { hasTag, normalizeTag } from './tags';
+import type { Activity, LibraryQuery, SortField, SortDirection } from './types';
+
+const SORT_FIELDS: SortField[] = ['date', 'rating', 'title', 'releaseYear'];
+
+export const DEFAULT_QUERY: LibraryQuery = {
+    text: '',
+    types: ACTIVITY_TYPES,
+    minRating: 0,
+    maxRating: 5,
+    from: '',
+    to: '',
+    tags: [],
+    sortField: 'date',
+    sortDirection: 'desc',
+};
+
+/** True when the query narrows the library beyond the current category view; sorting alone does not count. */
+export const isQueryActive = (query: LibraryQuery): boolean =>
+    query.text.trim() !== ''
+    || query.types.length !== ACTIVITY_TYPES.length
+    || query.minRating !== DEFAULT_QUERY.minRating
+    || query.maxRating !== DEFAULT_QUERY.maxRating
+    || query.from !== ''
+    || query.to !== ''
+    || query.tags.length > 0;
+
+// --- URL State ---
+
+const isDateParam = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toRatingParam = (value: string | null, fallback: number): number => {
+    const rating = Number(value);
+    return value !== null && isNormalizedRating(rating) ? rating : fallback;
+};
+
+export const queryFromSearchParams = (params: URLSearchParams): LibraryQuery => {
+    const types = params.get('type')?.split(',').filter(isActivityType);
+    const [sortField, sortDirection] = (params.get('sort') ?? '').split('-');
+    return {
+        text: params.get('q') ?? DEFAULT_QUERY.text,
+        types: types && types.length > 0 ? types : DEFAULT_QUERY.types,
+        minRating: toRatingParam(params.get('rmin'), DEFAULT_QUERY.minRating),
+        maxRating: toRatingParam(params.get('rmax'), DEFAULT_QUERY.maxRating),
+        from: isDateParam(params.get('from')) ? params.get('from')! : DEFAULT_QUERY.from,
+        to: isDateParam(params.get('to')) ? params.get('to')! : DEFAULT_QUERY.to,
+        tags: params.get('tags')?.split(',').map(normalizeTag).filter(Boolean) ?? DEFAULT_QUERY.tags,
+        sortField: SORT_FIELDS.includes(sortField as SortField) ? sortField as SortField : DEFAULT_QUERY.sortField,
+        sortDirection: sortDirection === 'asc' || sortDirection === 'desc' ? sortDirection : DEFAULT_QUERY.sortDirection,
+    };
+};
+
+/** Writes only the fields that differ from `DEFAULT_QUERY`, so the default view has a clean URL. */
+export const queryToSearchParams = (query: LibraryQuery, params = new URLSearchParams()): URLSearchParams => {
+    const set = (key: string, value: string, isDefault: boolean) => isDefault ? params.delete(key) : params.set(key, value);
+    set('q', query.text, query.text === DEFAULT_QUERY.text);
+    set('type', query.types.join(','), query.types.length === ACTIVITY_TYPES.length);
+    set('rmin', String(query.minRating), query.minRating === DEFAULT_QUERY.minRating);
+    set('rmax', String(query.maxRating), query.maxRating === DEFAULT_QUERY.maxRating);
+    set('from', query.from, query.from === DEFAULT_QUERY.from);
+    set('to', query.to, query.to === DEFAULT_QUERY.to);
+    set('tags', query.tags.join(','), query.tags.length === 0);
+    set('sort', `${query.sortField}-${query.sortDirection}`,
+        query.sortField === DEFAULT_QUERY.sortField && query.sortDirection === DEFAULT_QUERY.sortDirection);
+    return params;
+};
+
+// --- Filtering & Sorting ---
+
+const searchableText = (item: Activity): string[] => [
+    item.title,
+    ...item.sessions.map(session => session.review),
+    ...item.tags,
+    ...activityTypeFor(item.type).searchText?.(item) ?? [],
+];
+
+export const filterActivities = (items: Activity[], query: LibraryQuery): Activity[] => {
+    const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    return items.filter(item => {
+        if (!query.types.includes(item.type)) return false;
+        if (item.rating < query.minRating || item.rating > query.maxRating) return false;
+        const day = item.date.substring(0, 10);
+        if (query.from && day < query.from) return false;
+        if (query.to && day > query.to) return false;
+        if (!query.tags.every(tag => hasTag(item.tags, tag))) return false;
+        if (terms.length === 0) return true;
+        const haystack = searchableText(item).join('\n').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
+
+const releaseYearOf = (item: Activity): number | null =>
+    activityTypeFor(item.type).releaseYear?.(item) ?? null;
+
+const compareBy: Record<SortField, (a: Activity, b: Activity) => number> = {
+    date: (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+    rating: (a, b) => a.rating - b.rating,
+    title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+    releaseYear: (a, b) => (releaseYearOf(a) ?? 0) - (releaseYearOf(b) ?? 0),
+};
+
+/**
+ * Sorts a copy of `items`. Ties fall back to most recent date first. When sorting by release year,
+ * items without one (types that have no release year, or entries missing it) always go last.
+ */
+export const sortActivities = (items: Activity[], field: SortField, direction: SortDirection): Activity[] => {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...items].sort((a, b) => {
+        if (field === 'releaseYear') {
+            const missing = Number(releaseYearOf(a) === null) - Number(releaseYearOf(b) === null);
+            if (missing !== 0) return missing;
+        }
+        return sign * compareBy[field](a, b) || compareBy.date(b, a);
+    });
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { translatorFor } from './i18n';
+import { markdownToPlainText, parseInline, parseMarkdown, reviewExcerpt, safeUrl } from './markdown';
+
+const en = translatorFor('en');
+
+describe('safeUrl', () => {
+    it('keeps web and mail links', () => {
+        expect(safeUrl(' https://example.com/a ')).toBe('https://example.com/a');
+        expect(safeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+    });
+
+    it('rejects script and data URLs in any case', () => {
+        expect(safeUrl('javascript:alert(1)')).toBeNull();
+        expect(safeUrl('  JavaScript:alert(1)')).toBeNull();
+        expect(safeUrl('data:text/html,<script>')).toBeNull();
+    });
+});
+
+describe('parseInline', () => {
+    it('reads ***x*** as strong emphasis', () => {
+        expect(parseInline('***x***')).toEqual([{ kind: 'strong', children: [{ kind: 'emphasis', children: [{ kind: 'text', text: 'x' }] }] }]);
+    });
+
+    it('keeps balanced parentheses in a link destination', () => {
+        expect(parseInline('[Alien](https://en.wikipedia.org/wiki/Alien_(film)) rocks')).toEqual([
+            { kind: 'link', href: 'https://en.wikipedia.org/wiki/Alien_(film)', children: [{ kind: 'text', text: 'Alien' }] },
+            { kind: 'text', text: ' rocks' },
+        ]);
+    });
+
+    it('turns a javascript: link into its plain label', () => {
+        expect(parseInline('[click](javascript:alert(1))')).toEqual([{ kind: 'text', text: 'click' }]);
+    });
+
+    it('leaves underscores inside words alone', () => {
+        expect(parseInline('snake_case_name')).toEqual([{ kind: 'text', text: 'snake_case_name' }]);
+    });
+});
+
+describe('spoilers', () => {
+    it('nest, each closing at its own marker', () => {
+        const blocks = parseMarkdown([
+            '::: spoiler Ending',
+            'The ship explodes.',
+            '::: spoiler Post-credits',
+            'The cat survives.',
+            ':::',
+            'Ripley sleeps.',
+            ':::',
+            'After.',
+        ].join('\n'));
+
+        expect(blocks).toEqual([
+            {
+                kind: 'spoiler',
+                title: 'Ending',
+                children: [
+                    { kind: 'paragraph', children: [{ kind: 'text', text: 'The ship explodes.' }] },
+                    { kind: 'spoiler', title: 'Post-credits', children: [{ kind: 'paragraph', children: [{ kind: 'text', text: 'The cat survives.' }] }] },
+                    { kind: 'paragraph', children: [{ kind: 'text', text: 'Ripley sleeps.' }] },
+                ],
+            },
+            { kind: 'paragraph', children: [{ kind: 'text', text: 'After.' }] },
+        ]);
+    });
+
+    it('never show up in plain text or excerpts', () => {
+        const review = 'Great film.\n\n::: spoiler\nThe cat survives.\n:::';
+
+        expect(markdownToPlainText(review, en)).not.toContain('cat');
+        expect(reviewExcerpt(review, 200, en)).toEqual({ text: expect.stringContaining('Great film.'), truncated: true });
+    });
+});
+
+describe('reviewExcerpt', () => {
+    it('cuts long reviews at a word boundary', () => {
+        const { text, truncated } = reviewExcerpt('**Slow** but rewarding, with a final act that lands', 30, en);
+
+        expect(text).toBe('Slow but rewarding, with a…');
+        expect(truncated).toBe(true);
+    });
+});
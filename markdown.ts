@@ -0,0 +1,325 @@
+import type { Translator } from './i18n';
+import type { MarkdownBlock, MarkdownInline } from './types';
+
+// A small Markdown dialect for reviews: headings, paragraphs, block quotes, ordered and unordered
+// lists, fenced code, horizontal rules, **bold**, *italic*, ~~strike~~, `code` and [links](https://…),
+// plus spoiler blocks:
+//
+//     :::spoiler The ending
+//     Hidden until clicked.
+//     :::
+//
+// Raw HTML is not supported; it stays literal text.
+
+const FENCE = /^\s*```/;
+const SPOILER_OPEN = /^\s*:::\s*spoiler\b\s*(.*)$/i;
+const SPOILER_CLOSE = /^\s*:::\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const isBlockStart = (line: string) =>
+    FENCE.test(line) || SPOILER_OPEN.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+/** Links may only point at web pages or mail addresses; anything else (e.g. `javascript:`) is dropped. */
+export const safeUrl = (url: string): string | null => {
+    const trimmed = url.trim();
+    return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+};
+
+// --- Inline ---
+
+// Longest first, so `***x***` is strong emphasis rather than strong `*x` and a stray `*`.
+const EMPHASIS_MARKERS: [marker: string, kinds: ('strong' | 'emphasis' | 'strike')[]][] = [
+    ['***', ['strong', 'emphasis']], ['___', ['strong', 'emphasis']],
+    ['**', ['strong']], ['__', ['strong']], ['~~', ['strike']], ['*', ['emphasis']], ['_', ['emphasis']],
+];
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+/** The closing `marker` for one opened at `from`; single markers skip doubled ones, which belong to `**`/`__`. */
+const findClosing = (text: string, marker: string, from: number): number => {
+    for (let j = text.indexOf(marker, from); j !== -1; j = text.indexOf(marker, j + 1)) {
+        if (/\s/.test(text[j - 1])) continue;
+        if (marker.length === 1 && (text[j + 1] === marker || text[j - 1] === marker)) continue;
+        if (marker === '_' && isWordChar(text[j + 1])) continue;
+        return j;
+    }
+    return -1;
+};
+
+interface InlineMatch {
+    nodes: MarkdownInline[];
+    end: number; // index just past the match
+}
+
+const matchEmphasis = (text: string, i: number): InlineMatch | null => {
+    for (const [marker, kinds] of EMPHASIS_MARKERS) {
+        if (!text.startsWith(marker, i)) continue;
+        const contentStart = i + marker.length;
+        if (!text[contentStart] || /\s/.test(text[contentStart])) continue;
+        // Underscores inside words (snake_case) are literal.
+        if (marker[0] === '_' && isWordChar(text[i - 1])) continue;
+        const closing = findClosing(text, marker, contentStart + 1);
+        if (closing === -1) continue;
+        const nodes = kinds.reduceRight<MarkdownInline[]>((children, kind) => [{ kind, children }], parseInline(text.slice(contentStart, closing)));
+        return { nodes, end: closing + marker.length };
+    }
+    return null;
+};
+
+/** The `)` closing a link destination that starts at `from`; parentheses inside it must balance, as in `…/Alien_(film)`. */
+const findLinkEnd = (text: string, from: number): number => {
+    let depth = 0;
+    for (let j = from; j < text.length; j++) {
+        if (text[j] === '\\') j++;
+        else if (text[j] === '(') depth++;
+        else if (text[j] === ')' && depth-- === 0) return j;
+    }
+    return -1;
+};
+
+const matchLink = (text: string, i: number): InlineMatch | null => {
+    const labelEnd = text.indexOf(']', i + 1);
+    if (labelEnd === -1 || text[labelEnd + 1] !== '(') return null;
+    const urlEnd = findLinkEnd(text, labelEnd + 2);
+    if (urlEnd === -1) return null;
+    const children = parseInline(text.slice(i + 1, labelEnd));
+    const href = safeUrl(text.slice(labelEnd + 2, urlEnd));
+    // An unsafe link keeps its label as plain text.
+    return { nodes: href ? [{ kind: 'link', href, children }] : children, end: urlEnd + 1 };
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) nodes.push({ kind: 'text', text: buffer });
+        buffer = '';
+    };
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\\' && /[\\`*_~[\]()#>!|:+.-]/.test(text[i + 1] ?? '')) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+        if (char === '\n') {
+            flush();
+            nodes.push({ kind: 'break' });
+            i++;
+            continue;
+        }
+        if (char === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i + 1) {
+                flush();
+                nodes.push({ kind: 'code', text: text.slice(i + 1, end) });
+                i = end + 1;
+                continue;
+            }
+        }
+        const match = (char === '*' || char === '_' || char === '~') ? matchEmphasis(text, i) : char === '[' ? matchLink(text, i) : null;
+        if (match) {
+            flush();
+            nodes.push(...match.nodes);
+            i = match.end;
+            continue;
+        }
+        buffer += char;
+        i++;
+    }
+    flush();
+    return nodes;
+};
+
+// --- Blocks ---
+
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const baseIndent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const items: string[][] = [];
+    let contentIndent = 0;
+    let i = start;
+    while (i < lines.length) {
+        const line = lines[i];
+        const item = LIST_ITEM.exec(line);
+        if (item && item[1].length <= baseIndent + 1 && /\d/.test(item[2]) === ordered) {
+            items.push([item[3]]);
+            contentIndent = item[1].length + item[2].length + 1;
+            i++;
+        } else if (!isBlank(line) && leadingSpaces(line) > baseIndent) {
+            // Indented lines continue the item, including nested lists.
+            items[items.length - 1].push(line.slice(Math.min(leadingSpaces(line), contentIndent)));
+            i++;
+        } else if (!isBlank(line) && !isBlockStart(line) && !isBlank(lines[i - 1])) {
+            items[items.length - 1].push(line);
+            i++;
+        } else if (isBlank(line) && i + 1 < lines.length && !isBlank(lines[i + 1]) && (leadingSpaces(lines[i + 1]) > baseIndent || LIST_ITEM.test(lines[i + 1]))) {
+            items[items.length - 1].push('');
+            i++;
+        } else {
+            break;
+        }
+    }
+    return {
+        block: { kind: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: items.map(parseBlocks) },
+        next: i,
+    };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (isBlank(line)) {
+            i++;
+            continue;
+        }
+
+        if (FENCE.test(line)) {
+            const end = lines.findIndex((l, j) => j > i && FENCE.test(l));
+            const close = end === -1 ? lines.length : end;
+            blocks.push({ kind: 'code', text: lines.slice(i + 1, close).join('\n') });
+            i = close + 1;
+            continue;
+        }
+
+        const spoiler = SPOILER_OPEN.exec(line);
+        if (spoiler) {
+            // Spoilers can nest, so find the matching close rather than the first one.
+            let depth = 1;
+            let j = i + 1;
+            for (; j < lines.length; j++) {
+                if (SPOILER_OPEN.test(lines[j])) depth++;
+                else if (SPOILER_CLOSE.test(lines[j]) && --depth === 0) break;
+            }
+            blocks.push({ kind: 'spoiler', title: spoiler[1].trim(), children: parseBlocks(lines.slice(i + 1, j)) });
+            i = j + 1;
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ kind: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ kind: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            // Like paragraphs, quotes take lazy continuation lines without the marker.
+            while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !isBlockStart(lines[i]))) {
+                quoted.push(lines[i].replace(QUOTE, ''));
+                i++;
+            }
+            blocks.push({ kind: 'quote', children: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const { block, next } = parseList(lines, i);
+            blocks.push(block);
+            i = next;
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ kind: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+
+// --- Plain Text ---
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes.map(node => node.kind === 'text' || node.kind === 'code' ? node.text : node.kind === 'break' ? ' ' : inlineText(node.children)).join('');
+
+const blockText = (blocks: MarkdownBlock[], i18n: Translator): string[] =>
+    blocks.flatMap(block => {
+        switch (block.kind) {
+            case 'heading':
+            case 'paragraph': return [inlineText(block.children)];
+            case 'quote': return blockText(block.children, i18n);
+            case 'list': return block.items.flatMap(item => blockText(item, i18n));
+            case 'code': return [block.text];
+            case 'rule': return [];
+            // Never leak a spoiler into a snippet.
+            case 'spoiler': return [`[${block.title ? i18n.t('markdown.spoilerTitled', { title: block.title }) : i18n.t('markdown.spoiler')}]`];
+        }
+    });
+
+/** The review as one line of plain text, with spoilers replaced by a marker in `i18n`'s language. */
+export const markdownToPlainText = (source: string, i18n: Translator): string =>
+    blockText(parseMarkdown(source), i18n).join(' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Plain-text excerpt for cards, cut at a word boundary. `truncated` is also set when the review
+ * hides a spoiler, since the excerpt then leaves something out.
+ */
+export const reviewExcerpt = (source: string, maxLength: number, i18n: Translator): { text: string; truncated: boolean } => {
+    const text = markdownToPlainText(source, i18n);
+    const hasSpoiler = source.split('\n').some(line => SPOILER_OPEN.test(line));
+    if (text.length <= maxLength) return { text, truncated: hasSpoiler };
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(' ');
+    return { text: `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`, truncated: true };
+};
+
+// --- Editing ---
+
+/** A textarea's new value and selection after a toolbar action. */
+export interface TextEdit {
+    value: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+/** Wraps the selection (or `placeholder` when nothing is selected) in `before`/`after`, keeping it selected. */
+export const wrapSelection = (value: string, start: number, end: number, before: string, after: string, placeholder: string): TextEdit => {
+    const selected = value.slice(start, end) || placeholder;
+    return {
+        value: `${value.slice(0, start)}${before}${selected}${after}${value.slice(end)}`,
+        selectionStart: start + before.length,
+        selectionEnd: start + before.length + selected.length,
+    };
+};
+
+/** Prefixes every line touched by the selection, e.g. with "> " or "- ". */
+export const prefixLines = (value: string, start: number, end: number, prefix: string): TextEdit => {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lines = value.slice(lineStart, end).split('\n');
+    const prefixed = lines.map(line => `${prefix}${line}`).join('\n');
+    return {
+        value: `${value.slice(0, lineStart)}${prefixed}${value.slice(end)}`,
+        selectionStart: start + prefix.length,
+        selectionEnd: end + prefix.length * lines.length,
+    };
+};
+
+/** Puts the selection (or `placeholder`) in a spoiler block on lines of its own. */
+export const wrapInSpoiler = (value: string, start: number, end: number, placeholder: string): TextEdit => {
+    const before = `${start > 0 && value[start - 1] !== '\n' ? '\n' : ''}:::spoiler\n`;
+    const after = `\n:::${end < value.length && value[end] !== '\n' ? '\n' : ''}`;
+    return wrapSelection(value, start, end, before, after, placeholder);
+};
@@ -0,0 +1,427 @@
+// The English catalog, which defines the message keys (see i18n.ts). Placeholders are `{name}`;
+// plural messages pick a form by `count`. Activity type labels are not here: English ones come
+// from the registry in activityTypes.ts.
+
+export const messagesEn = {
+    // --- Common ---
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.dismiss': 'Dismiss',
+    'common.none': 'None',
+    'common.unknownYear': 'Unknown year',
+    'common.undo': 'Undo',
+    'common.redo': 'Redo',
+
+    // --- Fields ---
+    'field.title': 'Title',
+    'field.status': 'Status',
+    'field.rating': 'Rating',
+    'field.date': 'Date',
+    'field.sessions': 'Sessions',
+    'field.tags': 'Tags',
+    'field.visibility': 'Sharing',
+    'field.review': 'Review',
+
+    'validation.year': 'Enter a four-digit year.',
+    'validation.isbnLength': 'An ISBN has 10 or 13 digits (ISBN-10 may end in X).',
+    'validation.isbnPrefix': 'An ISBN-13 starts with 978 or 979.',
+    'validation.isbnCheckDigit': 'The check digit does not match; look for a typo.',
+
+    // --- Activity types ---
+    'movie.director': 'Dir. {name}',
+    'movie.runtime': '{minutes} min',
+    'movie.cast': 'Starring {names}',
+    'movie.loadingDetails': 'Loading details from TMDB…',
+    'series.seasonCount': { one: '{count} season', other: '{count} seasons' },
+    'series.episodeProgress': '{watched}/{total} episodes',
+    'series.episodesWatched': '{watched}/{total} episodes watched',
+    'book.pageCount': { one: '{count} page', other: '{count} pages' },
+    'book.firstPublished': 'First published {year}',
+    'book.isbn': 'ISBN: {isbn}',
+    'event.with': 'With {names}',
+    'event.seat': 'Seat {seat}',
+    'event.performersLabel': 'Performers / Organizers',
+    'event.removePerformer': 'Remove {name}',
+    'event.performerPlaceholder': 'Add a name and press Enter',
+    'event.addPerformer': 'Add',
+
+    'eventCategory.exhibition': 'Exhibition',
+    'eventCategory.concert': 'Concert',
+    'eventCategory.theatre': 'Theatre',
+    'eventCategory.other': 'Other',
+
+    'visibility.public': 'Public',
+    'visibility.hideReview': 'Public, review hidden',
+    'visibility.private': 'Private',
+
+    // --- Ratings ---
+    'rating.none': 'Not rated',
+    'rating.outOfStars': '{value} out of {max} stars',
+    'rating.outOfPoints': '{value} out of {max}',
+    'rating.clear': 'Clear',
+    'ratingScale.halfStars': '5 stars in halves',
+    'ratingScale.stars': '5 whole stars',
+    'ratingScale.tenPoint': '10 points',
+
+    // --- Header ---
+    'nav.collections': 'Collections',
+    'nav.calendar': 'Calendar',
+    'nav.timeline': 'Timeline',
+    'nav.stats': 'Stats',
+    'nav.trash': 'Trash',
+    'header.undoTitle': 'Undo: {change} (Ctrl+Z)',
+    'header.redoTitle': 'Redo: {change} (Ctrl+Shift+Z)',
+    'header.nothingToUndo': 'Nothing to undo',
+    'header.nothingToRedo': 'Nothing to redo',
+    'header.import': 'Import CSV',
+    'header.backup': 'Backup',
+    'header.share': 'Share',
+    'header.settings': 'Settings',
+    'header.commands': 'Commands',
+    'header.paletteTitle': 'Command palette (Ctrl+K)',
+    'header.language': 'Language',
+
+    // --- Command palette & shortcuts ---
+    'palette.title': 'Command palette',
+    'palette.placeholder': 'Type a command or search…',
+    'palette.searchFor': 'Search the library for “{text}”',
+    'palette.groupSearch': 'Search',
+    'palette.empty': 'No commands.',
+
+    'command.groupLog': 'Log',
+    'command.groupEntry': 'Entry',
+    'command.groupGoTo': 'Go to',
+    'command.groupLibrary': 'Library',
+    'command.groupApp': 'App',
+    'command.logNew': 'Log new {type}',
+    'command.addToBacklog': 'Add {type} to backlog',
+    'command.editCurrent': 'Edit “{title}”',
+    'command.trashCurrent': 'Move “{title}” to trash',
+    'command.goTo': 'Go to {view}',
+    'command.undo': 'Undo: {change}',
+    'command.redo': 'Redo: {change}',
+    'command.importCsv': 'Import from Letterboxd or Goodreads',
+    'command.backup': 'Backup & Restore',
+    'command.duplicates': 'Find duplicates',
+    'command.share': 'Share public profile',
+    'command.shortcuts': 'Keyboard shortcuts',
+    'command.switchLanguage': 'Switch language to {language}',
+
+    'shortcut.palette': 'Open the command palette',
+    'shortcut.search': 'Search the library',
+    'shortcut.newEntry': 'Log a new entry in the current list',
+    'shortcut.next': 'Select the next card',
+    'shortcut.previous': 'Select the previous card',
+    'shortcut.belowAbove': 'Select the card below or above',
+    'shortcut.open': 'Open the selected card',
+    'shortcut.edit': 'Edit the selected card or open entry',
+    'shortcut.delete': 'Move the selected card or open entry to the trash',
+    'shortcut.escape': 'Close a dialog, leave an entry or clear the selection',
+    'shortcut.undo': 'Undo',
+    'shortcut.redo': 'Redo',
+    'shortcut.help': 'Show these shortcuts',
+    'shortcut.or': 'or',
+
+    // --- Library ---
+    'shelf.log': 'Log',
+    'shelf.backlog': 'Backlog',
+    'library.searchResults': 'Search Results ({count})',
+    'library.addNew': 'Add New {type}',
+    'library.noMatches': 'Nothing matches your search.',
+    'library.noMatchesHint': 'Try a different query or clear the filters.',
+    'library.emptyLog': 'No {types} logged yet.',
+    'library.emptyBacklog': 'No {types} in your backlog.',
+    'library.emptyHint': 'Click the button above to add your first one!',
+    'library.isbnIssues': { one: '{count} ISBN issue found in your books.', other: '{count} ISBN issues found in your books.' },
+    'library.duplicates': { one: '{count} possible duplicate found in your {types}.', other: '{count} possible duplicates found in your {types}.' },
+    'library.review': 'Review',
+
+    'query.placeholder': 'Search titles, reviews, tags, authors and venues across everything...',
+    'query.search': 'Search',
+    'query.from': 'From',
+    'query.to': 'To',
+    'query.removeTag': 'Remove tag filter {tag}',
+    'query.filterByTag': 'Filter by tag',
+    'query.andTag': 'And…',
+    'query.anyTag': 'Any',
+    'query.sort': 'Sort',
+    'query.clearFilters': 'Clear filters',
+    'sort.newest': 'Newest first',
+    'sort.oldest': 'Oldest first',
+    'sort.highestRated': 'Highest rated',
+    'sort.lowestRated': 'Lowest rated',
+    'sort.titleAsc': 'Title A–Z',
+    'sort.titleDesc': 'Title Z–A',
+    'sort.releaseNewest': 'Release year (newest)',
+    'sort.releaseOldest': 'Release year (oldest)',
+
+    // --- Cards ---
+    'card.readMore': 'Read more',
+    'card.markAs': 'Mark {status}',
+    'card.edit': 'Edit',
+    'card.delete': 'Delete',
+
+    'markdown.spoiler': 'Spoiler',
+    'markdown.spoilerTitled': 'Spoiler: {title}',
+    'markdown.reveal': '(click to reveal)',
+
+    // --- Forms ---
+    'form.logNew': 'Log New {type}',
+    'form.editLog': 'Edit {type} Log',
+    'form.markAs': 'Mark as {status}',
+    'form.save': 'Save {type}',
+    'form.duplicateWarning': { one: 'This looks like an entry you already logged:', other: 'This looks like entries you already logged:' },
+    'form.duplicateHint': 'You can still save it. To log it again, use “{action}” on the existing entry instead.',
+    'form.visibilityHint': 'Applies to the exported public profile. Backlog items are never exported.',
+
+    'sessions.earlier': 'Earlier sessions',
+    'sessions.unrated': 'Unrated',
+    'sessions.remove': 'Remove session',
+    'seasons.title': 'Seasons',
+    'seasons.season': 'Season {number}',
+    'seasons.episodes': 'Episodes',
+    'seasons.clear': 'Clear',
+    'seasons.all': 'All',
+    'seasons.remove': 'Remove season {number}',
+    'seasons.add': 'Add season',
+    'tags.remove': 'Remove tag {tag}',
+    'tags.placeholder': 'e.g. Ghibli marathon',
+
+    'lookup.label': 'Search ({source})',
+    'lookup.offlinePlaceholder': 'Offline: recent searches only',
+    'lookup.failed': 'Search failed. Try again, or fill in the fields below by hand.',
+    'lookup.offlineHint': 'Fill in the fields below by hand; you can look the entry up again once you’re back online.',
+    'offline.youAreOffline': 'You’re offline.',
+    'offline.searchUnavailable': 'You’re offline, so online search is unavailable.',
+    'tmdbError.notConfigured': 'TMDB search needs an API key. Add one in Settings or set TMDB_API_KEY in .env.local.',
+    'tmdbError.unauthorized': 'TMDB rejected the API key. Check it in Settings.',
+    'tmdbError.notFound': 'TMDB has no record of that title.',
+    'tmdbError.rateLimited': 'TMDB is receiving too many requests right now. Try again in a moment.',
+    'tmdbError.server': 'TMDB could not complete the request. Try again later.',
+
+    'editor.toolbar': 'Formatting',
+    'editor.bold': 'Bold',
+    'editor.italic': 'Italic',
+    'editor.heading': 'Heading',
+    'editor.quote': 'Quote',
+    'editor.list': 'List',
+    'editor.link': 'Link',
+    'editor.spoiler': 'Spoiler block',
+    'editor.boldPlaceholder': 'bold text',
+    'editor.italicPlaceholder': 'italic text',
+    'editor.linkPlaceholder': 'link text',
+    'editor.spoilerPlaceholder': 'Hidden until clicked',
+    'editor.hidePreview': 'Hide preview',
+    'editor.showPreview': 'Show preview',
+    'editor.markdownHint': 'Markdown supported. Put spoilers between {start} and {end} lines.',
+    'editor.preview': 'Preview',
+
+    // --- Activity detail ---
+    'detail.back': 'Back',
+    'detail.dated': '{label}: {date}',
+    'detail.noReviewYet': 'No review yet.',
+    'detail.noReview': 'No review.',
+    'revisions.title': 'Revision history',
+    'revisions.beforeHistory': 'Before revision history',
+    'revisions.current': 'Current',
+    'revisions.revert': 'Revert to this version',
+    'revisions.first': 'First saved version.',
+    'revisions.untracked': 'The entry as it was before its first tracked edit.',
+    'revisions.unchanged': 'Saved without changes.',
+    'revisions.reviewChanged': 'Review changed',
+
+    // --- Undo & storage ---
+    'change.create': 'Added “{title}”',
+    'change.edit': 'Updated “{title}”',
+    'change.delete': 'Deleted “{title}”',
+    'change.merge': 'Merged {count} entries into “{title}”',
+    'change.import': { one: 'Imported {count} entry', other: 'Imported {count} entries' },
+    'change.normalizeIsbns': { one: 'Normalized {count} ISBN', other: 'Normalized {count} ISBNs' },
+    'toast.undone': 'Undone: {change}',
+    'toast.redone': 'Redone: {change}',
+    'toast.restored': 'Restored “{title}”',
+    'storageError.quotaExceeded': 'Browser storage is full, so your changes were not saved. Export a backup and free up space.',
+    'storageError.blocked': 'The database is open in another tab with an older version. Close other CulturaLog tabs and reload.',
+    'storageError.outdated': 'CulturaLog was updated in another tab. Reload this tab to keep using your library.',
+    'storageError.reload': 'Reload',
+    'storageError.failed': 'Could not read or save your library.',
+    'storageError.unexpected': 'An unexpected storage error occurred.',
+
+    // --- Settings ---
+    'settings.ratingScale': 'Rating scale',
+    'settings.ratingScaleHint': 'Ratings are stored in half stars, so switching scales never changes your data.',
+    'settings.tmdb': 'TMDB (movie and series search)',
+    'settings.apiKey': 'API key or read access token',
+    'settings.apiKeyFromEnv': 'Using the key from .env.local',
+    'settings.apiKeyPlaceholder': 'v3 API key or v4 read access token',
+    'settings.apiKeyHint': 'Stored in this browser only. Leave blank to use TMDB_API_KEY from .env.local.',
+    'settings.tmdbLanguage': 'Search language',
+    'settings.tmdbRegion': 'Region',
+    'settings.regionPlaceholder': 'e.g. KR',
+    'settings.tmdbHint': 'Titles come back in the language when TMDB has a translation; leave it blank to follow the app language. The region picks local release dates.',
+    'settings.testConnection': 'Test connection',
+    'settings.testing': 'Testing…',
+    'settings.connected': 'Connected.',
+    'settings.testFailed': 'The connection test failed.',
+    'settings.done': 'Done',
+
+    // --- Backup ---
+    'backup.unreadable': 'Could not read the selected file.',
+    'backup.items': { one: '{count} logged item', other: '{count} logged items' },
+    'backup.collections': { one: '{count} collection', other: '{count} collections' },
+    'backup.confirmReplace': 'Replace all {count} logged items with the {incoming} items from this backup?',
+    'backup.confirmMerge': 'Add {count} new items and resolve {conflicts} conflicts?',
+    'backup.export': 'Export',
+    'backup.exportHint': 'Download {items} and {collections} as a single JSON file.',
+    'backup.exportButton': 'Export Backup',
+    'backup.import': 'Import',
+    'backup.summary': 'Backup from {date} with {items} and {collections}.',
+    'backup.unknownDate': 'an unknown date',
+    'backup.mode.merge': 'Merge',
+    'backup.mode.replace': 'Replace',
+    'backup.mergeCounts': '{added} new · {unchanged} unchanged · {conflicts} conflicts',
+    'backup.matchedBy': 'matched by {field}',
+    'backup.keepExisting': 'Keep current',
+    'backup.useIncoming': 'Use backup',
+    'backup.replaceWarning': '{items} and {collections} will be removed.',
+    'backup.apply': 'Apply Import',
+    'matchField.id': 'id',
+    'matchField.tmdbId': 'TMDB id',
+    'matchField.isbn': 'ISBN',
+
+    // --- Public profile ---
+    'share.title': 'Public Profile',
+    'share.failed': 'Could not build the site. Please try again.',
+    'share.siteTitle': 'Site title',
+    'share.author': 'Your name',
+    'share.authorPlaceholder': 'Shown in the footer and the feed',
+    'share.siteUrl': 'Site address',
+    'share.siteUrlHint': 'Optional. Where you will host the files; feed readers need it to follow links.',
+    'share.published': { one: '{count} entry will be published.', other: '{count} entries will be published.' },
+    'share.hiddenReviews': { one: '{count} of them without its review.', other: '{count} of them without their reviews.' },
+    'share.privateLeftOut': { one: '{count} private entry is left out.', other: '{count} private entries are left out.' },
+    'share.backlogExcluded': 'Backlog items are never included.',
+    'share.zipHint': 'The ZIP holds an index per type, a page per entry and an Atom feed of recent reviews. Upload its contents to any static host.',
+    'share.building': 'Building…',
+    'share.exportButton': 'Export Site',
+
+    'site.feedTitle': '{title} reviews',
+    'site.feed': 'Feed',
+    'site.by': 'By {author}',
+    'site.exportedFrom': 'Exported from CulturaLog',
+    'site.recently': 'Recently',
+    'site.allOfType': 'All {types}',
+    'site.feedEntryTitle': '{type}: {title}',
+
+    // --- ISBN cleanup ---
+    'isbn.title': 'ISBN Cleanup',
+    'isbn.allValid': 'Every ISBN in your library is valid and unique.',
+    'isbn.unnormalized': 'Inconsistent format ({count})',
+    'isbn.unnormalizedHint': 'These ISBNs are valid but stored as ISBN-10 or with separators. Normalizing stores them as ISBN-13 digits.',
+    'isbn.normalize': { one: 'Normalize {count} ISBN', other: 'Normalize {count} ISBNs' },
+    'isbn.invalid': 'Invalid ({count})',
+    'isbn.notValid': 'Not a valid ISBN.',
+    'isbn.shared': 'Shared by several books ({count})',
+    'isbn.sameAs': 'Same ISBN as {titles}',
+
+    // --- Duplicates ---
+    'duplicates.title': 'Duplicates',
+    'duplicateReason.tmdbId': 'Same TMDB entry',
+    'duplicateReason.isbn': 'Same ISBN',
+    'duplicateReason.title': 'Similar title',
+    'duplicates.lookupData': '{source} data',
+    'duplicates.otherDetails': 'Other details',
+    'duplicates.filledIn': '{count} of {total} filled in',
+    'duplicates.confirmMerge': 'Merge {count} entries into “{title}”? The others move to the trash.',
+    'duplicates.keep': 'Keep this record',
+    'duplicates.sessions': { one: '{count} session', other: '{count} sessions' },
+    'duplicates.reviews': { one: '{count} review', other: '{count} reviews' },
+    'duplicates.result': 'The merged entry keeps {sessions} with {reviews}.',
+    'duplicates.resultTags': 'Tags: {tags}.',
+    'duplicates.sameDay': 'Same-day sessions are combined.',
+    'duplicates.skip': 'Not duplicates',
+    'duplicates.merge': 'Merge {count} entries',
+    'duplicates.none': 'No likely duplicates in your library.',
+    'duplicates.hint': 'Entries with the same TMDB id or ISBN, or a near-identical title with a matching year, author or venue. Merged-away entries go to the trash, and the merge can be undone.',
+
+    // --- CSV import ---
+    'csv.chooseFile': 'Choose a Letterboxd export (diary.csv, reviews.csv or ratings.csv) or a Goodreads library export (goodreads_library_export.csv).',
+    'csvError.unrecognizedFormat': 'Unrecognized CSV format. Use a Letterboxd diary/reviews/ratings export or a Goodreads library export.',
+    'csv.matching': 'Matching movies on TMDB… {done} / {total}',
+    'csv.matchingStopped': 'Stopped matching movies: {reason} The rest are in the review queue.',
+    'csv.summary': '{source} export: {ready} ready · {review} need review · {skipped} skipped',
+    'csv.reviewQueue': 'Review queue ({count} left)',
+    'csv.row': 'row {row}',
+    'csv.status.ready': 'ready',
+    'csv.status.matched': 'matched',
+    'csv.status.ambiguous': 'several matches',
+    'csv.status.unmatched': 'no match',
+    'csv.manual': 'Import without a TMDB match',
+    'csv.skipRow': 'Skip this row',
+    'csv.ready': 'Ready to import',
+    'csv.reviewMore': 'Review {count} more',
+    'csv.import': { one: 'Import {count} item', other: 'Import {count} items' },
+
+    // --- Collections ---
+    'collections.new': 'New Collection',
+    'collections.edit': 'Edit Collection',
+    'collections.empty': 'Empty',
+    'collections.none': 'No collections yet.',
+    'collections.noneHint': 'Group movies, series, books and events, like a director retrospective or a festival weekend.',
+    'collections.name': 'Name',
+    'collections.namePlaceholder': 'e.g. Ghibli marathon',
+    'collections.description': 'Description',
+    'collections.save': 'Save Collection',
+    'collections.confirmDelete': 'Delete the collection “{name}”? The items in it are kept.',
+    'collections.all': 'All collections',
+    'collections.add': 'Add to collection',
+    'collections.searchPlaceholder': 'Search your library by title...',
+    'collections.emptyHint': 'Search above to add movies, series, books and events.',
+    'collections.moveUp': 'Move {title} up',
+    'collections.moveDown': 'Move {title} down',
+    'collections.remove': 'Remove {title} from collection',
+
+    // --- Calendar & timeline ---
+    'events.upcoming': 'Upcoming',
+    'events.exportIcs': 'Export to calendar (.ics)',
+    'calendar.previousMonth': 'Previous month',
+    'calendar.nextMonth': 'Next month',
+    'calendar.today': 'Today',
+    'calendar.dayLabel': '{date}: {count} logged',
+    'calendar.more': '+{count} more',
+    'calendar.emptyDay': 'Nothing logged on this day.',
+    'calendar.quickAdd': 'Quick add',
+    'timeline.previousYear': 'Previous year',
+    'timeline.nextYear': 'Next year',
+    'timeline.year': 'Year',
+    'timeline.empty': 'Nothing logged in {year}.',
+
+    // --- Trash ---
+    'trash.empty': 'The trash is empty.',
+    'trash.emptyHint': 'Deleted items wait here until you restore them or delete them for good.',
+    'trash.hint': 'Restored items go back to their shelf and any collections they were in.',
+    'trash.emptyTrash': 'Empty trash',
+    'trash.deletedAt': 'Deleted {date}',
+    'trash.restore': 'Restore',
+    'trash.purge': 'Delete forever',
+    'trash.confirmPurge': 'Delete “{title}” permanently? This can’t be undone.',
+    'trash.confirmEmpty': { one: 'Permanently delete the item in the trash? This can’t be undone.', other: 'Permanently delete all {count} items in the trash? This can’t be undone.' },
+
+    // --- Stats ---
+    'stats.none': 'No stats yet.',
+    'stats.noneHint': 'Log a few movies, books or events to see your habits here.',
+    'stats.nothingLogged': 'Nothing logged yet.',
+    'stats.yearOf': '{chart} year',
+    'stats.allYears': 'All years',
+    'stats.perMonth': 'Activities per Month',
+    'stats.ratingDistribution': 'Rating Distribution',
+    'stats.averageByType': 'Average Rating by Type',
+    'stats.releaseDecades': 'Release Decades',
+    'stats.decade': '{decade}s',
+    'stats.noReleaseYears': 'No movies with a release year.',
+    'stats.topAuthors': 'Top Authors',
+    'stats.noBooks': 'No books logged.',
+    'stats.topVenues': 'Most-Visited Venues',
+    'stats.noEvents': 'No events logged.',
+    'stats.average': '{rating} avg',
+};
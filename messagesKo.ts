@@ -0,0 +1,484 @@
+import type { MessageKey } from './i18n';
+import type { ActivityType, ActivityTypeText, Message } from './types';
+
+// The Korean catalog. Korean nouns do not inflect for number, so plural messages are plain strings
+// here; `Intl.PluralRules` only ever selects `other` for `ko`.
+
+export const messagesKo: Record<MessageKey, Message> = {
+    // --- Common ---
+    'common.cancel': '취소',
+    'common.close': '닫기',
+    'common.dismiss': '닫기',
+    'common.none': '없음',
+    'common.unknownYear': '연도 미상',
+    'common.undo': '실행 취소',
+    'common.redo': '다시 실행',
+
+    // --- Fields ---
+    'field.title': '제목',
+    'field.status': '상태',
+    'field.rating': '평점',
+    'field.date': '날짜',
+    'field.sessions': '기록',
+    'field.tags': '태그',
+    'field.visibility': '공개 범위',
+    'field.review': '리뷰',
+
+    'validation.year': '네 자리 연도를 입력하세요.',
+    'validation.isbnLength': 'ISBN은 10자리 또는 13자리입니다(ISBN-10은 X로 끝날 수 있습니다).',
+    'validation.isbnPrefix': 'ISBN-13은 978 또는 979로 시작합니다.',
+    'validation.isbnCheckDigit': '검증 숫자가 맞지 않습니다. 오타가 있는지 확인하세요.',
+
+    // --- Activity types ---
+    'movie.director': '감독 {name}',
+    'movie.runtime': '{minutes}분',
+    'movie.cast': '출연: {names}',
+    'movie.loadingDetails': 'TMDB에서 상세 정보를 불러오는 중…',
+    'series.seasonCount': '시즌 {count}개',
+    'series.episodeProgress': '{watched}/{total}화',
+    'series.episodesWatched': '{total}화 중 {watched}화 시청',
+    'book.pageCount': '{count}쪽',
+    'book.firstPublished': '{year}년 초판',
+    'book.isbn': 'ISBN: {isbn}',
+    'event.with': '출연·참여: {names}',
+    'event.seat': '좌석 {seat}',
+    'event.performersLabel': '출연자 / 주최',
+    'event.removePerformer': '{name} 삭제',
+    'event.performerPlaceholder': '이름을 입력하고 Enter를 누르세요',
+    'event.addPerformer': '추가',
+
+    'eventCategory.exhibition': '전시',
+    'eventCategory.concert': '공연',
+    'eventCategory.theatre': '연극',
+    'eventCategory.other': '기타',
+
+    'visibility.public': '공개',
+    'visibility.hideReview': '공개, 리뷰 숨김',
+    'visibility.private': '비공개',
+
+    // --- Ratings ---
+    'rating.none': '평점 없음',
+    'rating.outOfStars': '별 {max}개 중 {value}개',
+    'rating.outOfPoints': '{max}점 중 {value}점',
+    'rating.clear': '지우기',
+    'ratingScale.halfStars': '별 5개 (반 개 단위)',
+    'ratingScale.stars': '별 5개 (한 개 단위)',
+    'ratingScale.tenPoint': '10점 만점',
+
+    // --- Header ---
+    'nav.collections': '컬렉션',
+    'nav.calendar': '캘린더',
+    'nav.timeline': '타임라인',
+    'nav.stats': '통계',
+    'nav.trash': '휴지통',
+    'header.undoTitle': '실행 취소: {change} (Ctrl+Z)',
+    'header.redoTitle': '다시 실행: {change} (Ctrl+Shift+Z)',
+    'header.nothingToUndo': '실행 취소할 작업이 없습니다',
+    'header.nothingToRedo': '다시 실행할 작업이 없습니다',
+    'header.import': 'CSV 가져오기',
+    'header.backup': '백업',
+    'header.share': '공유',
+    'header.settings': '설정',
+    'header.commands': '명령',
+    'header.paletteTitle': '명령 팔레트 (Ctrl+K)',
+    'header.language': '언어',
+
+    // --- Command palette & shortcuts ---
+    'palette.title': '명령 팔레트',
+    'palette.placeholder': '명령을 입력하거나 검색하세요…',
+    'palette.searchFor': '라이브러리에서 “{text}” 검색',
+    'palette.groupSearch': '검색',
+    'palette.empty': '명령이 없습니다.',
+
+    'command.groupLog': '기록',
+    'command.groupEntry': '항목',
+    'command.groupGoTo': '이동',
+    'command.groupLibrary': '라이브러리',
+    'command.groupApp': '앱',
+    'command.logNew': '새 {type} 기록',
+    'command.addToBacklog': '{type}을(를) 보관함에 추가',
+    'command.editCurrent': '“{title}” 수정',
+    'command.trashCurrent': '“{title}” 휴지통으로 이동',
+    'command.goTo': '{view}(으)로 이동',
+    'command.undo': '실행 취소: {change}',
+    'command.redo': '다시 실행: {change}',
+    'command.importCsv': 'Letterboxd 또는 Goodreads에서 가져오기',
+    'command.backup': '백업 및 복원',
+    'command.duplicates': '중복 항목 찾기',
+    'command.share': '공개 프로필 공유',
+    'command.shortcuts': '키보드 단축키',
+    'command.switchLanguage': '언어를 {language}(으)로 변경',
+
+    'shortcut.palette': '명령 팔레트 열기',
+    'shortcut.search': '라이브러리 검색',
+    'shortcut.newEntry': '현재 목록에 새 항목 기록',
+    'shortcut.next': '다음 카드 선택',
+    'shortcut.previous': '이전 카드 선택',
+    'shortcut.belowAbove': '아래 또는 위 카드 선택',
+    'shortcut.open': '선택한 카드 열기',
+    'shortcut.edit': '선택한 카드나 열린 항목 수정',
+    'shortcut.delete': '선택한 카드나 열린 항목을 휴지통으로 이동',
+    'shortcut.escape': '대화상자 닫기, 항목 나가기 또는 선택 해제',
+    'shortcut.undo': '실행 취소',
+    'shortcut.redo': '다시 실행',
+    'shortcut.help': '단축키 보기',
+    'shortcut.or': '또는',
+
+    // --- Library ---
+    'shelf.log': '기록',
+    'shelf.backlog': '보관함',
+    'library.searchResults': '검색 결과 ({count})',
+    'library.addNew': '새 {type} 추가',
+    'library.noMatches': '검색 결과가 없습니다.',
+    'library.noMatchesHint': '다른 검색어를 입력하거나 필터를 지워 보세요.',
+    'library.emptyLog': '아직 기록한 {types}이(가) 없습니다.',
+    'library.emptyBacklog': '보관함에 {types}이(가) 없습니다.',
+    'library.emptyHint': '위의 버튼을 눌러 첫 항목을 추가하세요!',
+    'library.isbnIssues': '책에서 ISBN 문제를 {count}건 찾았습니다.',
+    'library.duplicates': '{types}에서 중복으로 보이는 항목을 {count}건 찾았습니다.',
+    'library.review': '검토',
+
+    'query.placeholder': '제목, 리뷰, 태그, 저자, 장소를 모두 검색...',
+    'query.search': '검색',
+    'query.from': '시작',
+    'query.to': '끝',
+    'query.removeTag': '태그 필터 {tag} 삭제',
+    'query.filterByTag': '태그로 필터',
+    'query.andTag': '그리고…',
+    'query.anyTag': '전체',
+    'query.sort': '정렬',
+    'query.clearFilters': '필터 지우기',
+    'sort.newest': '최신순',
+    'sort.oldest': '오래된순',
+    'sort.highestRated': '평점 높은순',
+    'sort.lowestRated': '평점 낮은순',
+    'sort.titleAsc': '제목 오름차순',
+    'sort.titleDesc': '제목 내림차순',
+    'sort.releaseNewest': '개봉·출간 연도 (최신순)',
+    'sort.releaseOldest': '개봉·출간 연도 (오래된순)',
+
+    // --- Cards ---
+    'card.readMore': '더 보기',
+    'card.markAs': '{status}(으)로 표시',
+    'card.edit': '수정',
+    'card.delete': '삭제',
+
+    'markdown.spoiler': '스포일러',
+    'markdown.spoilerTitled': '스포일러: {title}',
+    'markdown.reveal': '(클릭하면 보입니다)',
+
+    // --- Forms ---
+    'form.logNew': '새 {type} 기록',
+    'form.editLog': '{type} 기록 수정',
+    'form.markAs': '{status}(으)로 표시',
+    'form.save': '{type} 저장',
+    'form.duplicateWarning': '이미 기록한 항목과 비슷합니다:',
+    'form.duplicateHint': '그래도 저장할 수 있습니다. 다시 기록하려면 기존 항목에서 “{action}”을(를) 사용하세요.',
+    'form.visibilityHint': '내보낸 공개 프로필에 적용됩니다. 보관함 항목은 내보내지 않습니다.',
+
+    'sessions.earlier': '이전 기록',
+    'sessions.unrated': '평점 없음',
+    'sessions.remove': '기록 삭제',
+    'seasons.title': '시즌',
+    'seasons.season': '시즌 {number}',
+    'seasons.episodes': '에피소드',
+    'seasons.clear': '지우기',
+    'seasons.all': '전체',
+    'seasons.remove': '시즌 {number} 삭제',
+    'seasons.add': '시즌 추가',
+    'tags.remove': '태그 {tag} 삭제',
+    'tags.placeholder': '예: 지브리 정주행',
+
+    'lookup.label': '검색 ({source})',
+    'lookup.offlinePlaceholder': '오프라인: 최근 검색만 가능',
+    'lookup.failed': '검색하지 못했습니다. 다시 시도하거나 아래 항목을 직접 입력하세요.',
+    'lookup.offlineHint': '아래 항목을 직접 입력하세요. 다시 온라인이 되면 검색할 수 있습니다.',
+    'offline.youAreOffline': '오프라인 상태입니다.',
+    'offline.searchUnavailable': '오프라인 상태라 온라인 검색을 사용할 수 없습니다.',
+    'tmdbError.notConfigured': 'TMDB 검색에는 API 키가 필요합니다. 설정에서 추가하거나 .env.local에 TMDB_API_KEY를 지정하세요.',
+    'tmdbError.unauthorized': 'TMDB가 API 키를 거부했습니다. 설정에서 확인하세요.',
+    'tmdbError.notFound': 'TMDB에 해당 작품이 없습니다.',
+    'tmdbError.rateLimited': '지금 TMDB에 요청이 너무 많습니다. 잠시 후 다시 시도하세요.',
+    'tmdbError.server': 'TMDB가 요청을 처리하지 못했습니다. 나중에 다시 시도하세요.',
+
+    'editor.toolbar': '서식',
+    'editor.bold': '굵게',
+    'editor.italic': '기울임',
+    'editor.heading': '제목',
+    'editor.quote': '인용',
+    'editor.list': '목록',
+    'editor.link': '링크',
+    'editor.spoiler': '스포일러 블록',
+    'editor.boldPlaceholder': '굵은 텍스트',
+    'editor.italicPlaceholder': '기울인 텍스트',
+    'editor.linkPlaceholder': '링크 텍스트',
+    'editor.spoilerPlaceholder': '클릭할 때까지 숨겨집니다',
+    'editor.hidePreview': '미리보기 숨기기',
+    'editor.showPreview': '미리보기 보기',
+    'editor.markdownHint': '마크다운을 쓸 수 있습니다. 스포일러는 {start} 줄과 {end} 줄 사이에 넣으세요.',
+    'editor.preview': '미리보기',
+
+    // --- Activity detail ---
+    'detail.back': '뒤로',
+    'detail.dated': '{label}: {date}',
+    'detail.noReviewYet': '아직 리뷰가 없습니다.',
+    'detail.noReview': '리뷰 없음.',
+    'revisions.title': '수정 기록',
+    'revisions.beforeHistory': '수정 기록 이전',
+    'revisions.current': '현재',
+    'revisions.revert': '이 버전으로 되돌리기',
+    'revisions.first': '처음 저장한 버전입니다.',
+    'revisions.untracked': '처음 추적된 수정 이전의 항목입니다.',
+    'revisions.unchanged': '변경 없이 저장했습니다.',
+    'revisions.reviewChanged': '리뷰 변경',
+
+    // --- Undo & storage ---
+    'change.create': '“{title}” 추가',
+    'change.edit': '“{title}” 수정',
+    'change.delete': '“{title}” 삭제',
+    'change.merge': '항목 {count}개를 “{title}”(으)로 병합',
+    'change.import': '항목 {count}개 가져오기',
+    'change.normalizeIsbns': 'ISBN {count}개 정리',
+    'toast.undone': '실행 취소함: {change}',
+    'toast.redone': '다시 실행함: {change}',
+    'toast.restored': '“{title}” 복원함',
+    'storageError.quotaExceeded': '브라우저 저장 공간이 가득 차서 변경 사항을 저장하지 못했습니다. 백업을 내보내고 공간을 확보하세요.',
+    'storageError.blocked': '다른 탭에서 이전 버전의 데이터베이스가 열려 있습니다. 다른 CulturaLog 탭을 닫고 새로고침하세요.',
+    'storageError.outdated': '다른 탭에서 CulturaLog가 업데이트되었습니다. 라이브러리를 계속 쓰려면 이 탭을 새로고침하세요.',
+    'storageError.reload': '새로고침',
+    'storageError.failed': '라이브러리를 읽거나 저장하지 못했습니다.',
+    'storageError.unexpected': '예기치 않은 저장소 오류가 발생했습니다.',
+
+    // --- Settings ---
+    'settings.ratingScale': '평점 척도',
+    'settings.ratingScaleHint': '평점은 별 반 개 단위로 저장되므로 척도를 바꿔도 데이터는 바뀌지 않습니다.',
+    'settings.tmdb': 'TMDB (영화·시리즈 검색)',
+    'settings.apiKey': 'API 키 또는 읽기 액세스 토큰',
+    'settings.apiKeyFromEnv': '.env.local의 키 사용 중',
+    'settings.apiKeyPlaceholder': 'v3 API 키 또는 v4 읽기 액세스 토큰',
+    'settings.apiKeyHint': '이 브라우저에만 저장됩니다. 비워 두면 .env.local의 TMDB_API_KEY를 사용합니다.',
+    'settings.tmdbLanguage': '검색 언어',
+    'settings.tmdbRegion': '지역',
+    'settings.regionPlaceholder': '예: KR',
+    'settings.tmdbHint': 'TMDB에 번역이 있으면 제목이 이 언어로 표시됩니다. 비워 두면 앱 언어를 따릅니다. 지역은 현지 개봉일을 정합니다.',
+    'settings.testConnection': '연결 테스트',
+    'settings.testing': '테스트 중…',
+    'settings.connected': '연결되었습니다.',
+    'settings.testFailed': '연결 테스트에 실패했습니다.',
+    'settings.done': '완료',
+
+    // --- Backup ---
+    'backup.unreadable': '선택한 파일을 읽지 못했습니다.',
+    'backup.items': '기록 {count}개',
+    'backup.collections': '컬렉션 {count}개',
+    'backup.confirmReplace': '기록 {count}개를 모두 이 백업의 항목 {incoming}개로 바꿀까요?',
+    'backup.confirmMerge': '새 항목 {count}개를 추가하고 충돌 {conflicts}건을 해결할까요?',
+    'backup.export': '내보내기',
+    'backup.exportHint': '{items}와(과) {collections}를 JSON 파일 하나로 내려받습니다.',
+    'backup.exportButton': '백업 내보내기',
+    'backup.import': '가져오기',
+    'backup.summary': '{date}의 백업: {items}, {collections}.',
+    'backup.unknownDate': '날짜 미상',
+    'backup.mode.merge': '병합',
+    'backup.mode.replace': '교체',
+    'backup.mergeCounts': '새 항목 {added} · 변경 없음 {unchanged} · 충돌 {conflicts}',
+    'backup.matchedBy': '{field}(으)로 일치',
+    'backup.keepExisting': '현재 항목 유지',
+    'backup.useIncoming': '백업 사용',
+    'backup.replaceWarning': '{items}와(과) {collections}가 삭제됩니다.',
+    'backup.apply': '가져오기 적용',
+    'matchField.id': 'ID',
+    'matchField.tmdbId': 'TMDB ID',
+    'matchField.isbn': 'ISBN',
+
+    // --- Public profile ---
+    'share.title': '공개 프로필',
+    'share.failed': '사이트를 만들지 못했습니다. 다시 시도하세요.',
+    'share.siteTitle': '사이트 제목',
+    'share.author': '이름',
+    'share.authorPlaceholder': '푸터와 피드에 표시됩니다',
+    'share.siteUrl': '사이트 주소',
+    'share.siteUrlHint': '선택 사항. 파일을 올릴 주소로, 피드 리더가 링크를 따라가려면 필요합니다.',
+    'share.published': '항목 {count}개가 공개됩니다.',
+    'share.hiddenReviews': '그중 {count}개는 리뷰 없이 공개됩니다.',
+    'share.privateLeftOut': '비공개 항목 {count}개는 제외됩니다.',
+    'share.backlogExcluded': '보관함 항목은 포함되지 않습니다.',
+    'share.zipHint': 'ZIP에는 유형별 목록, 항목별 페이지, 최근 리뷰의 Atom 피드가 들어 있습니다. 내용을 아무 정적 호스팅에나 올리세요.',
+    'share.building': '만드는 중…',
+    'share.exportButton': '사이트 내보내기',
+
+    'site.feedTitle': '{title} 리뷰',
+    'site.feed': '피드',
+    'site.by': '{author}',
+    'site.exportedFrom': 'CulturaLog에서 내보냄',
+    'site.recently': '최근 기록',
+    'site.allOfType': '전체 {types}',
+    'site.feedEntryTitle': '{type}: {title}',
+
+    // --- ISBN cleanup ---
+    'isbn.title': 'ISBN 정리',
+    'isbn.allValid': '라이브러리의 모든 ISBN이 올바르고 중복이 없습니다.',
+    'isbn.unnormalized': '형식 불일치 ({count})',
+    'isbn.unnormalizedHint': '올바른 ISBN이지만 ISBN-10이나 구분 기호가 있는 형태로 저장되어 있습니다. 정리하면 ISBN-13 숫자로 저장합니다.',
+    'isbn.normalize': 'ISBN {count}개 정리',
+    'isbn.invalid': '잘못된 ISBN ({count})',
+    'isbn.notValid': '올바른 ISBN이 아닙니다.',
+    'isbn.shared': '여러 책이 같은 ISBN 사용 ({count})',
+    'isbn.sameAs': '{titles}와(과) 같은 ISBN',
+
+    // --- Duplicates ---
+    'duplicates.title': '중복 항목',
+    'duplicateReason.tmdbId': '같은 TMDB 항목',
+    'duplicateReason.isbn': '같은 ISBN',
+    'duplicateReason.title': '비슷한 제목',
+    'duplicates.lookupData': '{source} 데이터',
+    'duplicates.otherDetails': '기타 정보',
+    'duplicates.filledIn': '{total}개 중 {count}개 입력됨',
+    'duplicates.confirmMerge': '항목 {count}개를 “{title}”(으)로 병합할까요? 나머지는 휴지통으로 이동합니다.',
+    'duplicates.keep': '이 항목 유지',
+    'duplicates.sessions': '기록 {count}개',
+    'duplicates.reviews': '리뷰 {count}개',
+    'duplicates.result': '병합한 항목에는 {sessions}과(와) {reviews}가 남습니다.',
+    'duplicates.resultTags': '태그: {tags}.',
+    'duplicates.sameDay': '같은 날의 기록은 하나로 합칩니다.',
+    'duplicates.skip': '중복 아님',
+    'duplicates.merge': '항목 {count}개 병합',
+    'duplicates.none': '라이브러리에 중복으로 보이는 항목이 없습니다.',
+    'duplicates.hint': 'TMDB ID나 ISBN이 같거나, 제목이 거의 같고 연도·저자·장소가 일치하는 항목입니다. 병합으로 빠진 항목은 휴지통으로 이동하며 병합은 되돌릴 수 있습니다.',
+
+    // --- CSV import ---
+    'csv.chooseFile': 'Letterboxd 내보내기 파일(diary.csv, reviews.csv, ratings.csv)이나 Goodreads 라이브러리 내보내기 파일(goodreads_library_export.csv)을 선택하세요.',
+    'csvError.unrecognizedFormat': '알 수 없는 CSV 형식입니다. Letterboxd의 diary/reviews/ratings 내보내기 파일이나 Goodreads 라이브러리 내보내기 파일을 사용하세요.',
+    'csv.matching': 'TMDB에서 영화를 찾는 중… {done} / {total}',
+    'csv.matchingStopped': '영화 찾기를 중단했습니다. {reason} 나머지 영화는 검토 대기에 있습니다.',
+    'csv.summary': '{source} 내보내기: 준비 {ready} · 검토 필요 {review} · 건너뜀 {skipped}',
+    'csv.reviewQueue': '검토 대기 ({count}개 남음)',
+    'csv.row': '{row}행',
+    'csv.status.ready': '준비됨',
+    'csv.status.matched': '일치',
+    'csv.status.ambiguous': '여러 후보',
+    'csv.status.unmatched': '일치 없음',
+    'csv.manual': 'TMDB 정보 없이 가져오기',
+    'csv.skipRow': '이 행 건너뛰기',
+    'csv.ready': '가져올 항목',
+    'csv.reviewMore': '{count}개 더 검토',
+    'csv.import': '항목 {count}개 가져오기',
+
+    // --- Collections ---
+    'collections.new': '새 컬렉션',
+    'collections.edit': '컬렉션 수정',
+    'collections.empty': '비어 있음',
+    'collections.none': '아직 컬렉션이 없습니다.',
+    'collections.noneHint': '감독 회고전이나 페스티벌 주말처럼 영화, 시리즈, 책, 이벤트를 묶어 보세요.',
+    'collections.name': '이름',
+    'collections.namePlaceholder': '예: 지브리 정주행',
+    'collections.description': '설명',
+    'collections.save': '컬렉션 저장',
+    'collections.confirmDelete': '“{name}” 컬렉션을 삭제할까요? 안에 있는 항목은 유지됩니다.',
+    'collections.all': '전체 컬렉션',
+    'collections.add': '컬렉션에 추가',
+    'collections.searchPlaceholder': '라이브러리에서 제목으로 검색...',
+    'collections.emptyHint': '위에서 검색해 영화, 시리즈, 책, 이벤트를 추가하세요.',
+    'collections.moveUp': '{title} 위로 이동',
+    'collections.moveDown': '{title} 아래로 이동',
+    'collections.remove': '컬렉션에서 {title} 삭제',
+
+    // --- Calendar & timeline ---
+    'events.upcoming': '다가오는 이벤트',
+    'events.exportIcs': '캘린더로 내보내기 (.ics)',
+    'calendar.previousMonth': '이전 달',
+    'calendar.nextMonth': '다음 달',
+    'calendar.today': '오늘',
+    'calendar.dayLabel': '{date}: {count}개 기록',
+    'calendar.more': '+{count}개 더',
+    'calendar.emptyDay': '이 날에는 기록이 없습니다.',
+    'calendar.quickAdd': '빠른 추가',
+    'timeline.previousYear': '이전 해',
+    'timeline.nextYear': '다음 해',
+    'timeline.year': '연도',
+    'timeline.empty': '{year}년에는 기록이 없습니다.',
+
+    // --- Trash ---
+    'trash.empty': '휴지통이 비어 있습니다.',
+    'trash.emptyHint': '삭제한 항목은 복원하거나 영구 삭제할 때까지 여기에 남습니다.',
+    'trash.hint': '복원한 항목은 원래 목록과 속해 있던 컬렉션으로 돌아갑니다.',
+    'trash.emptyTrash': '휴지통 비우기',
+    'trash.deletedAt': '{date} 삭제',
+    'trash.restore': '복원',
+    'trash.purge': '영구 삭제',
+    'trash.confirmPurge': '“{title}”을(를) 영구 삭제할까요? 되돌릴 수 없습니다.',
+    'trash.confirmEmpty': '휴지통의 항목 {count}개를 모두 영구 삭제할까요? 되돌릴 수 없습니다.',
+
+    // --- Stats ---
+    'stats.none': '아직 통계가 없습니다.',
+    'stats.noneHint': '영화, 책, 이벤트를 몇 개 기록하면 여기에서 취향을 볼 수 있습니다.',
+    'stats.nothingLogged': '아직 기록이 없습니다.',
+    'stats.yearOf': '{chart} 연도',
+    'stats.allYears': '전체 연도',
+    'stats.perMonth': '월별 기록',
+    'stats.ratingDistribution': '평점 분포',
+    'stats.averageByType': '유형별 평균 평점',
+    'stats.releaseDecades': '개봉 연대',
+    'stats.decade': '{decade}년대',
+    'stats.noReleaseYears': '개봉 연도가 있는 영화가 없습니다.',
+    'stats.topAuthors': '많이 읽은 저자',
+    'stats.noBooks': '기록한 책이 없습니다.',
+    'stats.topVenues': '자주 간 장소',
+    'stats.noEvents': '기록한 이벤트가 없습니다.',
+    'stats.average': '평균 {rating}',
+};
+
+export const typeTextKo: Record<ActivityType, ActivityTypeText> = {
+    movie: {
+        label: '영화',
+        singular: '영화',
+        count: '영화 {count}편',
+        statusLabels: { planned: '보고 싶어요', inProgress: '보는 중', completed: '봤어요', abandoned: '그만 봤어요' },
+        dateLabels: { planned: '추가한 날', inProgress: '시작한 날', completed: '본 날', abandoned: '그만둔 날' },
+        repeatCount: '{count}번 관람',
+        repeatLabel: '다시 본 기록 추가',
+        fieldLabels: { releaseYear: '개봉 연도' },
+        lookupPlaceholder: '영화 제목으로 검색...',
+    },
+    series: {
+        label: '시리즈',
+        singular: '시리즈',
+        count: '시리즈 {count}편',
+        statusLabels: { planned: '보고 싶어요', inProgress: '보는 중', completed: '다 봤어요', abandoned: '하차' },
+        dateLabels: { planned: '추가한 날', inProgress: '시작한 날', completed: '다 본 날', abandoned: '하차한 날' },
+        repeatCount: '{count}번 시청',
+        repeatLabel: '다시 본 기록 추가',
+        ratingLabel: '전체 평점',
+        fieldLabels: { firstAirYear: '첫 방영 연도' },
+        lookupPlaceholder: 'TV 시리즈 검색...',
+    },
+    book: {
+        label: '책',
+        singular: '책',
+        count: '책 {count}권',
+        statusLabels: { planned: '읽고 싶어요', inProgress: '읽는 중', completed: '읽었어요', abandoned: '그만 읽었어요' },
+        dateLabels: { planned: '추가한 날', inProgress: '시작한 날', completed: '읽은 날', abandoned: '그만둔 날' },
+        repeatCount: '{count}번 읽음',
+        repeatLabel: '다시 읽은 기록 추가',
+        fieldLabels: { author: '저자', isbn: 'ISBN' },
+        lookupPlaceholder: '제목이나 ISBN으로 검색...',
+    },
+    event: {
+        label: '이벤트',
+        singular: '이벤트',
+        count: '이벤트 {count}개',
+        statusLabels: { planned: '예정', inProgress: '진행 중', completed: '다녀왔어요', abandoned: '놓쳤어요' },
+        dateLabels: { planned: '이벤트 날짜', inProgress: '시작 날짜', completed: '다녀온 날', abandoned: '이벤트 날짜' },
+        repeatCount: '{count}번 관람',
+        repeatLabel: '다시 방문한 기록 추가',
+        fieldLabels: {
+            venue: '장소',
+            ticketPrice: '티켓 가격',
+            seat: '좌석',
+            category: '분류',
+            startsAt: '시작',
+            endsAt: '종료',
+            performers: '출연자',
+        },
+    },
+};
@@ -0,0 +1,86 @@
+import { ACTIVITY_TYPES } from './activityTypes';
+import { markdownToPlainText } from './markdown';
+import { isLoggedStatus } from './status';
+import type { Translator } from './i18n';
+import type { Activity, ActivityType, PublicProfile, Visibility } from './types';
+
+// What the static site export publishes and where each page goes. Rendering lives in
+// staticSite.tsx; everything here is pure.
+
+export const VISIBILITIES: Visibility[] = ['public', 'hideReview', 'private'];
+
+export const isVisibility = (value: unknown): value is Visibility => VISIBILITIES.includes(value as Visibility);
+
+export const visibilityOf = (item: Activity): Visibility => item.visibility ?? 'public';
+
+/** The copy of `item` that may be published: review texts are blanked for 'hideReview'. */
+export const publicActivity = <T extends Activity>(item: T): T => visibilityOf(item) !== 'hideReview' ? item : {
+    ...item,
+    review: '',
+    sessions: item.sessions.map(session => ({ ...session, review: '' })),
+};
+
+/** Logged, non-private activities as they may be published, newest first. Backlog items stay home. */
+export const publishedActivities = (activities: Activity[]): Activity[] =>
+    activities
+        .filter(item => isLoggedStatus(item.status) && visibilityOf(item) !== 'private')
+        .map(publicActivity)
+        .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+
+// --- Paths ---
+
+/** Keeps letters and digits in any script, so Korean titles still give readable file names. */
+const slugify = (text: string): string =>
+    text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+
+export const typeIndexPath = (type: ActivityType): string => `${type}/index.html`;
+
+/** Unique per activity: the slug is for readers, the id prefix for uniqueness. */
+export const entryPath = (item: Activity): string => `${item.type}/${[slugify(item.title), item.id.slice(0, 8)].filter(Boolean).join('-')}.html`;
+
+/** `path` as seen from the page at `fromPath`, both relative to the site root. */
+export const relativePath = (fromPath: string, path: string): string => '../'.repeat(fromPath.split('/').length - 1) + path;
+
+export const publishedTypes = (items: Activity[]): ActivityType[] => ACTIVITY_TYPES.filter(type => items.some(item => item.type === type));
+
+// --- Feed ---
+
+export const FEED_PATH = 'feed.xml';
+export const FEED_ENTRY_LIMIT = 20;
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Dates are stored as `YYYY-MM-DD` or full ISO strings; Atom needs a full timestamp.
+const toAtomDate = (date: string): string => new Date(date.length === 10 ? `${date}T00:00:00Z` : date).toISOString();
+
+/**
+ * An Atom feed of the most recent published reviews, as plain text with spoilers masked. Links are
+ * absolute when the profile has a site URL and relative to the feed otherwise.
+ */
+export const reviewFeed = (published: Activity[], profile: PublicProfile, i18n: Translator, now: Date = new Date()): string => {
+    const link = (path: string) => profile.siteUrl ? new URL(path, profile.siteUrl.replace(/\/?$/, '/')).href : path;
+    const entries = published.filter(item => item.review.trim()).slice(0, FEED_ENTRY_LIMIT);
+    const updated = entries.length > 0 ? toAtomDate(entries[0].date) : now.toISOString();
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${i18n.locale}">`,
+        `  <title>${escapeXml(profile.title)}</title>`,
+        `  <id>${escapeXml(profile.siteUrl ? link(FEED_PATH) : `urn:culturalog:profile:${slugify(profile.title) || 'feed'}`)}</id>`,
+        `  <updated>${updated}</updated>`,
+        `  <link rel="alternate" href="${escapeXml(link('index.html'))}"/>`,
+        `  <link rel="self" href="${escapeXml(link(FEED_PATH))}"/>`,
+        `  <author><name>${escapeXml(profile.author || profile.title)}</name></author>`,
+        ...entries.map(item => [
+            '  <entry>',
+            `    <title>${escapeXml(i18n.t('site.feedEntryTitle', { type: i18n.type(item.type).singular, title: item.title }))}</title>`,
+            `    <id>urn:culturalog:activity:${escapeXml(item.id)}</id>`,
+            `    <updated>${toAtomDate(item.date)}</updated>`,
+            `    <link rel="alternate" href="${escapeXml(link(entryPath(item)))}"/>`,
+            ...item.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+            `    <content type="text">${escapeXml(markdownToPlainText(item.review, i18n))}</content>`,
+            '  </entry>',
+        ].join('\n')),
+        '</feed>',
+    ].join('\n') + '\n';
+};
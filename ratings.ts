@@ -0,0 +1,73 @@
+import type { Translator } from './i18n';
+import type { Activity, RatingScale } from './types';
+
+// Ratings are stored on a single scale whatever the display setting: 0-5 in half steps, with 0
+// meaning "not rated". The 10-point scale maps onto it exactly (7/10 is stored as 3.5), so stats,
+// sorting and filters agree across scales and switching scales never changes stored data.
+
+export const RATING_MAX = 5;
+export const RATING_STEP = 0.5;
+
+export interface RatingScaleDefinition {
+    max: number; // in display units
+    step: number; // smallest input increment, in display units
+    unit: 'stars' | 'points';
+}
+
+export const RATING_SCALES: Record<RatingScale, RatingScaleDefinition> = {
+    halfStars: { max: 5, step: 0.5, unit: 'stars' },
+    stars: { max: 5, step: 1, unit: 'stars' },
+    tenPoint: { max: 10, step: 1, unit: 'points' },
+};
+
+export const DEFAULT_RATING_SCALE: RatingScale = 'halfStars';
+
+export const isRatingScale = (value: unknown): value is RatingScale =>
+    typeof value === 'string' && Object.hasOwn(RATING_SCALES, value);
+
+/** Clamps to 0-5 and rounds to the nearest half. */
+export const normalizeRating = (value: number): number =>
+    Number.isFinite(value) ? Math.min(RATING_MAX, Math.max(0, Math.round(value / RATING_STEP) * RATING_STEP)) : 0;
+
+export const isNormalizedRating = (value: number): boolean => normalizeRating(value) === value;
+
+export const toDisplayRating = (rating: number, scale: RatingScale): number => rating * RATING_SCALES[scale].max / RATING_MAX;
+
+/** The stored rating for a value on `scale`, rounded to the scale's step. */
+export const fromDisplayRating = (value: number, scale: RatingScale): number => {
+    const { max, step } = RATING_SCALES[scale];
+    const stepped = Math.min(max, Math.max(0, Math.round(value / step) * step));
+    return normalizeRating(stepped * RATING_MAX / max);
+};
+
+/** One step of `scale` in stored units: 0.5 for half stars and points, 1 for whole stars. */
+export const storedRatingStep = (scale: RatingScale): number => RATING_SCALES[scale].step * RATING_MAX / RATING_SCALES[scale].max;
+
+/** Every stored rating `scale` can express, from 0 up. */
+export const ratingSteps = (scale: RatingScale): number[] => {
+    const step = storedRatingStep(scale);
+    return Array.from({ length: RATING_MAX / step + 1 }, (_, i) => i * step);
+};
+
+/** E.g. "3.5★" or "7/10". Also used for averages, which are shown to one decimal. */
+export const formatRating = (rating: number, scale: RatingScale, i18n: Translator): string => {
+    const { max, unit } = RATING_SCALES[scale];
+    const value = i18n.formatNumber(toDisplayRating(rating, scale), { maximumFractionDigits: 1 });
+    return unit === 'stars' ? `${value}★` : `${value}/${i18n.formatNumber(max)}`;
+};
+
+/** Screen reader text, e.g. "3.5 out of 5 stars". */
+export const describeRating = (rating: number, scale: RatingScale, i18n: Translator): string => {
+    const { max, unit } = RATING_SCALES[scale];
+    if (rating <= 0) return i18n.t('rating.none');
+    const value = i18n.formatNumber(toDisplayRating(rating, scale), { maximumFractionDigits: 1 });
+    return i18n.t(unit === 'stars' ? 'rating.outOfStars' : 'rating.outOfPoints', { value, max });
+};
+
+/** Rounds every rating on `item` (its own, its sessions' and any season ratings) to the stored scale. */
+export const normalizeRatings = <T extends Activity>(item: T): T => ({
+    ...item,
+    rating: normalizeRating(item.rating),
+    sessions: item.sessions.map(session => ({ ...session, rating: normalizeRating(session.rating) })),
+    ...(item.type === 'series' && { seasons: item.seasons.map(season => ({ ...season, rating: normalizeRating(season.rating) })) }),
+});
@@ -0,0 +1,85 @@
+import { activityTypeFor } from './activityTypes';
+import { visibilityOf } from './publicProfile';
+import { formatRating } from './ratings';
+import type { Translator } from './i18n';
+import type { Activity, RatingScale, Revision, RevisionFieldChange, TextDiffSegment } from './types';
+
+// Revision history for single activities: every save through the form stores a full copy of the
+// record, and the detail page diffs consecutive copies field by field.
+
+export const createRevision = (activity: Activity, savedAt: string | null = new Date().toISOString()): Revision => ({
+    id: crypto.randomUUID(),
+    activityId: activity.id,
+    savedAt,
+    activity,
+});
+
+const formatValue = (value: unknown): string =>
+    Array.isArray(value) ? value.join(', ') : value === undefined || value === null ? '' : String(value);
+
+const fieldValue = (item: Activity, field: string): unknown => (item as unknown as Record<string, unknown>)[field];
+
+/** The fields that differ between two versions of an activity, formatted for display; `review` holds the full texts. */
+export const diffActivities = (before: Activity, after: Activity, scale: RatingScale, i18n: Translator): RevisionFieldChange[] => {
+    const { t } = i18n;
+    const text = i18n.type(after.type);
+    const fields: { field: string; label: string; format: (item: Activity) => string }[] = [
+        { field: 'title', label: t('field.title'), format: item => item.title },
+        { field: 'status', label: t('field.status'), format: item => text.statusLabels[item.status] },
+        { field: 'rating', label: t('field.rating'), format: item => item.rating > 0 ? formatRating(item.rating, scale, i18n) : t('rating.none') },
+        { field: 'date', label: t('field.date'), format: item => i18n.formatDate(item.date.substring(0, 10)) },
+        { field: 'sessions', label: t('field.sessions'), format: item => i18n.formatNumber(item.sessions.length) },
+        { field: 'tags', label: t('field.tags'), format: item => i18n.formatList(item.tags) },
+        ...activityTypeFor(after.type).fields
+            .filter(({ name }) => name in text.fieldLabels)
+            .map(({ name }) => ({ field: name, label: text.fieldLabels[name], format: (item: Activity) => formatValue(fieldValue(item, name)) })),
+        { field: 'visibility', label: t('field.visibility'), format: item => t(`visibility.${visibilityOf(item)}`) },
+        { field: 'review', label: t('field.review'), format: item => item.review },
+    ];
+    return fields
+        .map(({ field, label, format }) => ({ field, label, before: format(before), after: format(after) }))
+        .filter(change => change.before !== change.after);
+};
+
+// Word diffs are quadratic; beyond this many token pairs the texts are shown as replaced wholesale.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** A word-level diff of two texts (longest common subsequence), with whitespace kept in the segments. */
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ kind: 'removed' as const, text: before }, { kind: 'added' as const, text: after }].filter(segment => segment.text);
+    }
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: TextDiffSegment[] = [];
+    const push = (kind: TextDiffSegment['kind'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.kind === kind) last.text += text;
+        else segments.push({ kind, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    a.slice(i).forEach(token => push('removed', token));
+    b.slice(j).forEach(token => push('added', token));
+    return segments;
+};
@@ -0,0 +1,103 @@
+// Service worker for the production build. `vite.config.ts` emits this file as `sw.js` with the
+// build's file list and a version substituted for the placeholders below, so every deploy gets a
+// fresh app shell cache. Library data lives in IndexedDB and is never touched here.
+
+const PRECACHE_FILES = self.__PRECACHE_FILES__;
+const CACHE_VERSION = self.__CACHE_VERSION__;
+
+const SHELL_CACHE = `culturalog-shell-${CACHE_VERSION}`;
+const IMAGE_CACHE = 'culturalog-images-cors';
+// Held opaque posters from before images were requested with CORS; dropped on activate.
+const STALE_CACHES = ['culturalog-images'];
+const CDN_CACHE = 'culturalog-cdn';
+const IMAGE_CACHE_LIMIT = 300;
+
+// Posters and covers are cached as they are viewed; the Tailwind runtime is loaded from a CDN.
+const IMAGE_ORIGINS = ['https://image.tmdb.org', 'https://covers.openlibrary.org'];
+const CDN_ORIGINS = ['https://cdn.tailwindcss.com'];
+
+const scoped = (file) => new URL(file, self.registration.scope).href;
+
+// Posters and covers are requested with `crossOrigin="anonymous"` (both hosts send CORS headers), so
+// only real successes are cached: browsers pad every opaque response by megabytes against the
+// origin quota, which IndexedDB shares. The Tailwind <script> is the one opaque response kept.
+const isCacheable = (response) => response.ok;
+const isCacheableScript = (response) => response.ok || response.type === 'opaque';
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(PRECACHE_FILES.map(scoped)))
+            .then(() => self.skipWaiting()),
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys
+                .filter((key) => (key.startsWith('culturalog-shell-') && key !== SHELL_CACHE) || STALE_CACHES.includes(key))
+                .map((key) => caches.delete(key))))
+            .then(() => self.clients.claim()),
+    );
+});
+
+/** Drops the oldest entries (cache keys keep insertion order) once the cache outgrows `limit`. */
+const trimCache = async (cacheName, limit) => {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName, limit) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (isCacheable(response)) {
+        const cache = await caches.open(cacheName);
+        await cache.put(request, response.clone());
+        if (limit) trimCache(cacheName, limit);
+    }
+    return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    const refresh = fetch(request)
+        .then((response) => {
+            if (isCacheableScript(response)) cache.put(request, response.clone());
+            return response;
+        })
+        .catch(() => cached);
+    return cached ?? refresh;
+};
+
+/** Pages always try the network first so a deploy shows up on reload; offline they get the cached shell. */
+const networkFirstPage = async (request) => {
+    try {
+        return await fetch(request);
+    } catch (error) {
+        const shell = await caches.match(scoped('index.html'));
+        if (shell) return shell;
+        throw error;
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirstPage(request));
+    } else if (IMAGE_ORIGINS.includes(url.origin)) {
+        event.respondWith(cacheFirst(request, IMAGE_CACHE, IMAGE_CACHE_LIMIT));
+    } else if (CDN_ORIGINS.includes(url.origin)) {
+        event.respondWith(staleWhileRevalidate(request, CDN_CACHE));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+    }
+    // Everything else (TMDB and Open Library APIs) goes straight to the network; the services keep
+    // their own response caches and report offline failures to the UI.
+});
@@ -1,56 +1,637 @@
-import { TMDB_API_KEY, TMDB_API_BASE_URL, STORAGE_KEY_MOVIES, STORAGE_KEY_BOOKS, STORAGE_KEY_EVENTS } from './constants';
-import type { Movie, Book, Event, TmdbMovieSearchResult } from './types';
+import { TMDB_API_KEY, TMDB_LANGUAGE, TMDB_REGION, TMDB_MAX_RETRIES, TMDB_RETRY_BASE_DELAY_MS, TMDB_API_BASE_URL, TMDB_CACHE_PREFIX, OPEN_LIBRARY_API_BASE_URL, OPEN_LIBRARY_CACHE_PREFIX, OPEN_LIBRARY_SEARCH_CACHE_TTL_MS, OPEN_LIBRARY_SEARCH_LIMIT, TMDB_SEARCH_CACHE_TTL_MS, TMDB_DETAILS_CACHE_TTL_MS, TMDB_CAST_LIMIT, METADATA_MAX_AGE_MS, STORAGE_KEY_MOVIES, STORAGE_KEY_BOOKS, STORAGE_KEY_EVENTS, DB_NAME, DB_STORE_ACTIVITIES, DB_STORE_COLLECTIONS, DB_STORE_REVISIONS, DB_STORE_TRASH } from './constants';
+import { normalizeIsbn } from './isbn';
+import type { Activity, ActivityOf, ActivityType, Collection, Movie, Revision, MovieDetails, OpenLibrarySearchDoc, SeriesSeason, TrashedActivity, StorageErrorReason, TmdbErrorReason, TmdbSettings, TmdbMovieSearchResult, TmdbMovieDetailsResponse, TmdbTvSearchResult, TmdbTvDetailsResponse } from './types';
 
-// --- TMDB API Service ---
+// --- Network ---
 
-export const tmdbService = {
-  searchMovies: async (query: string): Promise<TmdbMovieSearchResult[]> => {
-    if (!query || TMDB_API_KEY === 'YOUR_TMDB_API_KEY_HERE') {
-        return [];
+/** Thrown by searches that need the network while offline, so forms can fall back to manual entry. */
+export class OfflineError extends Error {
+    constructor(message = "You're offline, so online search is unavailable.") {
+        super(message);
+        this.name = 'OfflineError';
+    }
+}
+
+const TMDB_ERROR_MESSAGES: Record<TmdbErrorReason, string> = {
+    notConfigured: 'TMDB search needs an API key. Add one in Settings or set TMDB_API_KEY in .env.local.',
+    unauthorized: 'TMDB rejected the API key. Check it in Settings.',
+    notFound: 'TMDB has no record of that title.',
+    rateLimited: 'TMDB is receiving too many requests right now. Try again in a moment.',
+    server: 'TMDB could not complete the request. Try again later.',
+};
+
+/** A TMDB request that reached the API (or was never sent) and failed; `reason` says why. */
+export class TmdbError extends Error {
+    constructor(public readonly reason: TmdbErrorReason, public readonly status?: number) {
+        super(TMDB_ERROR_MESSAGES[reason]);
+        this.name = 'TmdbError';
     }
+
+    static fromStatus(status: number): TmdbError {
+        const reason: TmdbErrorReason = status === 401 ? 'unauthorized' : status === 404 ? 'notFound' : status === 429 ? 'rateLimited' : 'server';
+        return new TmdbError(reason, status);
+    }
+}
+
+/** True for the rejection of a request cancelled through its `AbortSignal`. */
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted. */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+
+/**
+ * Calls `fetchFn`, reporting a failed request as `OfflineError` when the browser is offline or the
+ * request never reached a server (fetch rejects with a `TypeError` on network failure).
+ */
+const fetchOnline = async (fetchFn: typeof fetch, url: string, isOnline: () => boolean, init?: RequestInit): Promise<Response> => {
+    if (!isOnline()) throw new OfflineError();
     try {
-      const response = await fetch(`${TMDB_API_BASE_URL}/search/movie?api_key=${TMDB_API_KEY}&query=${encodeURIComponent(query)}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch from TMDB API');
-      }
-      const data = await response.json();
-      return data.results;
+        return await fetchFn(url, init);
     } catch (error) {
-      console.error("Error searching movies:", error);
-      return [];
+        if (error instanceof TypeError || !isOnline()) throw new OfflineError();
+        throw error;
+    }
+};
+
+// --- Response Cache ---
+
+/** The subset of the Web Storage API the cache needs, so tests can pass a plain in-memory object. */
+export interface CacheStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+interface CacheEntry<T> {
+    expiresAt: number;
+    value: T;
+}
+
+export const createTtlCache = (storage: CacheStorage, now: () => number = Date.now, prefix = TMDB_CACHE_PREFIX) => ({
+    get: <T>(key: string): T | null => {
+        try {
+            const raw = storage.getItem(`${prefix}${key}`);
+            if (!raw) return null;
+            const entry: CacheEntry<T> = JSON.parse(raw);
+            if (entry.expiresAt > now()) return entry.value;
+            storage.removeItem(`${prefix}${key}`);
+        } catch (error) {
+            console.error(`Error reading cache entry "${key}":`, error);
+        }
+        return null;
+    },
+    set: <T>(key: string, value: T, ttlMs: number): void => {
+        try {
+            const entry: CacheEntry<T> = { expiresAt: now() + ttlMs, value };
+            storage.setItem(`${prefix}${key}`, JSON.stringify(entry));
+        } catch (error) {
+            // The cache is disposable; a full quota only means the next lookup hits the API again.
+            console.error(`Error writing cache entry "${key}":`, error);
+        }
+    },
+});
+
+export type TtlCache = ReturnType<typeof createTtlCache>;
+
+// --- TMDB API Service ---
+
+interface TmdbServiceOptions {
+    fetchFn?: typeof fetch;
+    cache?: TtlCache;
+    config?: TmdbSettings;
+    now?: () => number;
+    isOnline?: () => boolean;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+interface RequestOptions {
+    signal?: AbortSignal;
+}
+
+interface MovieSearchOptions extends RequestOptions {
+    year?: string; // narrows the search to films first released that year
+}
+
+const toMovieDetails = (data: TmdbMovieDetailsResponse, fetchedAt: string): MovieDetails => ({
+    director: data.credits?.crew.find(member => member.job === 'Director')?.name ?? null,
+    genres: data.genres.map(genre => genre.name),
+    runtime: data.runtime || null,
+    cast: [...(data.credits?.cast ?? [])].sort((a, b) => a.order - b.order).slice(0, TMDB_CAST_LIMIT).map(member => member.name),
+    overview: data.overview ?? '',
+    fetchedAt,
+});
+
+// v4 read access tokens are JWTs; v3 API keys are 32 hex characters.
+const isBearerToken = (apiKey: string): boolean => apiKey.split('.').length === 3;
+
+/** `Retry-After` in seconds when TMDB sends one, exponential backoff otherwise. */
+const retryDelayMs = (response: Response, attempt: number): number => {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return retryAfter > 0 ? retryAfter * 1000 : TMDB_RETRY_BASE_DELAY_MS * 2 ** attempt;
+};
+
+export const createTmdbService = ({
+    fetchFn = (input, init) => fetch(input, init),
+    cache = createTtlCache(localStorage),
+    config: initialConfig = { apiKey: TMDB_API_KEY, language: TMDB_LANGUAGE, region: TMDB_REGION },
+    now = Date.now,
+    isOnline = () => navigator.onLine,
+    sleep: wait = sleep,
+}: TmdbServiceOptions = {}) => {
+    let config = initialConfig;
+
+    const isConfigured = () => config.apiKey !== '';
+
+    /**
+     * Throws `TmdbError` for API failures (after retrying 429s), `OfflineError` when the request
+     * can't be sent, and the signal's `AbortError` when cancelled.
+     */
+    const getJson = async <T>(path: string, params: Record<string, string> = {}, { signal }: RequestOptions = {}): Promise<T> => {
+        if (!isConfigured()) throw new TmdbError('notConfigured');
+        const bearer = isBearerToken(config.apiKey);
+        const query = new URLSearchParams({
+            ...(!bearer && { api_key: config.apiKey }),
+            ...(config.language && { language: config.language }),
+            ...params,
+        });
+        const init: RequestInit = { signal, headers: bearer ? { Authorization: `Bearer ${config.apiKey}` } : {} };
+        for (let attempt = 0; ; attempt++) {
+            const response = await fetchOnline(fetchFn, `${TMDB_API_BASE_URL}${path}?${query}`, isOnline, init);
+            if (response.ok) return response.json();
+            if (response.status !== 429 || attempt >= TMDB_MAX_RETRIES) throw TmdbError.fromStatus(response.status);
+            await wait(retryDelayMs(response, attempt), signal);
+        }
+    };
+
+    // Results depend on the language (titles) and region (release dates), so they are part of the key.
+    const cacheKey = (key: string) => `${config.language}:${config.region}:${key}`;
+
+    /** Search results from the cache or the API; failures are thrown for the form to show. */
+    const search = async <T>(path: string, key: string, query: string, params: Record<string, string>, options: RequestOptions): Promise<T[]> => {
+        if (!query.trim()) {
+            return [];
+        }
+        const entryKey = cacheKey(`${key}:${query.trim().toLowerCase()}`);
+        const cached = cache.get<T[]>(entryKey);
+        if (cached) return cached;
+        const data = await getJson<{ results: T[] }>(path, { query, ...params }, options);
+        cache.set(entryKey, data.results, TMDB_SEARCH_CACHE_TTL_MS);
+        return data.results;
+    };
+
+    return {
+        /** Replaces the key, language or region, e.g. when they are changed in Settings. */
+        configure: (changes: Partial<TmdbSettings>) => {
+            config = { ...config, ...changes };
+        },
+
+        isConfigured,
+
+        /** Checks the key with a minimal request; throws like the searches do. */
+        testConnection: async (options: RequestOptions = {}): Promise<void> => {
+            await getJson('/configuration', {}, options);
+        },
+
+        /** Throws `TmdbError`, `OfflineError` (uncached queries while offline) or an `AbortError`. */
+        searchMovies: (query: string, { year, ...options }: MovieSearchOptions = {}): Promise<TmdbMovieSearchResult[]> =>
+            search<TmdbMovieSearchResult>('/search/movie', year ? `search:${year}` : 'search', query, {
+                ...(config.region && { region: config.region }),
+                ...(year && { primary_release_year: year }),
+            }, options),
+
+        /** Throws like `searchMovies`. */
+        searchSeries: (query: string, options: RequestOptions = {}): Promise<TmdbTvSearchResult[]> =>
+            search<TmdbTvSearchResult>('/search/tv', 'searchTv', query, {}, options),
+
+        /** Season skeletons (numbers and episode counts) for a TV series, without specials. */
+        getSeriesSeasons: async (tmdbId: number, { signal }: RequestOptions = {}): Promise<SeriesSeason[]> => {
+            if (!tmdbId || !isConfigured()) {
+                return [];
+            }
+            const key = cacheKey(`tv:${tmdbId}`);
+            const cached = cache.get<SeriesSeason[]>(key);
+            if (cached) return cached;
+            try {
+                const data = await getJson<TmdbTvDetailsResponse>(`/tv/${tmdbId}`, {}, { signal });
+                const seasons = data.seasons
+                    .filter(season => season.season_number > 0)
+                    .map(season => ({ seasonNumber: season.season_number, episodeCount: season.episode_count, watchedEpisodes: [], rating: 0 }));
+                cache.set(key, seasons, TMDB_DETAILS_CACHE_TTL_MS);
+                return seasons;
+            } catch (error) {
+                if (!isAbortError(error)) console.error(`Error fetching seasons for series ${tmdbId}:`, error);
+                return [];
+            }
+        },
+
+        /** Details are optional extras, so failures (including cancellation) return `null`. */
+        getMovieDetails: async (tmdbId: number, { signal }: RequestOptions = {}): Promise<MovieDetails | null> => {
+            if (!tmdbId || !isConfigured()) {
+                return null;
+            }
+            const key = cacheKey(`movie:${tmdbId}`);
+            const cached = cache.get<MovieDetails>(key);
+            if (cached) return cached;
+            try {
+                const data = await getJson<TmdbMovieDetailsResponse>(`/movie/${tmdbId}`, { append_to_response: 'credits' }, { signal });
+                const details = toMovieDetails(data, new Date(now()).toISOString());
+                cache.set(key, details, TMDB_DETAILS_CACHE_TTL_MS);
+                return details;
+            } catch (error) {
+                if (!isAbortError(error)) console.error(`Error fetching details for movie ${tmdbId}:`, error);
+                return null;
+            }
+        },
+    };
+};
+
+export type TmdbService = ReturnType<typeof createTmdbService>;
+
+export const tmdbService = createTmdbService();
+
+/** True when a movie has a TMDB id but no details, or details older than `maxAgeMs`. */
+export const needsMetadataRefresh = (movie: Movie, maxAgeMs: number, now = Date.now()): boolean =>
+    !!movie.tmdbId && (!movie.details || now - new Date(movie.details.fetchedAt).getTime() > maxAgeMs);
+
+/**
+ * Fetches details for every movie that needs a refresh, one request at a time, and hands each
+ * result to `onDetails`. Stops early when `signal` is aborted. Returns the number of movies updated.
+ */
+export const refreshMovieMetadata = async (
+    movies: Movie[],
+    onDetails: (movieId: string, details: MovieDetails) => Promise<void> | void,
+    { signal, service = tmdbService, maxAgeMs = METADATA_MAX_AGE_MS }: { signal?: AbortSignal; service?: TmdbService; maxAgeMs?: number } = {},
+): Promise<number> => {
+    let updated = 0;
+    for (const movie of movies.filter(m => needsMetadataRefresh(m, maxAgeMs))) {
+        if (signal?.aborted) break;
+        const details = await service.getMovieDetails(movie.tmdbId, { signal });
+        if (details && !signal?.aborted) {
+            await onDetails(movie.id, details);
+            updated++;
+        }
     }
-  },
+    return updated;
 };
 
-// --- Storage Service (using localStorage) ---
+// --- Open Library Service ---
+
+interface OpenLibraryServiceOptions {
+    fetchFn?: typeof fetch;
+    cache?: TtlCache;
+    isOnline?: () => boolean;
+}
+
+const SEARCH_FIELDS = 'key,title,author_name,cover_i,number_of_pages_median,first_publish_year,isbn';
 
-// Fix: Removed trailing comma from generic type parameter list, which is a syntax error.
-function getItemsFromStorage<T>(key: string): T[] {
+export const createOpenLibraryService = ({
+    fetchFn = (input, init) => fetch(input, init),
+    cache = createTtlCache(localStorage, Date.now, OPEN_LIBRARY_CACHE_PREFIX),
+    isOnline = () => navigator.onLine,
+}: OpenLibraryServiceOptions = {}) => ({
+    /**
+     * Searches by ISBN when `query` looks like one, by title otherwise. Throws `OfflineError` for
+     * uncached queries while offline and an `AbortError` when cancelled; other failures return `[]`.
+     */
+    searchBooks: async (query: string, { signal }: RequestOptions = {}): Promise<OpenLibrarySearchDoc[]> => {
+        if (!query.trim()) {
+            return [];
+        }
+        const isbn = normalizeIsbn(query);
+        const cacheKey = isbn ? `isbn:${isbn}` : `search:${query.trim().toLowerCase()}`;
+        const cached = cache.get<OpenLibrarySearchDoc[]>(cacheKey);
+        if (cached) return cached;
+        try {
+            const params = new URLSearchParams({ ...(isbn ? { isbn } : { title: query.trim() }), fields: SEARCH_FIELDS, limit: String(OPEN_LIBRARY_SEARCH_LIMIT) });
+            const response = await fetchOnline(fetchFn, `${OPEN_LIBRARY_API_BASE_URL}/search.json?${params}`, isOnline, { signal });
+            if (!response.ok) {
+                throw new Error('Failed to fetch from Open Library');
+            }
+            const data: { docs: OpenLibrarySearchDoc[] } = await response.json();
+            cache.set(cacheKey, data.docs, OPEN_LIBRARY_SEARCH_CACHE_TTL_MS);
+            return data.docs;
+        } catch (error) {
+            if (error instanceof OfflineError || isAbortError(error)) throw error;
+            console.error("Error searching books:", error);
+            return [];
+        }
+    },
+});
+
+export type OpenLibraryService = ReturnType<typeof createOpenLibraryService>;
+
+export const openLibraryService = createOpenLibraryService();
+
+// --- Activity Repository (IndexedDB) ---
+
+/** An IndexedDB operation that failed; the UI shows a message for `reason`. */
+export class StorageError extends Error {
+    constructor(message: string, public readonly reason: StorageErrorReason, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+const toStorageError = (action: string, error: unknown): StorageError => {
+    if (error instanceof StorageError) return error;
+    const isQuotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+    return new StorageError(
+        isQuotaExceeded ? `Could not ${action}: browser storage is full. Export a backup and free up space.` : `Could not ${action}.`,
+        isQuotaExceeded ? 'quotaExceeded' : 'failed',
+        error,
+    );
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+const readLegacyItems = (key: string): Activity[] => {
     try {
         const itemsJson = localStorage.getItem(key);
         return itemsJson ? JSON.parse(itemsJson) : [];
     } catch (error) {
-        console.error(`Error reading from localStorage key "${key}":`, error);
+        console.error(`Error reading legacy localStorage key "${key}":`, error);
         return [];
     }
-}
+};
+
+// An activity record as some older schema version wrote it; migrations can't assume today's `Activity`.
+type StoredRecord = Record<string, unknown>;
 
-// Fix: Removed trailing comma from generic type parameter list, which is a syntax error.
-function saveItemsToStorage<T>(key:string, items: T[]): void {
+const updateEachActivity = (tx: IDBTransaction, update: (record: StoredRecord) => StoredRecord) => {
+    const request = tx.objectStore(DB_STORE_ACTIVITIES).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update(update(cursor.value as StoredRecord));
+        cursor.continue();
+    };
+};
+
+const LEGACY_STORAGE_KEYS = [STORAGE_KEY_MOVIES, STORAGE_KEY_BOOKS, STORAGE_KEY_EVENTS];
+
+/**
+ * Schema migrations, applied in order during `onupgradeneeded`. The entry at index `n` upgrades
+ * the database from version `n` to `n + 1`, so the database version is always `migrations.length`.
+ * Only append to this list; never edit a migration that has shipped. Record upgrades are written
+ * out here rather than calling the app's helpers, so later changes to those can't alter them.
+ */
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // v1: activity store, seeded from the legacy localStorage keys.
+    (db, tx) => {
+        const store = db.createObjectStore(DB_STORE_ACTIVITIES, { keyPath: 'id' });
+        store.createIndex('type', 'type');
+        LEGACY_STORAGE_KEYS.flatMap(readLegacyItems).forEach(item => store.put(item));
+        tx.addEventListener('complete', () => LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key)));
+    },
+    // v2: rewatch sessions; each existing record becomes its own first session.
+    (_db, tx) => updateEachActivity(tx, record => Array.isArray(record.sessions)
+        ? record
+        : { ...record, sessions: [{ id: crypto.randomUUID(), date: record.date, rating: record.rating, review: record.review }] }),
+    // v3: status lifecycle; everything logged so far was completed.
+    (_db, tx) => updateEachActivity(tx, record => ['planned', 'inProgress', 'completed', 'abandoned'].includes(record.status as string)
+        ? record
+        : { ...record, status: 'completed' }),
+    // v4: tags on every activity, and collections in their own store.
+    (db, tx) => {
+        db.createObjectStore(DB_STORE_COLLECTIONS, { keyPath: 'id' });
+        updateEachActivity(tx, record => Array.isArray(record.tags) ? record : { ...record, tags: [] });
+    },
+    // v5: trash for deleted activities, keyed by the activity's own id.
+    (db) => {
+        db.createObjectStore(DB_STORE_TRASH, { keyPath: 'activity.id' });
+    },
+    // v6: revision history, one record per save.
+    (db) => {
+        db.createObjectStore(DB_STORE_REVISIONS, { keyPath: 'id' }).createIndex('activityId', 'activityId');
+    },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let isDatabaseOutdated = false;
+const outdatedListeners = new Set<() => void>();
+
+/**
+ * Calls `listener` once another tab opens a newer schema version. This tab closes its connection
+ * so the upgrade isn't blocked, and needs a reload to keep reading and writing. Returns an unsubscribe function.
+ */
+export const onDatabaseOutdated = (listener: () => void): (() => void) => {
+    outdatedListeners.add(listener);
+    return () => { outdatedListeners.delete(listener); };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (isDatabaseOutdated) {
+        return Promise.reject(new StorageError('The library was upgraded in another tab. Reload this tab to keep using it.', 'outdated'));
+    }
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, migrations.length);
+            request.onupgradeneeded = (event) => {
+                const tx = request.transaction!;
+                for (let version = event.oldVersion; version < migrations.length; version++) {
+                    migrations[version](request.result, tx);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                    isDatabaseOutdated = true;
+                    outdatedListeners.forEach(listener => listener());
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new StorageError('The database is open in another tab with an older version. Close other CulturaLog tabs and reload.', 'blocked'));
+        });
+        // Allow a later call to retry instead of caching the failure.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const withTransaction = async <T>(storeNames: string[], mode: IDBTransactionMode, action: string, run: (tx: IDBTransaction) => Promise<T> | T): Promise<T> => {
     try {
-        localStorage.setItem(key, JSON.stringify(items));
+        const db = await openDatabase();
+        const tx = db.transaction(storeNames, mode);
+        const done = transactionDone(tx);
+        const result = await run(tx);
+        await done;
+        return result;
     } catch (error) {
-        console.error(`Error writing to localStorage key "${key}":`, error);
+        throw toStorageError(action, error);
     }
-}
+};
+
+const withStore = <T>(mode: IDBTransactionMode, action: string, run: (store: IDBObjectStore) => Promise<T> | T, storeName = DB_STORE_ACTIVITIES): Promise<T> =>
+    withTransaction([storeName], mode, action, tx => run(tx.objectStore(storeName)));
+
+export const activityRepository = {
+    getAll: (): Promise<Activity[]> =>
+        withStore('readonly', 'load your library', store => requestToPromise(store.getAll() as IDBRequest<Activity[]>)),
+
+    get: (id: string): Promise<Activity | undefined> =>
+        withStore('readonly', 'load the item', store => requestToPromise(store.get(id) as IDBRequest<Activity | undefined>)),
+
+    getByType: <T extends ActivityType>(type: T): Promise<ActivityOf<T>[]> =>
+        withStore('readonly', `load ${type}s`, store => requestToPromise(store.index('type').getAll(type))),
+
+    put: (activity: Activity): Promise<void> =>
+        withStore('readwrite', `save "${activity.title}"`, store => { store.put(activity); }),
+
+    putMany: (activities: Activity[]): Promise<void> =>
+        withStore('readwrite', `save ${activities.length} items`, store => {
+            activities.forEach(activity => store.put(activity));
+        }),
+
+    delete: (id: string): Promise<void> =>
+        withStore('readwrite', 'delete the item', store => { store.delete(id); }),
+
+    deleteMany: (ids: string[]): Promise<void> =>
+        withStore('readwrite', `delete ${ids.length} items`, store => {
+            ids.forEach(id => store.delete(id));
+        }),
+};
+
+export const collectionRepository = {
+    getAll: (): Promise<Collection[]> =>
+        withStore('readonly', 'load your collections', store => requestToPromise(store.getAll() as IDBRequest<Collection[]>), DB_STORE_COLLECTIONS),
+
+    put: (collection: Collection): Promise<void> =>
+        withStore('readwrite', `save "${collection.name}"`, store => { store.put(collection); }, DB_STORE_COLLECTIONS),
+
+    putMany: (collections: Collection[]): Promise<void> =>
+        withStore('readwrite', `save ${collections.length} collections`, store => {
+            collections.forEach(collection => store.put(collection));
+        }, DB_STORE_COLLECTIONS),
+
+    delete: (id: string): Promise<void> =>
+        withStore('readwrite', 'delete the collection', store => { store.delete(id); }, DB_STORE_COLLECTIONS),
+};
+
+export const trashRepository = {
+    getAll: (): Promise<TrashedActivity[]> =>
+        withStore('readonly', 'load the trash', store => requestToPromise(store.getAll() as IDBRequest<TrashedActivity[]>), DB_STORE_TRASH),
+
+    delete: (id: string): Promise<void> =>
+        withStore('readwrite', 'delete the item permanently', store => { store.delete(id); }, DB_STORE_TRASH),
+
+    clear: (): Promise<void> =>
+        withStore('readwrite', 'empty the trash', store => { store.clear(); }, DB_STORE_TRASH),
+};
+
+export const revisionRepository = {
+    /** Oldest first, with any pre-history baseline (`savedAt: null`) at the start. */
+    getByActivity: async (activityId: string): Promise<Revision[]> => {
+        const revisions = await withStore('readonly', 'load the revision history', store =>
+            requestToPromise(store.index('activityId').getAll(activityId) as IDBRequest<Revision[]>), DB_STORE_REVISIONS);
+        return revisions.sort((a, b) => (a.savedAt ?? '').localeCompare(b.savedAt ?? ''));
+    },
+
+    deleteForActivities: (activityIds: string[]): Promise<void> =>
+        withStore('readwrite', 'delete the revision history', store => {
+            activityIds.forEach(activityId => {
+                const request = store.index('activityId').openKeyCursor(activityId);
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (!cursor) return;
+                    store.delete(cursor.primaryKey);
+                    cursor.continue();
+                };
+            });
+        }, DB_STORE_REVISIONS),
+};
+
+const putRevision = (revisions: IDBObjectStore, revision: Revision, baseline?: Revision) => {
+    revisions.put(revision);
+    if (!baseline) return;
+    const count = revisions.index('activityId').count(revision.activityId);
+    // The count includes the revision put above.
+    count.onsuccess = () => { if (count.result <= 1) revisions.put(baseline); };
+};
+
+/**
+ * Saves an activity together with a revision of it. `baseline`, the version being replaced, is
+ * stored too if the activity has no revisions yet, so its first tracked edit can still be diffed.
+ */
+export const saveWithRevision = (revision: Revision, baseline?: Revision): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_REVISIONS], 'readwrite', `save "${revision.activity.title}"`, tx => {
+        tx.objectStore(DB_STORE_ACTIVITIES).put(revision.activity);
+        putRevision(tx.objectStore(DB_STORE_REVISIONS), revision, baseline);
+    });
+
+/** `saveWithRevision` for many activities in one transaction. */
+export const saveManyWithRevisions = (revisions: { revision: Revision; baseline?: Revision }[]): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_REVISIONS], 'readwrite', `save ${revisions.length} items`, tx => {
+        const activityStore = tx.objectStore(DB_STORE_ACTIVITIES);
+        const revisionStore = tx.objectStore(DB_STORE_REVISIONS);
+        revisions.forEach(({ revision, baseline }) => {
+            activityStore.put(revision.activity);
+            putRevision(revisionStore, revision, baseline);
+        });
+    });
+
+/** Moves an activity from the library to the trash in one transaction. */
+export const moveToTrash = (entry: TrashedActivity): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_TRASH], 'readwrite', `delete "${entry.activity.title}"`, tx => {
+        tx.objectStore(DB_STORE_ACTIVITIES).delete(entry.activity.id);
+        tx.objectStore(DB_STORE_TRASH).put(entry);
+    });
 
-export const storageService = {
-    getMovies: (): Movie[] => getItemsFromStorage<Movie>(STORAGE_KEY_MOVIES),
-    saveMovies: (movies: Movie[]) => saveItemsToStorage<Movie>(STORAGE_KEY_MOVIES, movies),
+/** Puts `activity` back in the library and drops any trash entry for it. */
+export const restoreFromTrash = (activity: Activity): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_TRASH], 'readwrite', `restore "${activity.title}"`, tx => {
+        tx.objectStore(DB_STORE_TRASH).delete(activity.id);
+        tx.objectStore(DB_STORE_ACTIVITIES).put(activity);
+    });
 
-    getBooks: (): Book[] => getItemsFromStorage<Book>(STORAGE_KEY_BOOKS),
-    saveBooks: (books: Book[]) => saveItemsToStorage<Book>(STORAGE_KEY_BOOKS, books),
+/** Replaces every activity and collection in one transaction, so a failed import changes nothing. */
+export const replaceLibrary = (activities: Activity[], collections: Collection[]): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_COLLECTIONS, DB_STORE_REVISIONS], 'readwrite', 'import the backup', tx => {
+        const activityStore = tx.objectStore(DB_STORE_ACTIVITIES);
+        const collectionStore = tx.objectStore(DB_STORE_COLLECTIONS);
+        activityStore.clear();
+        collectionStore.clear();
+        // Revisions describe the library being replaced, so they go with it.
+        tx.objectStore(DB_STORE_REVISIONS).clear();
+        activities.forEach(activity => activityStore.put(activity));
+        collections.forEach(collection => collectionStore.put(collection));
+    });
 
-    getEvents: (): Event[] => getItemsFromStorage<Event>(STORAGE_KEY_EVENTS),
-    saveEvents: (events: Event[]) => saveItemsToStorage<Event>(STORAGE_KEY_EVENTS, events),
-};
\ No newline at end of file
+/**
+ * Merges a backup into the library in one transaction: adds `additions`, saves each replaced record
+ * with its revision (and baseline, as in `saveWithRevision`) and puts the merged collections.
+ * Existing revisions are kept, since the records they belong to are still there.
+ */
+export const mergeIntoLibrary = (additions: Activity[], replacements: { revision: Revision; baseline: Revision }[], collections: Collection[]): Promise<void> =>
+    withTransaction([DB_STORE_ACTIVITIES, DB_STORE_COLLECTIONS, DB_STORE_REVISIONS], 'readwrite', 'import the backup', tx => {
+        const activityStore = tx.objectStore(DB_STORE_ACTIVITIES);
+        const revisionStore = tx.objectStore(DB_STORE_REVISIONS);
+        additions.forEach(activity => activityStore.put(activity));
+        replacements.forEach(({ revision, baseline }) => {
+            activityStore.put(revision.activity);
+            putRevision(revisionStore, revision, baseline);
+        });
+        const collectionStore = tx.objectStore(DB_STORE_COLLECTIONS);
+        collections.forEach(collection => collectionStore.put(collection));
+    });
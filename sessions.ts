@@ -0,0 +1,26 @@
+import type { Activity, ActivitySession } from './types';
+
+export const createSession = (fields: Omit<ActivitySession, 'id'>): ActivitySession => ({
+    id: crypto.randomUUID(),
+    ...fields,
+});
+
+const byDate = (a: ActivitySession, b: ActivitySession) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+export const latestSession = (item: Activity): ActivitySession | undefined =>
+    [...item.sessions].sort(byDate).pop();
+
+/** Returns `item` with `sessions` sorted oldest first and the top-level fields copied from the latest one. */
+export const withSessions = <T extends Activity>(item: T, sessions: ActivitySession[]): T => {
+    const sorted = [...sessions].sort(byDate);
+    const latest = sorted[sorted.length - 1];
+    return latest
+        ? { ...item, sessions: sorted, date: latest.date, rating: latest.rating, review: latest.review }
+        : { ...item, sessions: sorted };
+};
+
+/** Records written before sessions existed carry only the top-level fields; those become the first session. */
+export const ensureSessions = <T extends Activity>(item: T): T =>
+    Array.isArray(item.sessions)
+        ? item
+        : { ...item, sessions: [createSession({ date: item.date, rating: item.rating, review: item.review })] };
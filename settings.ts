@@ -0,0 +1,67 @@
+import { STORAGE_KEY_SETTINGS, TMDB_API_KEY, TMDB_LANGUAGE, TMDB_REGION } from './constants';
+import { LOCALE_TAGS, isLocale, preferredLocale } from './i18n';
+import { DEFAULT_RATING_SCALE, isRatingScale } from './ratings';
+import { isRecord } from './validation';
+import type { AppSettings, PublicProfile, TmdbSettings } from './types';
+
+// User preferences live in localStorage rather than IndexedDB: they are per device, tiny, and
+// needed synchronously on the first render.
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    locale: 'en',
+    ratingScale: DEFAULT_RATING_SCALE,
+    tmdb: { apiKey: '', language: '', region: '' },
+    profile: { title: 'My CulturaLog', author: '', siteUrl: '' },
+};
+
+const stringField = (stored: Record<string, unknown>, name: string, fallback = ''): string => {
+    const value = stored[name];
+    return typeof value === 'string' ? value.trim() : fallback;
+};
+
+const loadTmdbSettings = (stored: unknown): TmdbSettings => {
+    if (!isRecord(stored)) return DEFAULT_SETTINGS.tmdb;
+    return { apiKey: stringField(stored, 'apiKey'), language: stringField(stored, 'language'), region: stringField(stored, 'region') };
+};
+
+const loadProfile = (stored: unknown): PublicProfile => {
+    if (!isRecord(stored)) return DEFAULT_SETTINGS.profile;
+    const { title, author, siteUrl } = DEFAULT_SETTINGS.profile;
+    return { title: stringField(stored, 'title', title), author: stringField(stored, 'author', author), siteUrl: stringField(stored, 'siteUrl', siteUrl) };
+};
+
+/** Stored settings merged over the defaults; unknown or invalid values fall back to the default. */
+export const loadSettings = (storage: Storage = localStorage): AppSettings => {
+    try {
+        const stored: unknown = JSON.parse(storage.getItem(STORAGE_KEY_SETTINGS) ?? 'null');
+        // Until a locale is picked, follow the browser's.
+        const locale = isRecord(stored) && isLocale(stored.locale) ? stored.locale : preferredLocale(navigator.languages);
+        if (!isRecord(stored)) return { ...DEFAULT_SETTINGS, locale };
+        return {
+            locale,
+            ratingScale: isRatingScale(stored.ratingScale) ? stored.ratingScale : DEFAULT_SETTINGS.ratingScale,
+            tmdb: loadTmdbSettings(stored.tmdb),
+            profile: loadProfile(stored.profile),
+        };
+    } catch {
+        return { ...DEFAULT_SETTINGS, locale: preferredLocale(navigator.languages) };
+    }
+};
+
+export const saveSettings = (settings: AppSettings, storage: Storage = localStorage): void => {
+    try {
+        storage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Error saving settings:', error);
+    }
+};
+
+/**
+ * The TMDB configuration in effect: each setting left empty falls back to the build-time default,
+ * and the language, when neither sets it, to the app's locale.
+ */
+export const effectiveTmdbSettings = ({ tmdb, locale }: AppSettings): TmdbSettings => ({
+    apiKey: tmdb.apiKey || TMDB_API_KEY,
+    language: tmdb.language || TMDB_LANGUAGE || LOCALE_TAGS[locale],
+    region: tmdb.region || TMDB_REGION,
+});
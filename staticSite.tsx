@@ -0,0 +1,169 @@
+import React from 'react';
+import { describeRepeatCount } from './activityTypes';
+import { MarkdownView, SettingsContext, StarRating, useI18n, viewFor } from './components';
+import { translatorFor } from './i18n';
+import { FEED_PATH, entryPath, publishedActivities, publishedTypes, relativePath, reviewFeed, typeIndexPath } from './publicProfile';
+import { createZip } from './zip';
+import type { Activity, AppSettings, PublicProfile, SiteFile } from './types';
+
+// Renders the published part of the library (see publicProfile.ts) as a static site: a home page,
+// an index per type, a page per activity and an Atom feed. Pages reuse the app's cards and are
+// styled by the same Tailwind CDN script as index.html, so they need no build step or server.
+
+const RECENT_ENTRY_COUNT = 8;
+
+const cardGridClasses = 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6';
+
+interface PageProps {
+    profile: PublicProfile;
+    path: string; // of this page, relative to the site root
+    title: string;
+    published: Activity[];
+    children: React.ReactNode;
+}
+
+const Page: React.FC<PageProps> = ({ profile, path, title, published, children }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const link = (target: string) => relativePath(path, target);
+    return (
+        <html lang={i18n.locale}>
+            <head>
+                <meta charSet="UTF-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+                <title>{title === profile.title ? title : `${title} · ${profile.title}`}</title>
+                <link rel="alternate" type="application/atom+xml" title={t('site.feedTitle', { title: profile.title })} href={link(FEED_PATH)} />
+                <script src="https://cdn.tailwindcss.com"></script>
+            </head>
+            <body className="bg-gray-900 text-gray-100 font-sans min-h-screen">
+                <header className="bg-gray-800 shadow-lg">
+                    <nav className="container mx-auto px-6 py-4 flex flex-wrap justify-between items-center gap-4">
+                        <a href={link('index.html')} className="text-2xl font-bold text-white tracking-wider">{profile.title}</a>
+                        <ul className="flex space-x-4 text-sm">
+                            {publishedTypes(published).map(type => (
+                                <li key={type}><a href={link(typeIndexPath(type))} className="px-3 py-2 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white">{i18n.type(type).label}</a></li>
+                            ))}
+                            <li><a href={link(FEED_PATH)} className="px-3 py-2 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white">{t('site.feed')}</a></li>
+                        </ul>
+                    </nav>
+                </header>
+                <main className="container mx-auto p-6">{children}</main>
+                <footer className="container mx-auto px-6 pb-8 text-xs text-gray-500">
+                    {profile.author && <>{t('site.by', { author: profile.author })} · </>}{t('site.exportedFrom')}
+                </footer>
+            </body>
+        </html>
+    );
+};
+
+/** Cards linking to their entry pages, as seen from the page at `path`. */
+const CardGrid: React.FC<{ items: Activity[]; path: string }> = ({ items, path }) => (
+    <div className={cardGridClasses}>
+        {items.map(item => {
+            const { Card } = viewFor(item.type);
+            return <Card key={item.id} item={item} href={relativePath(path, entryPath(item))} />;
+        })}
+    </div>
+);
+
+const HomePage: React.FC<{ published: Activity[]; path: string; profile: PublicProfile }> = ({ published, path, profile }) => {
+    const i18n = useI18n();
+    return (
+        <>
+            <h1 className="text-3xl font-bold mb-2">{profile.title}</h1>
+            <p className="text-gray-400 mb-8">
+                {publishedTypes(published)
+                    .map(type => i18n.format(i18n.type(type).count, { count: published.filter(item => item.type === type).length }))
+                    .join(' · ')}
+            </p>
+            <h2 className="text-xl font-semibold mb-4">{i18n.t('site.recently')}</h2>
+            <CardGrid items={published.slice(0, RECENT_ENTRY_COUNT)} path={path} />
+        </>
+    );
+};
+
+const EntryPage: React.FC<{ item: Activity; path: string }> = ({ item, path }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    const { Card, Facts } = viewFor(item.type);
+    // The latest session is the one on the card.
+    const earlierSessions = [...item.sessions].reverse().slice(1);
+    return (
+        <>
+            <a href={relativePath(path, typeIndexPath(item.type))} className="text-sm text-blue-400 hover:text-blue-300">&larr; {t('site.allOfType', { types: i18n.type(item.type).label.toLowerCase() })}</a>
+            <div className="flex flex-col md:flex-row gap-8 mt-4">
+                <div className="w-full md:w-72 flex-shrink-0"><Card item={item} /></div>
+                <article className="flex-grow min-w-0 max-w-3xl">
+                    {Facts && <Facts item={item} />}
+                    {item.sessions.length > 1 && <p className="text-sm text-blue-300 mb-3">↻ {describeRepeatCount(item, i18n)}</p>}
+                    {item.review.trim() && (
+                        <>
+                            <h2 className="text-lg font-semibold text-white mb-3">{t('field.review')}</h2>
+                            <MarkdownView source={item.review} />
+                        </>
+                    )}
+                    {earlierSessions.length > 0 && (
+                        <section className="mt-10">
+                            <h2 className="text-lg font-semibold text-white mb-3">{t('sessions.earlier')}</h2>
+                            <ol className="space-y-6">
+                                {earlierSessions.map(session => (
+                                    <li key={session.id} className="border-l-2 border-gray-700 pl-4">
+                                        <div className="flex items-center space-x-3 mb-2">
+                                            <span className="text-sm text-gray-400">{i18n.formatDate(session.date)}</span>
+                                            <StarRating rating={session.rating} readOnly />
+                                        </div>
+                                        {session.review.trim() && <MarkdownView source={session.review} className="text-sm" />}
+                                    </li>
+                                ))}
+                            </ol>
+                        </section>
+                    )}
+                </article>
+            </div>
+        </>
+    );
+};
+
+/** Every file of the site. Private entries, backlog items and hidden reviews are never rendered. */
+export const buildStaticSite = async (activities: Activity[], settings: AppSettings, now: Date = new Date()): Promise<SiteFile[]> => {
+    // Loaded on demand; the server renderer is only needed for exports.
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const { profile } = settings;
+    const i18n = translatorFor(settings.locale);
+    const published = publishedActivities(activities);
+
+    const page = (path: string, title: string, body: React.ReactNode): SiteFile => ({
+        path,
+        content: `<!DOCTYPE html>\n${renderToStaticMarkup(
+            <SettingsContext.Provider value={settings}>
+                <Page profile={profile} path={path} title={title} published={published}>{body}</Page>
+            </SettingsContext.Provider>,
+        )}\n`,
+    });
+
+    return [
+        page('index.html', profile.title, <HomePage published={published} path="index.html" profile={profile} />),
+        ...publishedTypes(published).map(type => {
+            const path = typeIndexPath(type);
+            const { label } = i18n.type(type);
+            return page(path, label, (
+                <>
+                    <h1 className="text-3xl font-bold mb-6">{label}</h1>
+                    <CardGrid items={published.filter(item => item.type === type)} path={path} />
+                </>
+            ));
+        }),
+        ...published.map(item => page(entryPath(item), item.title, <EntryPage item={item} path={entryPath(item)} />)),
+        { path: FEED_PATH, content: reviewFeed(published, profile, i18n, now) },
+    ];
+};
+
+export const downloadStaticSite = async (activities: Activity[], settings: AppSettings): Promise<void> => {
+    const blob = createZip(await buildStaticSite(activities, settings));
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `culturalog-site-${new Date().toISOString().split('T')[0]}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { activitiesPerMonth, availableYears, averageRatingByType, filterByYear, ratingDistribution, releaseDecades, sessionEntries, topAuthors, topVenues } from './stats';
+import type { Activity, ActivitySession, Book, Event, Movie } from './types';
+
+let nextId = 0;
+
+const session = (date: string, rating = 0): ActivitySession => ({ id: `session-${++nextId}`, date, rating, review: '' });
+
+const base = (sessions: ActivitySession[]) => {
+    const latest = sessions[sessions.length - 1];
+    return {
+        id: `item-${++nextId}`,
+        title: 'Untitled',
+        status: 'completed' as const,
+        review: '',
+        rating: latest?.rating ?? 0,
+        date: latest?.date ?? '2024-01-01',
+        sessions,
+        tags: [],
+    };
+};
+
+const movie = (releaseYear: string, ...sessions: ActivitySession[]): Movie =>
+    ({ ...base(sessions), type: 'movie', releaseYear, posterPath: null, tmdbId: 0 });
+
+const book = (author: string, ...sessions: ActivitySession[]): Book =>
+    ({ ...base(sessions), type: 'book', author, isbn: '' });
+
+const event = (venue: string, ...sessions: ActivitySession[]): Event =>
+    ({ ...base(sessions), type: 'event', venue });
+
+describe('an empty library', () => {
+    it('has no years, months, ratings or rankings', () => {
+        expect(availableYears([])).toEqual([]);
+        expect(activitiesPerMonth([], null)).toEqual([]);
+        expect(ratingDistribution([]).every(bucket => bucket.count === 0)).toBe(true);
+        expect(averageRatingByType([])).toEqual({ movie: null, series: null, book: null, event: null });
+        expect(topAuthors([])).toEqual([]);
+        expect(topVenues([])).toEqual([]);
+        expect(releaseDecades([])).toEqual([]);
+    });
+
+    it('still lists all twelve months of a chosen year', () => {
+        const months = activitiesPerMonth([], 2024);
+        expect(months).toHaveLength(12);
+        expect(months.every(({ counts }) => Object.values(counts).every(count => count === 0))).toBe(true);
+    });
+});
+
+describe('sessionEntries', () => {
+    it('counts every session of logged items, with its own date and rating', () => {
+        const rewatched = movie('1979', session('2023-05-01', 4), session('2024-02-10', 5));
+        const abandoned = { ...book('Ursula K. Le Guin', session('2024-03-03', 2)), status: 'abandoned' as const };
+        const planned = { ...movie('2025'), status: 'planned' as const };
+
+        const entries = sessionEntries<Activity>([rewatched, abandoned, planned]);
+
+        expect(entries.map(entry => [entry.id, entry.date, entry.rating])).toEqual([
+            [rewatched.id, '2023-05-01', 4],
+            [rewatched.id, '2024-02-10', 5],
+            [abandoned.id, '2024-03-03', 2],
+        ]);
+    });
+});
+
+describe('per month and year', () => {
+    const entries = sessionEntries<Activity>([
+        movie('1979', session('2023-11-20'), session('2024-01-05')),
+        book('Han Kang', session('2024-01-28')),
+        event('Seoul Arts Center', session('2024-03-15')),
+    ]);
+
+    it('lists years newest first', () => {
+        expect(availableYears(entries)).toEqual([2024, 2023]);
+    });
+
+    it('filters by year, or not at all for null', () => {
+        expect(filterByYear(entries, 2023)).toHaveLength(1);
+        expect(filterByYear(entries, null)).toHaveLength(4);
+    });
+
+    it('counts by month and type, filling in empty months across all years', () => {
+        const months = activitiesPerMonth(entries, null);
+
+        expect(months.map(m => m.month)).toEqual(['2023-11', '2023-12', '2024-01', '2024-02', '2024-03']);
+        expect(months[0].counts).toEqual({ movie: 1, series: 0, book: 0, event: 0 });
+        expect(months[1].counts).toEqual({ movie: 0, series: 0, book: 0, event: 0 });
+        expect(months[2].counts).toEqual({ movie: 1, series: 0, book: 1, event: 0 });
+        expect(months[4].counts).toEqual({ movie: 0, series: 0, book: 0, event: 1 });
+    });
+
+    it('counts a single year from January to December', () => {
+        const months = activitiesPerMonth(entries, 2024);
+
+        expect(months).toHaveLength(12);
+        expect(months[0]).toEqual({ month: '2024-01', counts: { movie: 1, series: 0, book: 1, event: 0 } });
+        expect(months[11].month).toBe('2024-12');
+    });
+});
+
+describe('ratings', () => {
+    const entries = sessionEntries<Activity>([
+        movie('1979', session('2024-01-01', 3.5), session('2024-06-01', 4.5)),
+        movie('1986', session('2024-02-01', 0)),
+        book('Han Kang', session('2024-03-01', 5)),
+    ]);
+
+    it('buckets ratings by half star, with unrated items at 0', () => {
+        const counts = Object.fromEntries(ratingDistribution(entries).map(({ rating, count }) => [rating, count]));
+
+        expect(counts).toMatchObject({ 0: 1, 3.5: 1, 4.5: 1, 5: 1, 1: 0 });
+    });
+
+    it('rounds ratings into whole-star buckets for a coarser step', () => {
+        const buckets = ratingDistribution(entries, 1);
+
+        expect(buckets.map(b => b.rating)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(buckets.map(b => b.count)).toEqual([1, 0, 0, 0, 1, 2]);
+    });
+
+    it('averages rated entries by type, leaving out unrated ones', () => {
+        expect(averageRatingByType(entries)).toEqual({ movie: 4, series: null, book: 5, event: null });
+    });
+});
+
+describe('rankings', () => {
+    it('ranks authors by count, grouping spellings case-insensitively', () => {
+        const entries = sessionEntries<Activity>([
+            book('Han Kang', session('2024-01-01', 4)),
+            book('han kang', session('2024-02-01', 5)),
+            book('Kim Young-ha', session('2024-03-01', 3)),
+            book('  ', session('2024-03-02', 3)),
+        ]);
+
+        expect(topAuthors(entries)).toEqual([
+            { label: 'Han Kang', count: 2, averageRating: 4.5 },
+            { label: 'Kim Young-ha', count: 1, averageRating: 3 },
+        ]);
+    });
+
+    it('breaks ties by average rating, then by name, and respects the limit', () => {
+        const entries = sessionEntries<Activity>([
+            event('B Hall', session('2024-01-01', 3)),
+            event('A Hall', session('2024-01-02', 3)),
+            event('C Hall', session('2024-01-03', 5)),
+        ]);
+
+        expect(topVenues(entries, 2).map(v => v.label)).toEqual(['C Hall', 'A Hall']);
+    });
+
+    it('groups movies by release decade, skipping unknown years', () => {
+        const entries = sessionEntries<Activity>([
+            movie('1979', session('2024-01-01')),
+            movie('1986', session('2024-01-02')),
+            movie('1989', session('2024-01-03')),
+            movie('', session('2024-01-04')),
+        ]);
+
+        expect(releaseDecades(entries)).toEqual([{ decade: 1970, count: 1 }, { decade: 1980, count: 2 }]);
+    });
+});
@@ -0,0 +1,120 @@
+import { ACTIVITY_TYPES } from './activityTypes';
+import { RATING_MAX, RATING_STEP, normalizeRating } from './ratings';
+import { isLoggedStatus } from './status';
+import type { Activity, ActivityType, Book, Event, Movie, MonthlyActivityCount, RankedEntry, RatingBucket } from './types';
+
+// All functions here are pure: they take activities and return plain data for the Stats view.
+// A rating of 0 means "not rated" and is left out of every average. The view passes them
+// `sessionEntries`, so every rewatch or reread counts in its own month with its own rating.
+
+const yearOf = (item: Activity): number => Number(item.date.substring(0, 4));
+
+const average = (ratings: number[]): number | null => {
+    const rated = ratings.filter(r => r > 0);
+    return rated.length > 0 ? rated.reduce((sum, r) => sum + r, 0) / rated.length : null;
+};
+
+/**
+ * One entry per session of each logged (completed or abandoned) activity, carrying that session's
+ * date and rating. Backlog items haven't happened yet and are left out.
+ */
+export const sessionEntries = <T extends Activity>(activities: T[]): T[] =>
+    activities
+        .filter(item => isLoggedStatus(item.status))
+        .flatMap(item => item.sessions.length > 0
+            ? item.sessions.map(session => ({ ...item, date: session.date, rating: session.rating }))
+            : [item]);
+
+/** Years that have at least one activity, newest first. */
+export const availableYears = (activities: Activity[]): number[] =>
+    [...new Set(activities.map(yearOf))].filter(Number.isFinite).sort((a, b) => b - a);
+
+/** `year` of `null` means all years. */
+export const filterByYear = <T extends Activity>(activities: T[], year: number | null): T[] =>
+    year === null ? activities : activities.filter(item => yearOf(item) === year);
+
+const emptyCounts = (): Record<ActivityType, number> =>
+    Object.fromEntries(ACTIVITY_TYPES.map(type => [type, 0])) as Record<ActivityType, number>;
+
+/**
+ * Activity counts per month and type. For a single year all twelve months are returned; otherwise
+ * every month from the first to the last activity, including empty months in between.
+ */
+export const activitiesPerMonth = (activities: Activity[], year: number | null): MonthlyActivityCount[] => {
+    const months = new Map<string, Record<ActivityType, number>>();
+    filterByYear(activities, year).forEach(item => {
+        const month = item.date.substring(0, 7);
+        const counts = months.get(month) ?? emptyCounts();
+        counts[item.type]++;
+        months.set(month, counts);
+    });
+
+    const keys = [...months.keys()].sort();
+    if (year === null && keys.length === 0) return [];
+    let [y, m] = year !== null ? [year, 1] : keys[0].split('-').map(Number);
+    const [endYear, endMonth] = year !== null ? [year, 12] : keys[keys.length - 1].split('-').map(Number);
+
+    const result: MonthlyActivityCount[] = [];
+    while (y < endYear || (y === endYear && m <= endMonth)) {
+        const month = `${y}-${String(m).padStart(2, '0')}`;
+        result.push({ month, counts: months.get(month) ?? emptyCounts() });
+        if (++m > 12) {
+            m = 1;
+            y++;
+        }
+    }
+    return result;
+};
+
+/** Number of activities per rating, lowest first, with ratings rounded to `step` (see `storedRatingStep`). */
+export const ratingDistribution = (activities: Activity[], step = RATING_STEP): RatingBucket[] => {
+    const buckets = Array.from({ length: RATING_MAX / step + 1 }, (_, i) => ({ rating: i * step, count: 0 }));
+    activities.forEach(item => {
+        const index = Math.round(normalizeRating(item.rating) / step);
+        if (buckets[index]) buckets[index].count++;
+    });
+    return buckets;
+};
+
+export const averageRatingByType = (activities: Activity[]): Record<ActivityType, number | null> =>
+    Object.fromEntries(ACTIVITY_TYPES.map(type => [
+        type,
+        average(activities.filter(item => item.type === type).map(item => item.rating)),
+    ])) as Record<ActivityType, number | null>;
+
+const rankBy = <T extends Activity>(items: T[], keyOf: (item: T) => string, limit: number): RankedEntry[] => {
+    const groups = new Map<string, { label: string; ratings: number[] }>();
+    items.forEach(item => {
+        const label = keyOf(item).trim();
+        if (!label) return;
+        // Group case-insensitively but keep the first spelling seen for display.
+        const key = label.toLowerCase();
+        const group = groups.get(key) ?? { label, ratings: [] };
+        group.ratings.push(item.rating);
+        groups.set(key, group);
+    });
+    return [...groups.values()]
+        .map(({ label, ratings }) => ({ label, count: ratings.length, averageRating: average(ratings) }))
+        .sort((a, b) => b.count - a.count || (b.averageRating ?? 0) - (a.averageRating ?? 0) || a.label.localeCompare(b.label))
+        .slice(0, limit);
+};
+
+export const topAuthors = (activities: Activity[], limit = 10): RankedEntry[] =>
+    rankBy(activities.filter((item): item is Book => item.type === 'book'), book => book.author, limit);
+
+export const topVenues = (activities: Activity[], limit = 10): RankedEntry[] =>
+    rankBy(activities.filter((item): item is Event => item.type === 'event'), event => event.venue, limit);
+
+/** Movie counts per release decade (e.g. `1990`), oldest first. Movies without a release year are skipped. */
+export const releaseDecades = (activities: Activity[]): { decade: number; count: number }[] => {
+    const decades = new Map<number, number>();
+    activities
+        .filter((item): item is Movie => item.type === 'movie')
+        .map(movie => parseInt(movie.releaseYear, 10))
+        .filter(Number.isFinite)
+        .forEach(year => {
+            const decade = Math.floor(year / 10) * 10;
+            decades.set(decade, (decades.get(decade) ?? 0) + 1);
+        });
+    return [...decades.entries()].sort(([a], [b]) => a - b).map(([decade, count]) => ({ decade, count }));
+};
@@ -0,0 +1,13 @@
+import type { Activity, ActivityStatus } from './types';
+
+export const ACTIVITY_STATUSES: ActivityStatus[] = ['planned', 'inProgress', 'completed', 'abandoned'];
+
+/** Completed and abandoned items have actually happened and carry sessions; the rest are backlog. */
+export const isLoggedStatus = (status: ActivityStatus): boolean =>
+    status === 'completed' || status === 'abandoned';
+
+export const isBacklogItem = (item: Activity): boolean => !isLoggedStatus(item.status);
+
+/** Records written before the status lifecycle existed were all finished activities. */
+export const ensureStatus = <T extends Activity>(item: T): T =>
+    ACTIVITY_STATUSES.includes(item.status) ? item : { ...item, status: 'completed' };
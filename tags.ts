@@ -0,0 +1,43 @@
+import type { Activity } from './types';
+
+// Tags are stored as typed ("Ghibli marathon") but compared case-insensitively, so "ghibli
+// marathon" is the same tag. Commas separate tags in inputs and URLs, so they never appear in one.
+
+export const normalizeTag = (value: string): string => value.replace(/,/g, ' ').trim().replace(/\s+/g, ' ');
+
+const tagKey = (tag: string): string => tag.toLocaleLowerCase();
+
+export const hasTag = (tags: string[], tag: string): boolean => tags.some(t => tagKey(t) === tagKey(tag));
+
+/** `tags` with `value` appended, unless it is blank or already present. */
+export const addTag = (tags: string[], value: string): string[] => {
+    const tag = normalizeTag(value);
+    return !tag || hasTag(tags, tag) ? tags : [...tags, tag];
+};
+
+export const removeTag = (tags: string[], tag: string): string[] => tags.filter(t => tagKey(t) !== tagKey(tag));
+
+/** Every tag in the library with its usage count, most used first; the first spelling seen wins. */
+export const tagCounts = (activities: Activity[]): { tag: string; count: number }[] => {
+    const counts = new Map<string, { tag: string; count: number }>();
+    activities.forEach(item => item.tags.forEach(tag => {
+        const entry = counts.get(tagKey(tag)) ?? { tag, count: 0 };
+        counts.set(tagKey(tag), { ...entry, count: entry.count + 1 });
+    }));
+    return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/** Known tags matching `input`, prefix matches first, leaving out those already picked. */
+export const suggestTags = (known: string[], input: string, picked: string[], limit = 8): string[] => {
+    const query = tagKey(normalizeTag(input));
+    const candidates = known.filter(tag => !hasTag(picked, tag));
+    if (!query) return candidates.slice(0, limit);
+    return [
+        ...candidates.filter(tag => tagKey(tag).startsWith(query)),
+        ...candidates.filter(tag => !tagKey(tag).startsWith(query) && tagKey(tag).includes(query)),
+    ].slice(0, limit);
+};
+
+/** Records written before tags existed have none. */
+export const ensureTags = <T extends Activity>(item: T): T =>
+    Array.isArray(item.tags) ? item : { ...item, tags: [] };
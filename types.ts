@@ -1,12 +1,40 @@
+import type { MessageKey } from './i18n';
 
-export type ActivityType = 'movie' | 'book' | 'event';
+
+export interface ActivitySession {
+  id: string;
+  date: string; // ISO 8601 format
+  rating: number; // 0-5 in half steps, 0 for unrated (see ratings.ts)
+  review: string;
+}
+
+export type ActivityStatus = 'planned' | 'inProgress' | 'completed' | 'abandoned';
 
 export interface BaseActivity {
   id: string;
   title: string;
+  status: ActivityStatus;
+  // For completed and abandoned items, `review`, `rating` and `date` mirror the most recent session
+  // so lists can sort and filter without looking inside `sessions` (use `withSessions` to keep them
+  // in sync). For backlog items they hold the planned date and any notes.
   review: string;
-  rating: number; // 0-5
+  rating: number; // 0-5 in half steps, 0 for unrated (see ratings.ts)
   date: string; // ISO 8601 format
+  sessions: ActivitySession[]; // oldest first
+  tags: string[]; // free-form, as typed; compared case-insensitively (see tags.ts)
+  visibility?: Visibility; // in the static site export; missing means 'public'
+}
+
+// 'hideReview' publishes the entry without its review texts; 'private' leaves it out entirely.
+export type Visibility = 'public' | 'hideReview' | 'private';
+
+export interface MovieDetails {
+  director: string | null;
+  genres: string[];
+  runtime: number | null; // minutes
+  cast: string[]; // top-billed first
+  overview: string;
+  fetchedAt: string; // ISO 8601 format
 }
 
 export interface Movie extends BaseActivity {
@@ -14,20 +42,96 @@ export interface Movie extends BaseActivity {
   releaseYear: string;
   posterPath: string | null;
   tmdbId: number;
+  details?: MovieDetails; // from TMDB, absent until fetched
+}
+
+export interface SeriesSeason {
+  seasonNumber: number;
+  episodeCount: number;
+  watchedEpisodes: number[]; // episode numbers, ascending
+  rating: number; // 0-5 in half steps, 0 for unrated (see ratings.ts)
+}
+
+export interface Series extends BaseActivity {
+  type: 'series';
+  firstAirYear: string;
+  posterPath: string | null;
+  tmdbId: number; // 0 when entered manually
+  seasons: SeriesSeason[];
 }
 
 export interface Book extends BaseActivity {
   type: 'book';
   author: string;
   isbn: string;
+  // From Open Library; absent on books entered before the lookup existed.
+  coverId?: number | null;
+  pageCount?: number | null;
+  publishYear?: string;
 }
 
+export type EventCategory = 'exhibition' | 'concert' | 'theatre' | 'other';
+
 export interface Event extends BaseActivity {
   type: 'event';
   venue: string;
+  // Absent on events entered before scheduling existed.
+  category?: EventCategory;
+  startsAt?: string; // local date-time as entered, `YYYY-MM-DDTHH:mm`
+  endsAt?: string; // same format; empty for single-session events
+  performers?: string[]; // performers or organizers, in billing order
+  ticketPrice?: string; // as printed on the ticket, e.g. "₩55,000"
+  seat?: string;
 }
 
-export type Activity = Movie | Book | Event;
+// Every activity type, keyed by its `type` discriminator. The registry in `activityTypes.ts` must
+// have an entry for each key; a new type is added here and there (or via declaration merging).
+export interface ActivityTypeMap {
+  movie: Movie;
+  series: Series;
+  book: Book;
+  event: Event;
+}
+
+export type ActivityType = keyof ActivityTypeMap;
+
+export type Activity = ActivityTypeMap[ActivityType];
+
+export type ActivityOf<T extends ActivityType> = ActivityTypeMap[T];
+
+export interface LookupOption<T extends Activity> {
+  id: string;
+  title: string;
+  subtitle: string;
+  imageUrl: string | null;
+  fields: Partial<T>; // copied onto the form as soon as the option is picked
+  /** Slower follow-up lookup (details, seasons); resolves to an update, or null when there is nothing to add. */
+  enrich?: () => Promise<((current: T) => T) | null>;
+}
+
+export interface LookupProvider<T extends Activity> {
+  source: string; // e.g. "TMDB", shown in the search label
+  placeholder: string;
+  search: (query: string, signal?: AbortSignal) => Promise<LookupOption<T>[]>; // may throw OfflineError or TmdbError
+}
+
+// Parsed review Markdown (see markdown.ts). Components render this tree as React elements, so
+// review text is never interpreted as HTML.
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'link'; href: string; children: MarkdownInline[] } // href is always http(s) or mailto
+  | { kind: 'break' };
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; children: MarkdownInline[] } // 1-6
+  | { kind: 'paragraph'; children: MarkdownInline[] }
+  | { kind: 'quote'; children: MarkdownBlock[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { kind: 'code'; text: string }
+  | { kind: 'rule' }
+  | { kind: 'spoiler'; title: string; children: MarkdownBlock[] };
 
 export interface TmdbMovieSearchResult {
   id: number;
@@ -35,3 +139,271 @@ export interface TmdbMovieSearchResult {
   release_date: string;
   poster_path: string | null;
 }
+
+export interface TmdbTvSearchResult {
+  id: number;
+  name: string;
+  first_air_date: string;
+  poster_path: string | null;
+}
+
+export interface TmdbTvDetailsResponse {
+  id: number;
+  seasons: { season_number: number; episode_count: number; name: string }[];
+}
+
+export interface TmdbMovieDetailsResponse {
+  id: number;
+  overview: string | null;
+  runtime: number | null;
+  genres: { id: number; name: string }[];
+  credits?: {
+    cast: { name: string; order: number }[];
+    crew: { name: string; job: string }[];
+  };
+}
+
+export interface OpenLibrarySearchDoc {
+  key: string;
+  title: string;
+  author_name?: string[];
+  cover_i?: number;
+  number_of_pages_median?: number;
+  first_publish_year?: number;
+  isbn?: string[];
+}
+
+export interface IsbnAudit {
+  invalid: Book[]; // wrong length, prefix or check digit
+  duplicates: Book[][]; // groups of books that share an ISBN once normalized
+  unnormalized: Book[]; // valid, but stored as ISBN-10 or with separators
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  description: string;
+  itemIds: string[]; // activity ids in the collection's order; ids of deleted activities are skipped
+  createdAt: string; // ISO 8601 format
+}
+
+export interface TrashedActivity {
+  activity: Activity;
+  deletedAt: string; // ISO 8601 format
+}
+
+export interface Revision {
+  id: string;
+  activityId: string;
+  // When this version was saved; null for the version an activity had before its first tracked
+  // save, kept so that save still has something to diff against.
+  savedAt: string | null;
+  activity: Activity; // the full record as saved
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  label: string;
+  before: string; // formatted for display
+  after: string;
+}
+
+export interface TextDiffSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// One undoable change to the library. A deleted activity goes to the trash, so undoing the delete
+// restores it; undoing a create removes the activity outright. A merge edits the kept record, sends
+// the others to the trash and points collections at the kept record.
+export type LibraryChange =
+  | { kind: 'create'; activity: Activity }
+  | { kind: 'edit'; before: Activity; after: Activity }
+  | { kind: 'delete'; activity: Activity }
+  | { kind: 'merge'; before: Activity; after: Activity; merged: Activity[]; collectionsBefore: Collection[] }
+  // Many records at once; `before` has no entry for the records the step added.
+  | { kind: 'batch'; action: BatchAction; before: Activity[]; after: Activity[] };
+
+export type BatchAction = 'import' | 'normalizeIsbns';
+
+export interface ToastMessage {
+  id: number; // a new id restarts the toast's timer even if the text repeats
+  message: string;
+  action?: 'undo' | 'redo';
+}
+
+export interface UndoHistory {
+  past: LibraryChange[]; // most recent last
+  future: LibraryChange[]; // changes undone since the last new change, most recently undone last
+}
+
+export interface LibraryBackup {
+  format: 'culturalog-backup';
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601 format
+  activities: Activity[];
+  collections: Collection[]; // empty for backups made before collections existed (v3 and older)
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export type MergeMatchField = 'id' | 'tmdbId' | 'isbn';
+
+export interface MergeConflict {
+  existing: Activity;
+  incoming: Activity;
+  matchedBy: MergeMatchField;
+}
+
+export type ConflictResolution = 'keepExisting' | 'useIncoming';
+
+export interface MergePlan {
+  additions: Activity[];
+  conflicts: MergeConflict[];
+  unchangedCount: number;
+  matchedIds: Record<string, string>; // incoming id -> existing id, for every incoming record that matched
+}
+
+export interface ActivityReplacement {
+  before: Activity;
+  after: Activity; // keeps the id of `before`
+}
+
+export type CsvImportSource = 'letterboxd' | 'goodreads';
+
+export type ImportCandidateStatus = 'ready' | 'matched' | 'ambiguous' | 'unmatched';
+
+export interface ImportCandidate {
+  rowNumber: number;
+  activity: Movie | Book;
+  status: ImportCandidateStatus;
+  matches: TmdbMovieSearchResult[];
+}
+
+export type RatingScale = 'halfStars' | 'stars' | 'tenPoint';
+
+// Per-browser overrides of the build-time TMDB defaults in constants.ts; empty means "use the default".
+export interface TmdbSettings {
+  apiKey: string; // v3 API key or v4 read access token
+  language: string; // e.g. "ko-KR"
+  region: string; // ISO 3166-1 code, e.g. "KR"
+}
+
+export type TmdbErrorReason = 'notConfigured' | 'unauthorized' | 'notFound' | 'rateLimited' | 'server';
+
+export type StorageErrorReason = 'quotaExceeded' | 'blocked' | 'outdated' | 'failed';
+
+export type CsvImportErrorReason = 'unrecognizedFormat';
+
+// Shown on the exported static site (see staticSite.tsx).
+export interface PublicProfile {
+  title: string;
+  author: string;
+  siteUrl: string; // where the site will be hosted; makes feed links absolute, may be empty
+}
+
+export interface SiteFile {
+  path: string; // relative, with forward slashes
+  content: string;
+}
+
+export type Locale = 'en' | 'ko';
+
+// A catalog entry (see i18n.ts). Plural forms are picked by the `count` parameter using the
+// locale's plural rules; `other` is required since it is the only category every locale has.
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+// What the UI shows for an activity type in one locale. English comes from the registry in
+// activityTypes.ts; other locales translate it in their catalog.
+export interface ActivityTypeText {
+  label: string; // plural, for navigation and headings
+  singular: string;
+  count: Message; // e.g. "3 movies"
+  statusLabels: Record<ActivityStatus, string>;
+  dateLabels: Record<ActivityStatus, string>;
+  repeatCount: Message; // e.g. "Watched 3 times"
+  repeatLabel: string;
+  ratingLabel?: string;
+  fieldLabels: Record<string, string>; // by field name, for fields with an input or a label
+  lookupPlaceholder?: string;
+}
+
+export interface AppSettings {
+  locale: Locale; // UI language and date and number formatting; TMDB results follow it unless overridden
+  ratingScale: RatingScale; // display and input only; ratings are always stored on the 0-5 scale
+  tmdb: TmdbSettings;
+  profile: PublicProfile;
+}
+
+export type SortField = 'date' | 'rating' | 'title' | 'releaseYear';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface LibraryQuery {
+  text: string;
+  types: ActivityType[];
+  minRating: number;
+  maxRating: number;
+  from: string; // YYYY-MM-DD, inclusive; empty for no lower bound
+  to: string; // YYYY-MM-DD, inclusive; empty for no upper bound
+  tags: string[]; // items must carry every one of these
+  sortField: SortField;
+  sortDirection: SortDirection;
+}
+
+export type AppView = ActivityType | 'collections' | 'calendar' | 'timeline' | 'stats' | 'trash';
+
+export interface PaletteCommand {
+  id: string;
+  label: string; // e.g. "Log new movie"
+  group: string; // heading the command is listed under while the palette is empty
+  keywords?: string[]; // extra words the command is found by
+  shortcut?: string; // shown next to the label, e.g. "Ctrl+Z"
+  run: () => void;
+}
+
+export interface KeyboardShortcut {
+  keys: string[]; // alternatives, e.g. ['j', '→']
+  description: MessageKey;
+}
+
+export type GridMove = 'next' | 'previous' | 'up' | 'down' | 'first' | 'last';
+
+export interface CalendarEntry {
+  activity: Activity;
+  session: ActivitySession;
+  day: string; // YYYY-MM-DD
+}
+
+export interface TimelineMonth {
+  month: string; // YYYY-MM
+  entries: CalendarEntry[]; // newest first
+}
+
+export interface MonthlyActivityCount {
+  month: string; // YYYY-MM
+  counts: Record<ActivityType, number>;
+}
+
+export interface RankedEntry {
+  label: string;
+  count: number;
+  averageRating: number | null;
+}
+
+export interface RatingBucket {
+  rating: number; // stored 0-5 value; 0 collects unrated items
+  count: number;
+}
+
+export type DuplicateReason = 'tmdbId' | 'isbn' | 'title';
+
+export interface DuplicateGroup {
+  items: Activity[]; // oldest first
+  reason: DuplicateReason; // the strongest link found between the items
+}
+
+export interface MergeField {
+  key: string; // 'title', 'status', 'visibility', 'lookup' or the name of a labelled type field
+  fields: string[]; // record fields copied together from the chosen item
+}
@@ -0,0 +1,52 @@
+import type { Translator } from './i18n';
+import type { Activity, LibraryChange, UndoHistory } from './types';
+
+// Session-level undo/redo for creating, editing, deleting and merging activities, and for batch changes. The history lives in
+// memory only; these helpers are pure and leave persisting each step to the caller.
+
+export const UNDO_HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+/** Adds `change` as the latest step, discarding anything that could have been redone. */
+export const recordChange = (history: UndoHistory, change: LibraryChange, limit = UNDO_HISTORY_LIMIT): UndoHistory => ({
+    past: [...history.past, change].slice(-limit),
+    future: [],
+});
+
+/** The change to revert and the history after reverting it, or `null` when there is nothing to undo. */
+export const undoStep = (history: UndoHistory): { change: LibraryChange; history: UndoHistory } | null => {
+    const change = history.past.at(-1);
+    return change ? { change, history: { past: history.past.slice(0, -1), future: [...history.future, change] } } : null;
+};
+
+/** The change to reapply and the history after reapplying it, or `null` when there is nothing to redo. */
+export const redoStep = (history: UndoHistory): { change: LibraryChange; history: UndoHistory } | null => {
+    const change = history.future.at(-1);
+    return change ? { change, history: { past: [...history.past, change], future: history.future.slice(0, -1) } } : null;
+};
+
+/** The activity a single-record change is about, in its latest state. */
+export const changedActivity = (change: Exclude<LibraryChange, { kind: 'batch' }>): Activity =>
+    change.kind === 'edit' || change.kind === 'merge' ? change.after : change.activity;
+
+/** The records a batch change added, as opposed to updated. */
+export const batchAdditions = (change: Extract<LibraryChange, { kind: 'batch' }>): Activity[] =>
+    change.after.filter(item => !change.before.some(previous => previous.id === item.id));
+
+/** Every activity a change touches: for a merge, also the records merged away. */
+const involvedIds = (change: LibraryChange): string[] =>
+    change.kind === 'batch' ? change.after.map(item => item.id)
+        : [changedActivity(change).id, ...(change.kind === 'merge' ? change.merged.map(item => item.id) : [])];
+
+/** Drops every step about the given activities, e.g. once they are purged from the trash for good. */
+export const forgetActivities = (history: UndoHistory, ids: string[]): UndoHistory => {
+    const keep = (change: LibraryChange) => !involvedIds(change).some(id => ids.includes(id));
+    return { past: history.past.filter(keep), future: history.future.filter(keep) };
+};
+
+/** E.g. `Deleted "Dune"`, for toasts and the undo/redo button titles. */
+export const describeChange = (change: LibraryChange, i18n: Translator): string =>
+    change.kind === 'batch' ? i18n.t(`change.${change.action}`, { count: change.after.length })
+        : change.kind === 'merge' ? i18n.t('change.merge', { count: change.merged.length + 1, title: change.after.title })
+        : i18n.t(`change.${change.kind}`, { title: changedActivity(change).title });
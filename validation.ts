@@ -0,0 +1,10 @@
+// Runtime checks for untrusted data (backup files, activity type field schemas).
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown) => typeof value === 'string';
+export const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+export const isRating = (value: unknown) => isNumber(value) && (value as number) >= 0 && (value as number) <= 5;
+export const isDateString = (value: unknown) => isString(value) && !Number.isNaN(Date.parse(value as string));
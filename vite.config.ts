@@ -1,17 +1,49 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
+
+// Files copied from `public/` that the app shell needs offline.
+const PUBLIC_PRECACHE_FILES = ['manifest.webmanifest', 'icon.svg', 'icon-maskable.svg'];
+
+/** Emits `sw.js` from `serviceWorker.js`, injecting the build's files for precaching. */
+const serviceWorker = (): Plugin => ({
+    name: 'culturalog-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+        const files = ['./', ...PUBLIC_PRECACHE_FILES, ...Object.keys(bundle)];
+        // Built asset names carry content hashes, so hashing the list versions the whole shell.
+        const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+        const source = readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf8')
+            .replace('self.__PRECACHE_FILES__', JSON.stringify(files))
+            .replace('self.__CACHE_VERSION__', JSON.stringify(version));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TMDB_API_KEY': JSON.stringify(env.TMDB_API_KEY ?? ''),
+        'process.env.TMDB_LANGUAGE': JSON.stringify(env.TMDB_LANGUAGE ?? ''),
+        'process.env.TMDB_REGION': JSON.stringify(env.TMDB_REGION ?? '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // The services read `localStorage` and `navigator` when their modules load.
+        environment: 'happy-dom',
+        // Undo `vi.spyOn` (e.g. the silenced console.error) after every test.
+        restoreMocks: true,
       }
     };
 });